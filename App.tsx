@@ -1,19 +1,48 @@
 
 import { AnimatePresence, motion } from 'framer-motion';
-import { AlertTriangle, ArrowLeft, ArrowUpRight, Briefcase, Github, Link as LinkIcon, Loader2, MapPin, Moon, Plus, Star, Sun, X } from 'lucide-react';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertTriangle, ArrowLeft, ArrowUpRight, Bookmark, Briefcase, Database, Github, Key, Link as LinkIcon, Loader2, MapPin, Moon, Plus, Sprout, Star, Sun, X } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 import { flushSync } from 'react-dom';
+import AuthModal from './components/AuthModal';
+import CachePanel from './components/CachePanel';
+import CollectionsView from './components/CollectionsView';
+import CompareTray from './components/CompareTray';
+import CompareView from './components/CompareView';
 import FilterPanel from './components/FilterPanel';
+import FreshnessIndicator from './components/FreshnessIndicator';
+import IssueFinder from './components/IssueFinder';
 import Landing from './components/Landing';
+import RateLimitIndicator from './components/RateLimitIndicator';
 import RepoCard from './components/RepoCard';
-import { ITEMS_PER_PAGE, MAX_STARS } from './constants';
-import { getSessionRepos, getUserProfile, getUserTopRepos, saveSessionRepos, searchRepositories } from './services/githubService';
-import { FilterState, GitHubRepo, GitHubUserProfile, OrderOption, SortOption } from './types';
+import UserMenu from './components/UserMenu';
+import { DEFAULT_FILTERS, DEFAULT_ISSUE_FINDER, ITEMS_PER_PAGE, MAX_STARS } from './constants';
+import { getAuthenticatedUser, getRepository, getSessionRepos, getUserProfile, getUserTopRepos, hasAuthToken, onAuthExpired, refreshRateLimits, saveSessionRepos, searchRepositories, signOut } from './services/githubService';
+import { startCacheSweeper } from './services/db';
+import { loadCollections } from './services/collections';
+import { checkSavedSearches } from './services/savedSearches';
+import { applyHealthFilters, getHealthState, subscribeHealth } from './services/health';
+import { carriesFilters, getCurrentRoute, navigate, RepoRef, RouteState } from './services/router';
+import { filterStarredRepos, getStarsState, loadStarredRepos, resetStars, subscribeStars } from './services/stars';
+import { FilterState, GitHubRepo, GitHubUserProfile, IssueFinderFilters, SearchResponse, SortOption, ViewMode } from './types';
 
 // Lazy load only secondary views
 const About = React.lazy(() => import('./components/About'));
+const RepoDetail = React.lazy(() => import('./components/RepoDetail'));
+
+// When a loaded page was fetched and whether it is a stale copy still being refreshed
+type PageFreshness = { fetchedAt: number; stale: boolean };
+
+// Identifies the repository list a page belongs to, so page resets only happen when it changes
+// The health floor only hides loaded repositories, so it does not make a new list
+const getListKey = ({ minHealth, ...filters }: FilterState, user: string | null, view: ViewMode) =>
+  JSON.stringify([filters, user, view === 'stars']);
 
 const App: React.FC = () => {
+  // Deep link present on load (null when the hash is empty or unknown)
+  const [initialRoute] = useState<RouteState | null>(() => getCurrentRoute());
+  // Only grid and issue finder routes carry filters and page; repo and about links keep the persisted ones
+  const initialListRoute = initialRoute && carriesFilters(initialRoute) ? initialRoute : null;
+
   const [theme, setTheme] = useState<'dark' | 'light'>('dark');
 
   // Hydrate repos from session storage for instant load if returning
@@ -22,17 +51,37 @@ const App: React.FC = () => {
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [searchWarning, setSearchWarning] = useState<string | null>(null);
+  const [pageFreshness, setPageFreshness] = useState<Record<number, PageFreshness>>({});
 
   // Pagination & View State
-  const [page, setPage] = useState<number>(1);
-  const [viewMode, setViewMode] = useState<'landing' | 'search' | 'user' | 'about'>(() => {
+  const [page, setPage] = useState<number>(() => initialListRoute?.page || 1);
+  const [viewMode, setViewMode] = useState<ViewMode>(() => {
+    if (initialRoute) return initialRoute.view;
     const saved = localStorage.getItem('openlens_view_mode');
     // Only restore search or user modes to prevent stuck states
     if (saved === 'search' || saved === 'user') return saved as any;
     return 'landing';
   });
 
-  const [selectedUser, setSelectedUser] = useState<string | null>(null);
+  const [selectedUser, setSelectedUser] = useState<string | null>(() => initialListRoute?.user || null);
+
+  // Repository View State: the routed repo and its data (passed along from a card, or fetched for deep links)
+  const [selectedRepo, setSelectedRepo] = useState<RepoRef | null>(() => initialRoute?.repo || null);
+  const [repoData, setRepoData] = useState<GitHubRepo | null>(null);
+  const [repoError, setRepoError] = useState<string | null>(null);
+
+  // Open collection in the collections view (null shows the most recently updated one)
+  const [selectedCollection, setSelectedCollection] = useState<string | null>(() => initialRoute?.collection || null);
+
+  // Repositories shown side by side in the comparison view
+  const [compareRepos, setCompareRepos] = useState<RepoRef[]>(() => initialRoute?.compare || []);
+
+  // Label, assignee, recency and comment filters of the starter issue finder
+  const [issueFinder, setIssueFinder] = useState<IssueFinderFilters>(() => initialRoute?.issueFinder || DEFAULT_ISSUE_FINDER);
+
+  // Where the repository view was opened from, so returning lands on the same scroll offset
+  const repoOrigin = useRef<{ scrollTop: number } | null>(null);
+  const gridScrollRef = useRef<HTMLElement>(null);
 
   // User Profile State
   const [userProfile, setUserProfile] = useState<GitHubUserProfile | null>(null);
@@ -43,28 +92,46 @@ const App: React.FC = () => {
 
   const [hasMore, setHasMore] = useState<boolean>(true);
 
+  // Auth Session State
+  const [authUser, setAuthUser] = useState<GitHubUserProfile | null>(null);
+  const [isAuthOpen, setIsAuthOpen] = useState<boolean>(false);
+  const [authNotice, setAuthNotice] = useState<string | null>(null);
+
+  const [isCacheOpen, setIsCacheOpen] = useState<boolean>(false);
+
+  // Starred repositories of the signed-in user, loaded once per session and filtered locally
+  const stars = useSyncExternalStore(subscribeStars, getStarsState);
+
   // Track the ID of the last requested fetch to prevent race conditions
   const lastRequestId = useRef<number>(0);
 
-  // Initialize filters from storage or default
+  // Initialize filters from the deep link, then storage, then default
   const [filters, setFilters] = useState<FilterState>(() => {
+    if (initialListRoute) return initialListRoute.filters;
     try {
       const saved = localStorage.getItem('openlens_filters');
-      if (saved) return JSON.parse(saved);
+      if (saved) return { ...DEFAULT_FILTERS, ...JSON.parse(saved) };
     } catch(e) {
       console.warn("Failed to parse saved filters", e);
     }
-    return {
-      query: '',
-      language: [],
-      license: 'All',
-      sort: SortOption.STARS,
-      order: OrderOption.DESC,
-      minStars: 0,
-      maxStars: MAX_STARS,
-    };
+    return DEFAULT_FILTERS;
   });
 
+  // Which list the rendered repos belong to and how many of its pages they cover, so a
+  // restored route (page > 1) re-fetches every page up to it instead of appending one
+  const loadedList = useRef<{ key: string; pages: number }>({ key: '', pages: 0 });
+  const listKey = getListKey(filters, selectedUser, viewMode);
+  const starredMatches = useMemo(() => filterStarredRepos(stars.repos, filters), [stars.repos, filters]);
+  const lastListKey = useRef<string>(listKey);
+
+  // Health scores are fetched on demand; while sorting or filtering by them, cards score themselves as they show
+  const health = useSyncExternalStore(subscribeHealth, getHealthState);
+  const healthActive = filters.sort === SortOption.HEALTH || filters.minHealth > 0;
+  const visibleRepos = useMemo(
+    () => healthActive ? applyHealthFilters(repos, health, filters) : repos,
+    [healthActive, repos, health, filters]
+  );
+
   // Apply theme to HTML element directly
   useEffect(() => {
     const root = window.document.documentElement;
@@ -87,6 +154,93 @@ const App: React.FC = () => {
     }
   }, [viewMode]);
 
+  // Mirror navigation state into the URL. The first sync and page changes (load more,
+  // resets after a filter edit, trimming a comparison) replace the entry instead of stacking back-button steps.
+  const lastRoutedPage = useRef<number | null>(null);
+  const lastRoutedView = useRef<ViewMode | null>(null);
+  useEffect(() => {
+    const replace = lastRoutedPage.current === null || page !== lastRoutedPage.current
+      || (viewMode === 'compare' && lastRoutedView.current === 'compare');
+    lastRoutedPage.current = page;
+    lastRoutedView.current = viewMode;
+    navigate({ view: viewMode, filters, page, user: selectedUser, repo: selectedRepo, collection: selectedCollection, compare: compareRepos, issueFinder }, replace);
+  }, [viewMode, filters, page, selectedUser, selectedRepo, selectedCollection, compareRepos, issueFinder]);
+
+  // Restore the signed-in session and watch for the token being rejected later on
+  useEffect(() => {
+    if (hasAuthToken()) {
+      getAuthenticatedUser().then(user => {
+        if (user) setAuthUser(user);
+      });
+    }
+
+    return onAuthExpired(() => {
+      setAuthUser(null);
+      setAuthNotice("Your GitHub token has expired or was revoked. Reconnect to keep the higher rate limit.");
+      setIsAuthOpen(true);
+    });
+  }, []);
+
+  // Keep the API cache within its age and size limits for as long as the app is open
+  useEffect(() => startCacheSweeper(), []);
+
+  // Collections are local, so they are read once up front for the "Save" pickers on every card
+  useEffect(() => {
+    loadCollections();
+  }, []);
+
+  // Saved searches look for repositories that are new since the last visit
+  useEffect(() => {
+    checkSavedSearches();
+  }, []);
+
+  // Seeds the quota indicator; token changes refresh it themselves (see setAuthToken)
+  useEffect(() => {
+    refreshRateLimits();
+  }, []);
+
+  // Stars belong to the session: load them on sign-in, forget them on sign-out or an expired token
+  useEffect(() => {
+    if (authUser) {
+      loadStarredRepos();
+    } else if (!hasAuthToken()) {
+      resetStars();
+    }
+  }, [authUser]);
+
+  // Restore state when the user walks the history (back/forward or a hand-edited hash)
+  useEffect(() => {
+    const handlePopState = () => {
+      const route = getCurrentRoute();
+      if (!route) {
+        setViewMode('landing');
+        return;
+      }
+
+      setSelectedRepo(route.repo);
+      setSelectedCollection(route.collection);
+      setCompareRepos(route.compare);
+      setIssueFinder(route.issueFinder);
+      if (!carriesFilters(route)) {
+        // Repo, collection, comparison and about links carry no filters: leave the grid state untouched behind them
+        setViewMode(route.view);
+        return;
+      }
+
+      // Applying a route is not a filter edit: keep its page instead of resetting to 1
+      lastListKey.current = getListKey(route.filters, route.user, route.view);
+      lastRoutedPage.current = route.page;
+
+      setViewMode(route.view);
+      setSelectedUser(route.user);
+      setFilters(route.filters);
+      setPage(route.page);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
   const toggleTheme = () => {
     if (!(document as any).startViewTransition) {
       setTheme(prev => prev === 'dark' ? 'light' : 'dark');
@@ -100,8 +254,11 @@ const App: React.FC = () => {
   };
 
   // Fetch User Profile and Top Repos when selectedUser changes
+  const profileFor = useRef<string | null>(null);
   useEffect(() => {
-    if (viewMode === 'user' && selectedUser) {
+    // Coming back from a repository opened on this profile: keep what is already shown
+    if (viewMode === 'user' && selectedUser && profileFor.current !== selectedUser) {
+      profileFor.current = selectedUser;
       setUserProfile(null);
       setTopRepos([]);
       setLoadingProfile(true);
@@ -132,8 +289,39 @@ const App: React.FC = () => {
     }
   }, [viewMode, selectedUser]);
 
+  // Resolve repository data for deep links (a card click hands it over directly)
+  useEffect(() => {
+    if (viewMode !== 'repo' || !selectedRepo) return;
+    const fullName = `${selectedRepo.owner}/${selectedRepo.name}`.toLowerCase();
+    if (repoData && repoData.full_name.toLowerCase() === fullName) return;
+
+    let cancelled = false;
+    setRepoData(null);
+    setRepoError(null);
+    getRepository(selectedRepo.owner, selectedRepo.name).then(repo => {
+      if (cancelled) return;
+      if (repo) {
+        setRepoData(repo);
+      } else {
+        setRepoError("Repository could not be found.");
+      }
+    });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [viewMode, selectedRepo]);
+
+  // Put the grid back where it was when the repository view was opened
+  useEffect(() => {
+    if ((viewMode !== 'search' && viewMode !== 'user' && viewMode !== 'stars' && viewMode !== 'collections') || !repoOrigin.current) return;
+    const { scrollTop } = repoOrigin.current;
+    repoOrigin.current = null;
+    requestAnimationFrame(() => {
+      if (gridScrollRef.current) gridScrollRef.current.scrollTop = scrollTop;
+    });
+  }, [viewMode]);
+
   const fetchData = useCallback(async (isLoadMore: boolean = false) => {
-    if (viewMode === 'about') return;
+    if (viewMode === 'about' || viewMode === 'repo' || viewMode === 'stars' || viewMode === 'issues' || viewMode === 'collections' || viewMode === 'compare') return;
 
     // Background refresh logic:
     // If we have repos already (restored from cache) and this is the initial page load,
@@ -148,12 +336,38 @@ const App: React.FC = () => {
     if (!isLoadMore) setSearchWarning(null); // Clear warning on new search only
 
     const requestId = ++lastRequestId.current;
-    const currentPage = isLoadMore ? page : 1;
+    const currentPage = page;
+    const requestListKey = getListKey(filters, selectedUser, viewMode);
+
+    const firstPage = isLoadMore ? currentPage : 1;
+    const responses: SearchResponse[] = [];
+    let settled = false;
+
+    // A stale page came back refreshed: patch it into this request, or into the list once on screen
+    const handleRevalidate = (p: number) => (fresh: SearchResponse) => {
+      if (!settled) {
+        if (requestId === lastRequestId.current) responses[p - firstPage] = fresh;
+        return;
+      }
+      if (loadedList.current.key !== requestListKey || loadedList.current.pages < p) return;
 
-    try {
-      const response = await searchRepositories(filters, currentPage, selectedUser);
+      const start = (p - 1) * ITEMS_PER_PAGE;
+      setRepos(prev => [...prev.slice(0, start), ...fresh.items, ...prev.slice(start + ITEMS_PER_PAGE)]);
+      setPageFreshness(prev => ({ ...prev, [p]: { fetchedAt: fresh.fetchedAt || Date.now(), stale: false } }));
+      if (p === 1) saveSessionRepos(fresh.items);
+    };
 
-      if (requestId !== lastRequestId.current) return;
+    try {
+      for (let p = firstPage; p <= currentPage; p++) {
+        responses.push(await searchRepositories(filters, p, selectedUser, {
+          staleWhileRevalidate: true,
+          onRevalidate: handleRevalidate(p),
+        }));
+        if (requestId !== lastRequestId.current) return;
+      }
+      settled = true;
+      const response = responses[responses.length - 1];
+      const fetchedItems = responses.flatMap(r => r.items);
 
       if (response.warning) {
           setSearchWarning(response.warning);
@@ -161,12 +375,16 @@ const App: React.FC = () => {
 
       let newRepos: GitHubRepo[] = [];
       if (isLoadMore) {
-        newRepos = [...repos, ...response.items];
+        newRepos = [...repos, ...fetchedItems];
       } else {
-        newRepos = response.items;
+        newRepos = fetchedItems;
       }
 
       setRepos(newRepos);
+      loadedList.current = { key: requestListKey, pages: currentPage };
+
+      const freshness = Object.fromEntries(responses.map((r, i) => [firstPage + i, { fetchedAt: r.fetchedAt || Date.now(), stale: !!r.stale }]));
+      setPageFreshness(prev => isLoadMore ? { ...prev, ...freshness } : freshness);
 
       // Save snapshot for next session instant load
       saveSessionRepos(newRepos);
@@ -186,31 +404,57 @@ const App: React.FC = () => {
         setLoading(false);
       }
     }
-  }, [filters.query, filters.language, filters.license, filters.sort, filters.order, filters.minStars, filters.maxStars, page, selectedUser, viewMode, repos.length]);
+  }, [filters.query, filters.language, filters.languageMode, filters.license, filters.sort, filters.order, filters.minStars, filters.maxStars, filters.trendingSince, filters.qualifiers, page, selectedUser, viewMode, repos.length]);
+
+  // The starred list needs no requests per page: filter what the stars store holds
+  useEffect(() => {
+    if (viewMode !== 'stars') return;
+    // A stored token is still being verified: stay in the loading state until the stars arrive
+    const signingIn = stars.status === 'signed-out' && hasAuthToken();
+    const shown = page * ITEMS_PER_PAGE;
+
+    setSearchWarning(null);
+    setRepos(starredMatches.slice(0, shown));
+    setHasMore(starredMatches.length > shown);
+    setLoading(signingIn || (stars.status === 'loading' && starredMatches.length < shown));
+    setError(stars.status === 'error' ? stars.error
+      : stars.status === 'signed-out' && !signingIn ? 'Sign in with a GitHub token to see your starred repositories.'
+      : null);
+    loadedList.current = { key: listKey, pages: page };
+  }, [viewMode, stars.status, stars.error, starredMatches, page, listKey]);
 
   // Initial load & Page change trigger
   useEffect(() => {
-    if (viewMode === 'about') return;
+    if (viewMode === 'about' || viewMode === 'repo' || viewMode === 'stars' || viewMode === 'issues' || viewMode === 'collections' || viewMode === 'compare') return;
     if (viewMode === 'landing') return; // Don't fetch on landing
 
-    if (page === 1) {
-        fetchData(false);
-    } else {
-        fetchData(true);
-    }
+    // Returning from a secondary view to a list that is already on screen: keep it as is
+    if (loadedList.current.key === listKey && loadedList.current.pages === page) return;
+
+    // Only append when the previous page of this same list is already on screen
+    const canAppend = page > 1 && loadedList.current.key === listKey && loadedList.current.pages === page - 1;
+    fetchData(canAppend);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [page, filters.query, filters.language, filters.license, filters.sort, filters.order, filters.minStars, filters.maxStars, selectedUser, viewMode]);
+  }, [page, filters.query, filters.language, filters.languageMode, filters.license, filters.sort, filters.order, filters.minStars, filters.maxStars, filters.trendingSince, filters.qualifiers, selectedUser, viewMode]);
 
   // Reset page when filters change (only those affecting repo list)
   useEffect(() => {
-      if (viewMode === 'about' || viewMode === 'landing') return;
+      if (viewMode === 'about' || viewMode === 'landing' || viewMode === 'repo' || viewMode === 'issues' || viewMode === 'collections' || viewMode === 'compare') return;
+      // Unchanged list (e.g. the first render or a restored route): keep the current page
+      if (listKey === lastListKey.current) return;
+      lastListKey.current = listKey;
       setPage(1);
       setHasMore(true);
       // We do NOT clear repos here immediately to avoid white flash before new data arrives,
       // The fetchData function will overwrite repos.
-  }, [filters.query, filters.language, filters.license, filters.sort, filters.order, filters.minStars, filters.maxStars, selectedUser]);
+  }, [listKey]);
 
   const handleSearch = () => {
+    if (viewMode === 'stars') {
+      if (authUser) loadStarredRepos();
+      else setIsAuthOpen(true);
+      return;
+    }
     setPage(1);
     fetchData(false);
   };
@@ -227,13 +471,80 @@ const App: React.FC = () => {
       }));
   };
 
+  const handleViewStars = () => {
+      setSelectedUser(null);
+      setViewMode('stars');
+      setFilters(prev => ({
+          ...prev,
+          query: '',
+          minStars: 0,
+          maxStars: MAX_STARS,
+      }));
+  };
+
+  const handleViewIssues = () => {
+      setSelectedUser(null);
+      setSelectedRepo(null);
+      setViewMode('issues');
+  };
+
+  const handleViewCollections = () => {
+      setSelectedRepo(null);
+      setViewMode('collections');
+  };
+
+  const handleCompare = (selection: GitHubRepo[]) => {
+      repoOrigin.current = { scrollTop: gridScrollRef.current?.scrollTop || 0 };
+      setCompareRepos(selection.map(repo => ({ owner: repo.owner.login, name: repo.name })));
+      setSelectedRepo(null);
+      setViewMode('compare');
+  };
+
+  const handleCompareRemove = (removed: RepoRef) => {
+      setCompareRepos(prev => prev.filter(repo => repo !== removed));
+  };
+
+  const handleRepoClick = (repo: GitHubRepo) => {
+      // Views without the grid (e.g. the comparison) keep the offset recorded when they were opened
+      if (gridScrollRef.current || !repoOrigin.current) {
+          repoOrigin.current = { scrollTop: gridScrollRef.current?.scrollTop || 0 };
+      }
+      setRepoData(repo);
+      setSelectedRepo({ owner: repo.owner.login, name: repo.name });
+      setViewMode('repo');
+  };
+
+  const handleRepoReturn = () => {
+      // Opened from the grid: step back through history so the origin route is restored as-is
+      if (repoOrigin.current) {
+          window.history.back();
+          return;
+      }
+      // Opened from a deep link: there is no in-app entry to go back to
+      setSelectedRepo(null);
+      setViewMode(selectedUser ? 'user' : 'search');
+  };
+
   const handleBackToSearch = () => {
+      repoOrigin.current = null;
       setSelectedUser(null);
+      setSelectedRepo(null);
+      setSelectedCollection(null);
       setViewMode('search');
       setFilters(prev => ({ ...prev, query: '' }));
       setPage(1);
   };
 
+  const handleSignOut = async () => {
+      await signOut();
+      setAuthUser(null);
+  };
+
+  const handleAuthClose = () => {
+      setIsAuthOpen(false);
+      setAuthNotice(null);
+  };
+
   const toggleAbout = () => {
       if (viewMode === 'about') {
           if (selectedUser) {
@@ -282,6 +593,11 @@ const App: React.FC = () => {
       };
   };
 
+  // The grid is only as fresh as its oldest page
+  const loadedFreshness: PageFreshness[] = Object.values(pageFreshness);
+  const oldestFetch = loadedFreshness.length > 0 ? Math.min(...loadedFreshness.map(f => f.fetchedAt)) : null;
+  const refreshingPages = loadedFreshness.some(f => f.stale);
+
   const containerVariants = {
       hidden: { opacity: 0 },
       show: {
@@ -326,9 +642,9 @@ const App: React.FC = () => {
                         Open<span className="italic">Lens</span>
                     </button>
 
-                    {viewMode === 'user' && (
+                    {(viewMode === 'user' || viewMode === 'stars' || viewMode === 'issues' || viewMode === 'collections' || viewMode === 'compare' || viewMode === 'repo') && (
                         <button
-                            onClick={handleBackToSearch}
+                            onClick={viewMode === 'repo' || viewMode === 'compare' ? handleRepoReturn : handleBackToSearch}
                             className="group flex items-center gap-2 md:gap-3 text-zinc-500 hover:text-zinc-900 dark:hover:text-white transition-all duration-300 ml-2 md:ml-4 shrink-0"
                         >
                             <div className="p-2 rounded-full border border-transparent group-hover:border-zinc-300 dark:group-hover:border-white/10 group-hover:bg-zinc-200 dark:group-hover:bg-white/5 transition-all">
@@ -343,15 +659,65 @@ const App: React.FC = () => {
                   {viewMode !== 'about' && (
                     <div className="hidden md:flex flex-col items-end animate-in fade-in duration-500">
                         <div className="text-[11px] uppercase tracking-[0.3em] text-zinc-400 dark:text-zinc-500 mb-1 font-medium">
-                            {viewMode === 'user' ? `Collection` : `Global Index`}
+                            {viewMode === 'repo' ? `Repository` : viewMode === 'user' ? `Collection` : viewMode === 'stars' ? `My Stars` : viewMode === 'issues' ? `Contribute` : viewMode === 'collections' ? `Saved` : viewMode === 'compare' ? `Comparison` : `Global Index`}
                         </div>
                         <div className="text-xs font-mono text-zinc-600 dark:text-zinc-400">
-                            {viewMode === 'user' ? selectedUser : `${repos.length.toLocaleString()} Artifacts`}
+                            {viewMode === 'repo' && selectedRepo
+                                ? `${selectedRepo.owner}/${selectedRepo.name}`
+                                : viewMode === 'user' ? selectedUser
+                                : viewMode === 'stars' ? `${stars.repos.length.toLocaleString()} Starred`
+                                : viewMode === 'issues' ? `Starter Issues`
+                                : viewMode === 'collections' ? `Collections`
+                                : viewMode === 'compare' ? `${compareRepos.length} Repositories` : `${repos.length.toLocaleString()} Artifacts`}
                         </div>
                     </div>
                   )}
 
                   <div className="flex items-center gap-3">
+                    <RateLimitIndicator />
+                    {authUser ? (
+                        <UserMenu user={authUser} onViewProfile={handleUserClick} onViewStars={handleViewStars} onSignOut={handleSignOut} />
+                    ) : (
+                        <button
+                            onClick={() => setIsAuthOpen(true)}
+                            className="flex items-center gap-2 px-3 h-8 rounded-full border border-zinc-200 dark:border-white/10 text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:border-zinc-300 dark:hover:border-white/20 transition-all duration-300 focus:outline-none"
+                        >
+                            <Key className="w-3.5 h-3.5" />
+                            <span className="text-[11px] uppercase tracking-[0.2em] font-medium hidden sm:inline">Sign In</span>
+                        </button>
+                    )}
+                    <button
+                        onClick={handleViewIssues}
+                        className={`flex items-center justify-center w-8 h-8 rounded-full border transition-all duration-300 focus:outline-none ${
+                            viewMode === 'issues'
+                                ? 'border-zinc-300 dark:border-white/20 text-zinc-900 dark:text-white'
+                                : 'border-zinc-200 dark:border-white/10 text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:border-zinc-300 dark:hover:border-white/20'
+                        }`}
+                        aria-label="Starter Issues"
+                        title="Starter Issues"
+                    >
+                        <Sprout className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                        onClick={handleViewCollections}
+                        className={`flex items-center justify-center w-8 h-8 rounded-full border transition-all duration-300 focus:outline-none ${
+                            viewMode === 'collections'
+                                ? 'border-zinc-300 dark:border-white/20 text-zinc-900 dark:text-white'
+                                : 'border-zinc-200 dark:border-white/10 text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:border-zinc-300 dark:hover:border-white/20'
+                        }`}
+                        aria-label="Collections"
+                        title="Collections"
+                    >
+                        <Bookmark className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                        onClick={() => setIsCacheOpen(true)}
+                        className="flex items-center justify-center w-8 h-8 rounded-full border border-zinc-200 dark:border-white/10 text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:border-zinc-300 dark:hover:border-white/20 transition-all duration-300 focus:outline-none"
+                        aria-label="Manage Cache"
+                        title="Offline Cache"
+                    >
+                        <Database className="w-3.5 h-3.5" />
+                    </button>
                     <button
                         onClick={toggleTheme}
                         className="relative w-14 h-8 rounded-full border border-zinc-200 dark:border-white/10 bg-zinc-100/50 dark:bg-zinc-900/50 shadow-inner flex items-center px-1 transition-all duration-300 group focus:outline-none hover:border-zinc-300 dark:hover:border-white/20"
@@ -375,16 +741,72 @@ const App: React.FC = () => {
                    <React.Suspense fallback={null}>
                       <About onReturn={toggleAbout} />
                    </React.Suspense>
+                ) : viewMode === 'issues' ? (
+                   <>
+                      <FilterPanel
+                          filters={filters}
+                          setFilters={setFilters}
+                          isLoading={false}
+                          placeholder="Search issues"
+                          repoControls={false}
+                      />
+                      <IssueFinder
+                          filters={filters}
+                          finder={issueFinder}
+                          onFinderChange={setIssueFinder}
+                          onRepoClick={handleRepoClick}
+                          onReturn={handleBackToSearch}
+                      />
+                   </>
+                ) : viewMode === 'collections' ? (
+                   <CollectionsView
+                      selectedId={selectedCollection}
+                      onSelect={setSelectedCollection}
+                      onUserClick={handleUserClick}
+                      onRepoClick={handleRepoClick}
+                   />
+                ) : viewMode === 'compare' ? (
+                   <CompareView
+                      repos={compareRepos}
+                      onRemove={handleCompareRemove}
+                      onRepoClick={handleRepoClick}
+                      onReturn={handleRepoReturn}
+                   />
+                ) : viewMode === 'repo' ? (
+                   <section className="flex-1 overflow-y-auto min-h-0 min-w-0">
+                      {repoData ? (
+                          <React.Suspense fallback={null}>
+                              <RepoDetail key={repoData.id} repo={repoData} onReturn={handleRepoReturn} />
+                          </React.Suspense>
+                      ) : repoError ? (
+                          <div className="w-full h-[60vh] flex flex-col items-center justify-center text-center animate-in fade-in zoom-in-95 duration-500">
+                              <p className="text-red-500 dark:text-red-300 font-serif text-2xl mb-3 tracking-wide">Artifact Unavailable</p>
+                              <p className="text-red-600/60 dark:text-red-400/60 text-sm font-mono mb-8">{repoError}</p>
+                              <button
+                                  onClick={handleRepoReturn}
+                                  className="px-8 py-3 border border-zinc-300 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 text-[13px] uppercase tracking-[0.2em] transition-all duration-300"
+                              >
+                                  Back to Index
+                              </button>
+                          </div>
+                      ) : (
+                          <div className="w-full h-[60vh] flex flex-col items-center justify-center">
+                              <Loader2 className="w-10 h-10 text-zinc-900 dark:text-white animate-spin" />
+                              <p className="mt-8 text-zinc-500 font-serif text-[12px] uppercase tracking-[0.3em] animate-pulse">Retrieving Artifact</p>
+                          </div>
+                      )}
+                   </section>
                 ) : (
                   <>
                     <FilterPanel
                         filters={filters}
                         setFilters={setFilters}
                         isLoading={loading}
+                        placeholder={viewMode === 'stars' ? 'Search your stars' : undefined}
                     />
 
                     {/* Scrollable Main Content Area */}
-                    <section className="flex-1 overflow-y-auto min-h-0 p-3 md:p-6 lg:p-10 2xl:p-12 items-start min-w-0">
+                    <section ref={gridScrollRef} className="flex-1 overflow-y-auto min-h-0 p-3 md:p-6 lg:p-10 2xl:p-12 items-start min-w-0">
                         <div className="max-w-8xl mx-auto w-full pb-20">
 
                         {/* Warning Banner */}
@@ -412,6 +834,26 @@ const App: React.FC = () => {
                             )}
                         </AnimatePresence>
 
+                        {/* Starred Collection Header */}
+                        {viewMode === 'stars' && (
+                            <div className="mb-12 border-b border-zinc-200 dark:border-white/5 pb-12 animate-in fade-in slide-in-from-bottom-4 duration-700">
+                                <div className="flex items-center gap-2 text-[12px] uppercase tracking-[0.2em] text-zinc-400 dark:text-zinc-500 mb-8 font-medium">
+                                  <button onClick={handleBackToSearch} className="hover:text-zinc-800 dark:hover:text-zinc-200 transition-colors">Global Index</button>
+                                  <span>/</span>
+                                  <span className="text-zinc-800 dark:text-zinc-200">My Stars</span>
+                                </div>
+                                <h1 className="text-4xl md:text-6xl font-display font-medium text-zinc-900 dark:text-white tracking-tight mb-4">My Stars</h1>
+                                <p className="text-xs font-mono text-zinc-500 flex items-center gap-2">
+                                    {stars.status === 'loading' && <Loader2 className="w-3 h-3 animate-spin" />}
+                                    {stars.status === 'loading'
+                                        ? `${stars.repos.length.toLocaleString()} starred so far`
+                                        : starredMatches.length === stars.repos.length
+                                            ? `${stars.repos.length.toLocaleString()} starred repositories`
+                                            : `${starredMatches.length.toLocaleString()} of ${stars.repos.length.toLocaleString()} starred repositories match`}
+                                </p>
+                            </div>
+                        )}
+
                         {/* User Profile Section */}
                         {viewMode === 'user' && selectedUser && (
                             <div className="mb-12 border-b border-zinc-200 dark:border-white/5 pb-12 relative overflow-hidden animate-in fade-in slide-in-from-bottom-4 duration-700">
@@ -514,7 +956,7 @@ const App: React.FC = () => {
                                                          <span className="text-[10px] uppercase tracking-wider text-zinc-500 font-medium text-center 2xl:text-left">Most Celebrated</span>
                                                          <div className="flex flex-wrap justify-center 2xl:justify-start gap-2">
                                                              {topRepos.map(repo => (
-                                                                 <button onClick={() => window.open(repo.html_url, '_blank')} key={repo.id} className="group flex items-center gap-2 px-3 py-1.5 rounded bg-zinc-100/50 dark:bg-white/5 border border-zinc-200 dark:border-white/5 hover:border-zinc-300 dark:hover:border-white/20 transition-all max-w-full">
+                                                                 <button onClick={() => handleRepoClick(repo)} key={repo.id} className="group flex items-center gap-2 px-3 py-1.5 rounded bg-zinc-100/50 dark:bg-white/5 border border-zinc-200 dark:border-white/5 hover:border-zinc-300 dark:hover:border-white/20 transition-all max-w-full">
                                                                     <Star className="w-3 h-3 text-amber-500/70 shrink-0" fill="currentColor" />
                                                                     <span className="text-xs font-medium text-zinc-700 dark:text-zinc-300 group-hover:text-zinc-900 dark:group-hover:text-white shrink-0">{formatNumber(repo.stargazers_count)}</span>
                                                                     <span className="text-xs text-zinc-500 dark:text-zinc-500 font-light truncate max-w-[120px]">{repo.name}</span>
@@ -553,6 +995,16 @@ const App: React.FC = () => {
                             </div>
                         )}
 
+                        {viewMode !== 'stars' && !loading && !error && repos.length > 0 && oldestFetch !== null && (
+                            <FreshnessIndicator fetchedAt={oldestFetch} refreshing={refreshingPages} />
+                        )}
+
+                        {visibleRepos.length < repos.length && (
+                            <p className="mb-6 text-xs font-mono text-zinc-500">
+                                {(repos.length - visibleRepos.length).toLocaleString()} of {repos.length.toLocaleString()} loaded repositories score below {filters.minHealth} and are hidden.
+                            </p>
+                        )}
+
                         {/* RENDER CONTENT BASED ON ACTIVE TAB */}
                         <AnimatePresence mode="wait">
                             <motion.div
@@ -563,12 +1015,14 @@ const App: React.FC = () => {
                                 animate="show"
                                 exit={{ opacity: 0 }}
                             >
-                                {repos.map((repo) => (
+                                {visibleRepos.map((repo) => (
                                     <RepoCard
                                         key={repo.id}
                                         repo={repo}
                                         onUserClick={handleUserClick}
                                         onLanguageClick={handleLanguageClick}
+                                        onRepoClick={handleRepoClick}
+                                        autoScoreHealth={healthActive}
                                     />
                                 ))}
                             </motion.div>
@@ -615,6 +1069,18 @@ const App: React.FC = () => {
            </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Rendered outside the animated content so its fixed overlay is not clipped by transforms */}
+      <AuthModal
+          isOpen={isAuthOpen}
+          onClose={handleAuthClose}
+          onLoginSuccess={setAuthUser}
+          notice={authNotice}
+      />
+      <CachePanel isOpen={isCacheOpen} onClose={() => setIsCacheOpen(false)} />
+      {(viewMode === 'search' || viewMode === 'user' || viewMode === 'stars' || viewMode === 'collections') && (
+          <CompareTray onCompare={handleCompare} />
+      )}
     </div>
   );
 };
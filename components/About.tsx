@@ -43,7 +43,7 @@ const About: React.FC<AboutProps> = ({ onReturn }) => {
               <h3 className="text-lg font-serif tracking-wide uppercase">Real Trending Data</h3>
             </div>
             <p className="text-zinc-500 dark:text-zinc-400 font-light leading-relaxed">
-              Unlike standard API consumers, OpenLens utilizes a specialized proxy to fetch the exact "Trending" feed from GitHub, ensuring a 1-to-1 match with the official website's daily trends.
+              Unlike standard API consumers, OpenLens utilizes a specialized proxy to fetch the exact "Trending" feed from GitHub, ensuring a 1-to-1 match with the official website's daily, weekly and monthly trends.
             </p>
           </div>
 
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Database, Trash2, Loader2 } from 'lucide-react';
+import { CacheCategory, CacheCategoryStats, clearCache, getCacheStats } from '../services/db';
+
+interface CachePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CATEGORIES: { id: CacheCategory; label: string }[] = [
+  { id: 'search', label: 'Search Results' },
+  { id: 'issues', label: 'Issues' },
+  { id: 'pulls', label: 'Pull Requests' },
+  { id: 'releases', label: 'Releases' },
+  { id: 'code', label: 'Source Code' },
+  { id: 'languages', label: 'Languages' },
+  { id: 'readme', label: 'READMEs' },
+  { id: 'stats', label: 'Repository Stats' },
+];
+
+const formatSize = (size: number) => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const CachePanel: React.FC<CachePanelProps> = ({ isOpen, onClose }) => {
+  const [stats, setStats] = useState<Partial<Record<CacheCategory, CacheCategoryStats>> | null>(null);
+  // Category being cleared, or 'all'
+  const [clearing, setClearing] = useState<CacheCategory | 'all' | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStats(null);
+    getCacheStats().then(setStats);
+  }, [isOpen]);
+
+  const handleClear = async (category?: CacheCategory) => {
+    setClearing(category || 'all');
+    try {
+      await clearCache(category);
+      setStats(await getCacheStats());
+    } finally {
+      setClearing(null);
+    }
+  };
+
+  const totals = CATEGORIES.reduce((sum, { id }) => ({
+    count: sum.count + (stats?.[id]?.count || 0),
+    size: sum.size + (stats?.[id]?.size || 0),
+  }), { count: 0, size: 0 });
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-zinc-900/40 backdrop-blur-sm z-[60]"
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed inset-0 m-auto w-full max-w-md h-fit p-6 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 shadow-2xl rounded-lg z-[70] overflow-hidden"
+          >
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+
+            <div className="flex flex-col items-center text-center mb-6">
+              <div className="w-12 h-12 bg-zinc-100 dark:bg-zinc-800 rounded-full flex items-center justify-center mb-4">
+                <Database className="w-6 h-6 text-zinc-600 dark:text-zinc-400" />
+              </div>
+              <h2 className="text-xl font-display font-medium text-zinc-900 dark:text-white">Offline Cache</h2>
+              <p className="text-sm text-zinc-500 dark:text-zinc-400 mt-2">
+                API responses kept in this browser. Expired entries are swept automatically and the least recently used go first when space runs short.
+              </p>
+            </div>
+
+            {!stats ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-5 h-5 animate-spin text-zinc-400" />
+              </div>
+            ) : (
+              <div className="divide-y divide-zinc-100 dark:divide-zinc-800 border-y border-zinc-100 dark:border-zinc-800">
+                {CATEGORIES.map(({ id, label }) => {
+                  const entry = stats[id];
+                  return (
+                    <div key={id} className="flex items-center justify-between gap-4 py-3">
+                      <div className="min-w-0">
+                        <div className="text-sm text-zinc-800 dark:text-zinc-200">{label}</div>
+                        <div className="text-xs font-mono text-zinc-500">
+                          {entry ? `${entry.count.toLocaleString()} entries · ${formatSize(entry.size)}` : 'Empty'}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleClear(id)}
+                        disabled={!entry || clearing !== null}
+                        className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-zinc-500 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                        aria-label={`Clear ${label}`}
+                      >
+                        {clearing === id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+                        Clear
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="mt-6 flex items-center justify-between gap-4">
+              <span className="text-xs font-mono text-zinc-500">
+                {stats ? `${totals.count.toLocaleString()} entries · ${formatSize(totals.size)}` : ''}
+              </span>
+              <button
+                onClick={() => handleClear()}
+                disabled={!stats || totals.count === 0 || clearing !== null}
+                className="flex items-center justify-center gap-2 bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 px-4 py-2 rounded-md text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {clearing === 'all' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                Clear All
+              </button>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CachePanel;
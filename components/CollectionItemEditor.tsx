@@ -0,0 +1,89 @@
+
+import React, { useEffect, useState } from 'react';
+import { Tag, Trash2 } from 'lucide-react';
+import { CollectionItem } from '../types';
+import { parseTags, removeFromCollection, updateCollectionItem } from '../services/collections';
+
+interface CollectionItemEditorProps {
+  collectionId: string;
+  item: CollectionItem;
+  onTagClick: (tag: string) => void;
+}
+
+const CollectionItemEditor: React.FC<CollectionItemEditorProps> = ({ collectionId, item, onTagClick }) => {
+  const [note, setNote] = useState(item.note);
+  const [tagInput, setTagInput] = useState('');
+
+  // Imports and other tabs can change the stored note underneath
+  useEffect(() => {
+    setNote(item.note);
+  }, [item.note]);
+
+  const saveNote = () => {
+    if (note !== item.note) updateCollectionItem(collectionId, item.repo.id, { note });
+  };
+
+  const addTags = () => {
+    const tags = parseTags(tagInput).filter(tag => !item.tags.includes(tag));
+    setTagInput('');
+    if (tags.length > 0) updateCollectionItem(collectionId, item.repo.id, { tags: [...item.tags, ...tags] });
+  };
+
+  const removeTag = (tag: string) => {
+    updateCollectionItem(collectionId, item.repo.id, { tags: item.tags.filter(entry => entry !== tag) });
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      addTags();
+    }
+  };
+
+  return (
+    <div className="p-4 md:px-8 border border-t-0 border-zinc-200 dark:border-white/5 bg-zinc-50/80 dark:bg-zinc-900/30 rounded-b-sm space-y-3">
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onBlur={saveNote}
+        rows={2}
+        placeholder="Add a note…"
+        className="w-full resize-y bg-transparent border-b border-zinc-200 dark:border-zinc-800 text-sm text-zinc-700 dark:text-zinc-300 py-1 focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-600 placeholder:text-zinc-400 dark:placeholder:text-zinc-600"
+        aria-label={`Note for ${item.repo.full_name}`}
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Tag className="w-3 h-3 text-zinc-400" aria-hidden="true" />
+        {item.tags.map(tag => (
+          <span key={tag} className="group/tag flex items-center gap-1 px-2 py-0.5 text-[10px] uppercase tracking-wide text-zinc-600 dark:text-zinc-400 bg-zinc-200/60 dark:bg-white/5 rounded-sm">
+            <button onClick={() => onTagClick(tag)} className="hover:text-zinc-900 dark:hover:text-zinc-100" title={`Show items tagged ${tag}`}>
+              {tag}
+            </button>
+            <button onClick={() => removeTag(tag)} className="opacity-40 group-hover/tag:opacity-100 hover:text-red-500" aria-label={`Remove tag ${tag}`}>
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={handleTagKeyDown}
+          onBlur={addTags}
+          placeholder="tag, another"
+          className="flex-1 min-w-[6rem] bg-transparent text-[11px] font-mono text-zinc-600 dark:text-zinc-400 focus:outline-none placeholder:text-zinc-400 dark:placeholder:text-zinc-600"
+          aria-label={`Add tags to ${item.repo.full_name}`}
+        />
+        <button
+          onClick={() => removeFromCollection(collectionId, item.repo.id)}
+          className="ml-auto flex items-center gap-1 text-[10px] uppercase tracking-wider text-zinc-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+          title="Remove from collection"
+        >
+          <Trash2 className="w-3 h-3" /> Remove
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CollectionItemEditor;
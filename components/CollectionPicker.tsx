@@ -0,0 +1,135 @@
+
+import React, { useState, useSyncExternalStore } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Bookmark, Check, Plus } from 'lucide-react';
+import { GitHubRepo } from '../types';
+import { addToCollection, createCollection, getCollectionsState, removeFromCollection, subscribeCollections } from '../services/collections';
+
+interface CollectionPickerProps {
+  repo: GitHubRepo;
+}
+
+const PANEL_HEIGHT = 320;
+
+const CollectionPicker: React.FC<CollectionPickerProps> = ({ repo }) => {
+  const { collections } = useSyncExternalStore(subscribeCollections, getCollectionsState);
+  const [position, setPosition] = useState<React.CSSProperties | null>(null);
+  const [newName, setNewName] = useState('');
+
+  const saved = collections.some(collection => collection.items.some(item => item.repo.id === repo.id));
+
+  // Cards clip their overflow and move on hover, so the panel is portalled and placed by hand
+  const handleOpen = (e: React.MouseEvent<HTMLButtonElement>) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const right = Math.max(window.innerWidth - rect.right, 8);
+    setPosition(rect.bottom + PANEL_HEIGHT + 8 > window.innerHeight
+      ? { right, bottom: window.innerHeight - rect.top + 8 }
+      : { right, top: rect.bottom + 8 });
+  };
+
+  const handleClose = () => {
+    setPosition(null);
+    setNewName('');
+  };
+
+  const toggleCollection = (id: string, contains: boolean) => {
+    if (contains) {
+      removeFromCollection(id, repo.id);
+    } else {
+      addToCollection(id, repo);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    await createCollection(newName, repo);
+    setNewName('');
+  };
+
+  return (
+    <>
+      <motion.button
+        whileTap={{ scale: 0.95 }}
+        onClick={handleOpen}
+        className="flex items-center gap-1.5 hover:text-zinc-900 dark:hover:text-zinc-200 transition-colors relative focus:outline-none rounded-sm py-1 px-1.5 hover:bg-zinc-100 dark:hover:bg-white/5"
+        title="Save to a collection"
+        aria-label={`Save ${repo.full_name} to a collection`}
+        aria-expanded={!!position}
+      >
+        <Bookmark className={`w-3.5 h-3.5 ${saved ? 'fill-current' : ''}`} aria-hidden="true" />
+        <span className="hidden sm:inline">{saved ? 'Saved' : 'Save'}</span>
+      </motion.button>
+
+      {createPortal(
+        <AnimatePresence>
+          {position && (
+            <>
+              <div className="fixed inset-0 z-40" onClick={handleClose}></div>
+              <motion.div
+                initial={{ opacity: 0, y: 5 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: 5 }}
+                style={position}
+                className="fixed w-64 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-lg shadow-xl z-50 overflow-hidden normal-case tracking-normal font-normal"
+              >
+                <div className="px-4 py-3 border-b border-zinc-100 dark:border-zinc-800 text-[10px] uppercase tracking-[0.2em] text-zinc-400 font-medium">
+                  Save to Collection
+                </div>
+
+                <div className="max-h-48 overflow-y-auto p-2">
+                  {collections.length === 0 && (
+                    <p className="px-2 py-3 text-xs text-zinc-500">No collections yet. Name one below to start.</p>
+                  )}
+                  {collections.map(collection => {
+                    const contains = collection.items.some(item => item.repo.id === repo.id);
+                    return (
+                      <button
+                        key={collection.id}
+                        onClick={() => toggleCollection(collection.id, contains)}
+                        className="w-full flex items-center justify-between gap-2 px-2 py-2 text-sm text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 rounded-md text-left"
+                      >
+                        <span className="truncate">{collection.name}</span>
+                        <span className="flex items-center gap-2 shrink-0">
+                          <span className="text-[10px] font-mono text-zinc-400">{collection.items.length}</span>
+                          <span className={`w-4 h-4 rounded-sm border flex items-center justify-center ${contains ? 'bg-zinc-900 dark:bg-white border-zinc-900 dark:border-white' : 'border-zinc-300 dark:border-zinc-600'}`}>
+                            {contains && <Check className="w-3 h-3 text-white dark:text-zinc-900" />}
+                          </span>
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+
+                <form onSubmit={handleCreate} className="flex items-center gap-2 p-2 border-t border-zinc-100 dark:border-zinc-800">
+                  <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder="New collection"
+                    className="flex-1 min-w-0 bg-zinc-50 dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-md py-1.5 px-2 text-xs text-zinc-900 dark:text-zinc-100 focus:outline-none focus:border-zinc-400 dark:focus:border-zinc-600"
+                    aria-label="New collection name"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!newName.trim()}
+                    className="p-1.5 rounded-md bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 disabled:opacity-40"
+                    aria-label="Create collection"
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                  </button>
+                </form>
+              </motion.div>
+            </>
+          )}
+        </AnimatePresence>,
+        document.body
+      )}
+    </>
+  );
+};
+
+export default CollectionPicker;
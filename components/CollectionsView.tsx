@@ -0,0 +1,283 @@
+
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { AlertTriangle, Bookmark, Check, Download, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+import { GitHubRepo } from '../types';
+import {
+  createCollection,
+  deleteCollection,
+  exportCollections,
+  getCollectionsState,
+  importCollections,
+  renameCollection,
+  subscribeCollections,
+} from '../services/collections';
+import RepoCard from './RepoCard';
+import CollectionItemEditor from './CollectionItemEditor';
+
+interface CollectionsViewProps {
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onUserClick: (username: string) => void;
+  onRepoClick: (repo: GitHubRepo) => void;
+}
+
+const downloadJson = (json: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const toFileName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'collection';
+
+const CollectionsView: React.FC<CollectionsViewProps> = ({ selectedId, onSelect, onUserClick, onRepoClick }) => {
+  const { status, collections, error } = useSyncExternalStore(subscribeCollections, getCollectionsState);
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<{ text: string; failed: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Without a (valid) selection, show the most recently updated collection
+  const selected = collections.find(collection => collection.id === selectedId) || collections[0] || null;
+
+  useEffect(() => {
+    setActiveTag(null);
+    setConfirmDelete(false);
+    setRenaming(null);
+  }, [selected?.id]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const collection = await createCollection(newName);
+    setNewName('');
+    onSelect(collection.id);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selected && renaming && renaming.trim()) renameCollection(selected.id, renaming);
+    setRenaming(null);
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+    await deleteCollection(selected.id);
+    onSelect(null);
+  };
+
+  const handleExport = (ids?: string[], name = 'collections') => {
+    downloadJson(exportCollections(ids), `openlens-${toFileName(name)}.json`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    try {
+      const count = await importCollections(await file.text());
+      setImportMessage({
+        text: count > 0 ? `Imported ${count} collection${count === 1 ? '' : 's'}.` : 'Everything in that file is already here.',
+        failed: false,
+      });
+    } catch (err: any) {
+      setImportMessage({ text: err.message || 'Import failed.', failed: true });
+    }
+  };
+
+  const tags = selected ? Array.from(new Set(selected.items.flatMap(item => item.tags))).sort() : [];
+  const items = selected ? selected.items.filter(item => !activeTag || item.tags.includes(activeTag)) : [];
+
+  return (
+    <>
+      <aside className="w-full md:w-64 lg:w-72 xl:w-80 md:shrink-0 h-auto md:h-full px-4 md:px-8 py-4 md:py-8 border-b md:border-b-0 md:border-r border-zinc-200 dark:border-white/5 bg-zinc-50/80 dark:bg-zinc-950/50 backdrop-blur-sm z-20 overflow-y-auto no-scrollbar flex flex-col gap-8">
+        <form onSubmit={handleCreate} className="relative mt-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New collection"
+            className="w-full bg-transparent border-b border-zinc-300 dark:border-zinc-800 text-zinc-900 dark:text-zinc-200 py-3 pl-0 pr-8 text-2xl font-display italic focus:outline-none focus:border-zinc-500 transition-all placeholder:text-zinc-400 dark:placeholder:text-zinc-700"
+            aria-label="New collection name"
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim()}
+            className="absolute right-0 top-4 text-zinc-400 dark:text-zinc-600 hover:text-zinc-900 dark:hover:text-zinc-300 transition-colors disabled:opacity-40"
+            aria-label="Create collection"
+          >
+            <Plus className="w-5 h-5" />
+          </button>
+        </form>
+
+        <div className="flex flex-col gap-1">
+          {collections.map(collection => (
+            <button
+              key={collection.id}
+              onClick={() => onSelect(collection.id)}
+              className={`flex items-center justify-between gap-2 px-3 md:px-4 py-3 text-[11px] uppercase tracking-normal font-medium border rounded-sm transition-all text-left ${
+                collection.id === selected?.id
+                  ? 'bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 border-transparent shadow-md'
+                  : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-white/5 border-zinc-200 dark:border-white/5'
+              }`}
+            >
+              <span className="truncate">{collection.name}</span>
+              <span className="font-mono opacity-60 shrink-0">{collection.items.length}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center justify-center gap-2 py-2.5 text-[10px] md:text-[11px] uppercase tracking-widest border rounded-sm text-zinc-500 dark:text-zinc-400 border-zinc-200 dark:border-white/5 hover:border-zinc-300 dark:hover:border-white/10 hover:text-zinc-900 dark:hover:text-zinc-200 transition-all"
+            >
+              <Upload className="w-3 h-3" /> Import
+            </button>
+            <button
+              onClick={() => handleExport()}
+              disabled={collections.length === 0}
+              className="flex items-center justify-center gap-2 py-2.5 text-[10px] md:text-[11px] uppercase tracking-widest border rounded-sm text-zinc-500 dark:text-zinc-400 border-zinc-200 dark:border-white/5 hover:border-zinc-300 dark:hover:border-white/10 hover:text-zinc-900 dark:hover:text-zinc-200 transition-all disabled:opacity-40 disabled:pointer-events-none"
+            >
+              <Download className="w-3 h-3" /> Export All
+            </button>
+          </div>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          {importMessage && (
+            <p className={`flex items-start gap-2 text-xs ${importMessage.failed ? 'text-red-500' : 'text-zinc-500'}`}>
+              <span className="flex-1">{importMessage.text}</span>
+              <button onClick={() => setImportMessage(null)} aria-label="Dismiss"><X className="w-3 h-3" /></button>
+            </p>
+          )}
+        </div>
+      </aside>
+
+      <section className="flex-1 overflow-y-auto min-h-0 p-3 md:p-6 lg:p-10 2xl:p-12 items-start min-w-0">
+        <div className="max-w-8xl mx-auto w-full pb-20">
+          {error && (
+            <div className="flex items-center gap-3 p-4 mb-8 rounded bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-900/30 text-amber-800 dark:text-amber-200">
+              <AlertTriangle className="w-5 h-5 shrink-0" />
+              <span className="text-sm font-medium">{error}</span>
+            </div>
+          )}
+
+          {status === 'ready' && collections.length === 0 && (
+            <div className="w-full h-[60vh] flex flex-col items-center justify-center text-center opacity-50 animate-in fade-in zoom-in-95 duration-700">
+              <div className="w-20 h-20 border border-zinc-300 dark:border-zinc-800 rounded-full flex items-center justify-center mb-6 bg-zinc-50 dark:bg-zinc-900/50">
+                <Bookmark className="w-8 h-8 text-zinc-400 dark:text-zinc-600" />
+              </div>
+              <p className="text-4xl font-display text-zinc-800 dark:text-zinc-200 mb-4 italic">No Collections Yet</p>
+              <p className="text-zinc-500 dark:text-zinc-500 text-xs font-mono tracking-[0.2em] uppercase">Save repositories from any card to start one</p>
+            </div>
+          )}
+
+          {selected && (
+            <>
+              <div className="mb-12 border-b border-zinc-200 dark:border-white/5 pb-12 animate-in fade-in slide-in-from-bottom-4 duration-700">
+                <div className="text-[12px] uppercase tracking-[0.2em] text-zinc-400 dark:text-zinc-500 mb-8 font-medium">Collections</div>
+                {renaming !== null ? (
+                  <form onSubmit={handleRename} className="flex items-center gap-3 mb-4">
+                    <input
+                      type="text"
+                      value={renaming}
+                      onChange={(e) => setRenaming(e.target.value)}
+                      onBlur={handleRename}
+                      autoFocus
+                      className="flex-1 min-w-0 bg-transparent border-b border-zinc-300 dark:border-zinc-700 text-4xl md:text-6xl font-display font-medium text-zinc-900 dark:text-white tracking-tight focus:outline-none"
+                      aria-label="Collection name"
+                    />
+                    <button type="submit" className="text-zinc-400 hover:text-zinc-900 dark:hover:text-white" aria-label="Save name">
+                      <Check className="w-6 h-6" />
+                    </button>
+                  </form>
+                ) : (
+                  <h1 className="group/title flex items-center gap-4 text-4xl md:text-6xl font-display font-medium text-zinc-900 dark:text-white tracking-tight mb-4 break-words">
+                    {selected.name}
+                    <button
+                      onClick={() => setRenaming(selected.name)}
+                      className="opacity-0 group-hover/title:opacity-100 text-zinc-400 hover:text-zinc-900 dark:hover:text-white transition-opacity"
+                      aria-label="Rename collection"
+                    >
+                      <Pencil className="w-5 h-5" />
+                    </button>
+                  </h1>
+                )}
+
+                <div className="flex flex-wrap items-center gap-4 text-xs font-mono text-zinc-500">
+                  <span>{selected.items.length.toLocaleString()} repositories</span>
+                  <span className="opacity-40">·</span>
+                  <span>Updated {new Date(selected.updatedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                  <div className="flex items-center gap-2 ml-auto">
+                    <button
+                      onClick={() => handleExport([selected.id], selected.name)}
+                      className="flex items-center gap-1.5 px-3 py-1.5 uppercase tracking-wider text-[10px] border border-zinc-200 dark:border-white/10 rounded-sm hover:text-zinc-900 dark:hover:text-white hover:border-zinc-300 dark:hover:border-white/20 transition-colors"
+                    >
+                      <Download className="w-3 h-3" /> Export
+                    </button>
+                    <button
+                      onClick={handleDelete}
+                      onBlur={() => setConfirmDelete(false)}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 uppercase tracking-wider text-[10px] border rounded-sm transition-colors ${
+                        confirmDelete
+                          ? 'border-red-500/50 bg-red-500/10 text-red-600 dark:text-red-400'
+                          : 'border-zinc-200 dark:border-white/10 hover:text-red-600 dark:hover:text-red-400 hover:border-red-500/30'
+                      }`}
+                    >
+                      <Trash2 className="w-3 h-3" /> {confirmDelete ? 'Confirm Delete' : 'Delete'}
+                    </button>
+                  </div>
+                </div>
+
+                {tags.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mt-6">
+                    {tags.map(tag => (
+                      <button
+                        key={tag}
+                        onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                        className={`px-2.5 py-1 text-[10px] uppercase tracking-wide rounded-sm border transition-colors ${
+                          activeTag === tag
+                            ? 'bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900 border-transparent'
+                            : 'text-zinc-500 border-zinc-200 dark:border-white/10 hover:text-zinc-900 dark:hover:text-zinc-200'
+                        }`}
+                      >
+                        #{tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {selected.items.length === 0 && (
+                <p className="text-center text-zinc-500 text-xs font-mono tracking-[0.2em] uppercase py-20">
+                  Empty. Use "Save" on a repository card to add it here.
+                </p>
+              )}
+
+              <div className="grid grid-cols-1 2xl:grid-cols-2 gap-4 md:gap-6 lg:gap-8">
+                {items.map(item => (
+                  <div key={item.repo.id} className="flex flex-col min-w-0">
+                    <RepoCard repo={item.repo} onUserClick={onUserClick} onRepoClick={onRepoClick} />
+                    <CollectionItemEditor collectionId={selected.id} item={item} onTagClick={setActiveTag} />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </section>
+    </>
+  );
+};
+
+export default CollectionsView;
@@ -0,0 +1,44 @@
+import React, { useSyncExternalStore } from 'react';
+import { GitCompare } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { GitHubRepo } from '../types';
+import { getCompareSelection, MAX_COMPARE, subscribeCompare, toggleCompare } from '../services/compare';
+
+interface CompareToggleProps {
+  repo: GitHubRepo;
+}
+
+const CompareToggle: React.FC<CompareToggleProps> = ({ repo }) => {
+  const selection = useSyncExternalStore(subscribeCompare, getCompareSelection);
+  const selected = selection.some(entry => entry.id === repo.id);
+  const full = !selected && selection.length >= MAX_COMPARE;
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    toggleCompare(repo);
+  };
+
+  const title = full
+    ? `Up to ${MAX_COMPARE} repositories can be compared`
+    : selected ? `Remove ${repo.full_name} from the comparison` : `Compare ${repo.full_name}`;
+
+  return (
+    <motion.button
+      whileTap={{ scale: 0.95 }}
+      onClick={handleClick}
+      disabled={full}
+      className={`flex items-center gap-1.5 transition-colors relative focus:outline-none rounded-sm py-1 px-1.5 hover:bg-zinc-100 dark:hover:bg-white/5 disabled:opacity-40 disabled:pointer-events-none ${
+        selected ? 'text-zinc-900 dark:text-zinc-100 bg-zinc-100 dark:bg-white/10' : 'hover:text-zinc-900 dark:hover:text-zinc-200'
+      }`}
+      title={title}
+      aria-label={title}
+      aria-pressed={selected}
+    >
+      <GitCompare className="w-3.5 h-3.5" aria-hidden="true" />
+      <span className="hidden xl:inline">Compare</span>
+    </motion.button>
+  );
+};
+
+export default CompareToggle;
@@ -0,0 +1,60 @@
+import React, { useSyncExternalStore } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowRight, GitCompare, X } from 'lucide-react';
+import { GitHubRepo } from '../types';
+import { clearCompare, getCompareSelection, MAX_COMPARE, MIN_COMPARE, subscribeCompare, toggleCompare } from '../services/compare';
+
+interface CompareTrayProps {
+  onCompare: (repos: GitHubRepo[]) => void;
+}
+
+const CompareTray: React.FC<CompareTrayProps> = ({ onCompare }) => {
+  const selection = useSyncExternalStore(subscribeCompare, getCompareSelection);
+  const ready = selection.length >= MIN_COMPARE;
+
+  return (
+    <AnimatePresence>
+      {selection.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 40 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 40 }}
+          transition={{ duration: 0.3, ease: [0.19, 1, 0.22, 1] }}
+          className="fixed bottom-4 md:bottom-8 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-3xl flex flex-wrap items-center gap-3 p-3 md:px-5 bg-white/90 dark:bg-zinc-900/90 backdrop-blur-xl border border-zinc-200 dark:border-white/10 rounded-lg shadow-2xl"
+          role="region"
+          aria-label="Comparison selection"
+        >
+          <GitCompare className="w-4 h-4 text-zinc-400 shrink-0" aria-hidden="true" />
+          <div className="flex flex-wrap items-center gap-2 flex-1 min-w-0">
+            {selection.map(repo => (
+              <span key={repo.id} className="flex items-center gap-1.5 max-w-[12rem] pl-1 pr-2 py-1 text-xs font-mono text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-white/5 rounded-sm">
+                <img src={repo.owner.avatar_url} alt="" className="w-4 h-4 rounded-sm" />
+                <span className="truncate">{repo.name}</span>
+                <button onClick={() => toggleCompare(repo)} className="text-zinc-400 hover:text-zinc-900 dark:hover:text-white" aria-label={`Remove ${repo.full_name}`}>
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            <span className="text-[10px] font-mono text-zinc-400">{selection.length}/{MAX_COMPARE}</span>
+          </div>
+          <button
+            onClick={clearCompare}
+            className="text-[10px] uppercase tracking-widest text-zinc-500 hover:text-zinc-900 dark:hover:text-white transition-colors"
+          >
+            Clear
+          </button>
+          <button
+            onClick={() => onCompare(selection)}
+            disabled={!ready}
+            className="flex items-center gap-2 px-4 py-2 text-[11px] uppercase tracking-[0.15em] font-medium rounded-sm bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 disabled:opacity-40 transition-opacity"
+            title={ready ? undefined : `Pick at least ${MIN_COMPARE} repositories`}
+          >
+            Compare <ArrowRight className="w-3.5 h-3.5" />
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CompareTray;
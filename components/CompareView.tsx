@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, ArrowLeft, Check, ExternalLink, Link as LinkIcon, Loader2, Trophy, X } from 'lucide-react';
+import { GitHubRepo, RepoComparisonStats } from '../types';
+import { getComparisonStats, getRepoLanguages, getRepository } from '../services/githubService';
+import { getCompareSelection, getWinners, MIN_COMPARE } from '../services/compare';
+import { RepoRef } from '../services/router';
+import { LANGUAGES_COLORS } from '../constants';
+
+interface CompareViewProps {
+  repos: RepoRef[];
+  onRemove: (repo: RepoRef) => void;
+  onRepoClick: (repo: GitHubRepo) => void;
+  onReturn: () => void;
+}
+
+interface Column {
+  repo: GitHubRepo | null;
+  failed: boolean;
+  languages: Record<string, number> | null;
+  stats: RepoComparisonStats | null;
+}
+
+interface MetricRow {
+  label: string;
+  better?: 'higher' | 'lower'; // Rows without a direction have no winner
+  value: (column: Column) => number | null;
+  render: (column: Column) => React.ReactNode;
+}
+
+const DAY = 1000 * 60 * 60 * 24;
+
+const refKey = (ref: RepoRef) => `${ref.owner}/${ref.name}`.toLowerCase();
+
+const formatAge = (date: string | null) => {
+  if (!date) return '—';
+  const days = Math.floor((Date.now() - new Date(date).getTime()) / DAY);
+  if (days < 1) return 'Today';
+  if (days < 30) return `${days}d ago`;
+  if (days < 365) return `${Math.floor(days / 30)}mo ago`;
+  return `${(days / 365).toFixed(1)}y ago`;
+};
+
+const formatCadence = (days: number | null) => {
+  if (days === null) return null;
+  if (days < 1) return 'Several a day';
+  if (days < 14) return `Every ~${Math.round(days)} days`;
+  if (days < 60) return `Every ~${Math.round(days / 7)} weeks`;
+  return `Every ~${Math.round(days / 30)} months`;
+};
+
+const ROWS: MetricRow[] = [
+  {
+    label: 'Stars',
+    better: 'higher',
+    value: ({ repo }) => repo?.stargazers_count ?? null,
+    render: ({ repo }) => repo?.stargazers_count.toLocaleString(),
+  },
+  {
+    label: 'Forks',
+    better: 'higher',
+    value: ({ repo }) => repo?.forks_count ?? null,
+    render: ({ repo }) => repo?.forks_count.toLocaleString(),
+  },
+  {
+    label: 'Open Issues & PRs',
+    better: 'lower',
+    value: ({ repo }) => repo?.open_issues_count ?? null,
+    render: ({ repo }) => repo?.open_issues_count.toLocaleString(),
+  },
+  {
+    label: 'License',
+    value: () => null,
+    render: ({ repo }) => repo?.license?.name || 'None',
+  },
+  {
+    label: 'Last Push',
+    better: 'higher',
+    value: ({ repo }) => repo?.pushed_at ? new Date(repo.pushed_at).getTime() : null,
+    render: ({ repo }) => repo ? formatAge(repo.pushed_at) : null,
+  },
+  {
+    label: 'Contributors',
+    better: 'higher',
+    value: ({ stats }) => stats?.contributors ?? null,
+    render: ({ stats }) => stats ? (stats.contributors !== null ? stats.contributors.toLocaleString() : 'Too many to count') : null,
+  },
+  {
+    label: 'Release Cadence',
+    better: 'lower',
+    value: ({ stats }) => stats?.releases.averageDays ?? null,
+    render: ({ stats }) => {
+      if (!stats) return null;
+      const { count, latest, averageDays } = stats.releases;
+      if (count === 0) return 'No releases';
+      return (
+        <span className="flex flex-col">
+          <span>{formatCadence(averageDays) || 'Single release'}</span>
+          <span className="text-[11px] text-zinc-400">Latest {formatAge(latest)} · {count} sampled</span>
+        </span>
+      );
+    },
+  },
+];
+
+const LanguageBreakdown: React.FC<{ languages: Record<string, number> }> = ({ languages }) => {
+  const entries = (Object.entries(languages) as [string, number][]).sort(([, a], [, b]) => b - a);
+  const total = entries.reduce((sum, [, bytes]) => sum + bytes, 0);
+  if (total === 0) return <span className="text-zinc-400">Unknown</span>;
+
+  const percent = (bytes: number) => `${((bytes / total) * 100).toFixed(1)}%`;
+  return (
+    <div className="w-full">
+      <div className="w-full h-2 rounded-full overflow-hidden flex bg-zinc-100 dark:bg-white/5">
+        {entries.map(([lang, bytes]) => (
+          <div key={lang} className="h-full" style={{ width: percent(bytes), backgroundColor: LANGUAGES_COLORS[lang] || '#94a3b8' }} title={`${lang}: ${percent(bytes)}`} />
+        ))}
+      </div>
+      <div className="flex flex-col gap-1 mt-3">
+        {entries.slice(0, 4).map(([lang, bytes]) => (
+          <div key={lang} className="flex items-center gap-2 text-xs">
+            <div className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: LANGUAGES_COLORS[lang] || '#94a3b8' }}></div>
+            <span className="text-zinc-700 dark:text-zinc-300 truncate">{lang}</span>
+            <span className="text-zinc-400 ml-auto">{percent(bytes)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ repos, onRemove, onRepoClick, onReturn }) => {
+  const [columns, setColumns] = useState<Record<string, Column>>({});
+  const [copied, setCopied] = useState(false);
+
+  // Load every column independently so fast repositories fill in while slow ones are pending
+  useEffect(() => {
+    let cancelled = false;
+    const update = (key: string, patch: Partial<Column>) => {
+      if (cancelled) return;
+      setColumns(prev => ({ ...prev, [key]: { ...(prev[key] || { repo: null, failed: false, languages: null, stats: null }), ...patch } }));
+    };
+
+    repos.forEach(async ref => {
+      const key = refKey(ref);
+      if (columns[key]?.repo && columns[key].stats) return;
+
+      // Repositories picked from the grid are already loaded; shared links fetch them
+      const picked = getCompareSelection().find(repo => repo.full_name.toLowerCase() === key);
+      const repo = picked || await getRepository(ref.owner, ref.name);
+      if (!repo) {
+        update(key, { failed: true });
+        return;
+      }
+      update(key, { repo, failed: false });
+
+      const [languages, stats] = await Promise.all([
+        getRepoLanguages(repo.owner.login, repo.name),
+        getComparisonStats(repo.owner.login, repo.name),
+      ]);
+      update(key, { languages, stats });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [repos.map(refKey).join(',')]);
+
+  const ordered: Column[] = repos.map(ref => columns[refKey(ref)] || { repo: null, failed: false, languages: null, stats: null });
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const gridStyle = { gridTemplateColumns: `minmax(9rem, 12rem) repeat(${Math.max(repos.length, 1)}, minmax(12rem, 1fr))` };
+
+  return (
+    <section className="flex-1 overflow-y-auto min-h-0 min-w-0">
+      <div className="w-full pt-8 pb-20 px-4 md:px-12">
+        <div className="max-w-7xl w-full mx-auto animate-in fade-in slide-in-from-bottom-4 duration-500">
+          <div className="flex items-center justify-between gap-4 mb-8">
+            <button
+              onClick={onReturn}
+              className="group flex items-center gap-3 text-zinc-500 hover:text-zinc-900 dark:hover:text-white transition-all duration-300"
+            >
+              <div className="p-2 rounded-full border border-transparent group-hover:border-zinc-300 dark:group-hover:border-white/10 group-hover:bg-zinc-200 dark:group-hover:bg-white/5 transition-all">
+                <ArrowLeft className="w-4 h-4 group-hover:-translate-x-0.5 transition-transform" />
+              </div>
+              <span className="text-[11px] uppercase tracking-[0.2em] font-medium">Back to Index</span>
+            </button>
+
+            <button
+              onClick={handleCopyLink}
+              className="flex items-center gap-2 px-3 py-2 text-[11px] uppercase tracking-[0.2em] font-medium border border-zinc-200 dark:border-white/10 rounded-sm text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:border-zinc-300 dark:hover:border-white/20 transition-colors"
+            >
+              {copied ? <Check className="w-3.5 h-3.5 text-emerald-500" /> : <LinkIcon className="w-3.5 h-3.5" />}
+              {copied ? 'Copied' : 'Share'}
+            </button>
+          </div>
+
+          <h1 className="text-3xl md:text-5xl font-display font-medium text-zinc-900 dark:text-white mb-12">Comparison</h1>
+
+          {repos.length < MIN_COMPARE && (
+            <div className="flex items-center gap-3 p-4 mb-8 rounded bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-900/30 text-amber-800 dark:text-amber-200">
+              <AlertTriangle className="w-5 h-5 shrink-0" />
+              <span className="text-sm font-medium">Pick at least {MIN_COMPARE} repositories from the grid to compare them.</span>
+            </div>
+          )}
+
+          <div className="overflow-x-auto no-scrollbar">
+            <div className="grid min-w-max md:min-w-0 text-sm" style={gridStyle} role="table" aria-label="Repository comparison">
+              {/* Column headers */}
+              <div role="columnheader" className="sticky left-0 bg-zinc-50 dark:bg-zinc-950"></div>
+              {repos.map((ref, index) => {
+                const { repo, failed } = ordered[index];
+                return (
+                  <div key={refKey(ref)} role="columnheader" className="relative p-4 border-b border-zinc-200 dark:border-white/10">
+                    <button
+                      onClick={() => onRemove(ref)}
+                      className="absolute top-3 right-3 text-zinc-400 hover:text-zinc-900 dark:hover:text-white"
+                      aria-label={`Remove ${ref.owner}/${ref.name} from the comparison`}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                    {repo ? (
+                      <>
+                        <button onClick={() => onRepoClick(repo)} className="flex items-center gap-2 pr-6 text-left group/name">
+                          <img src={repo.owner.avatar_url} alt="" className="w-6 h-6 rounded-sm" />
+                          <span className="font-display text-lg text-zinc-900 dark:text-white group-hover/name:underline truncate">{repo.name}</span>
+                        </button>
+                        <a href={repo.html_url} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 mt-1 text-[11px] font-mono text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-200">
+                          {repo.owner.login} <ExternalLink className="w-3 h-3" />
+                        </a>
+                      </>
+                    ) : failed ? (
+                      <span className="text-red-500 text-xs font-mono pr-6">{ref.owner}/{ref.name} not found</span>
+                    ) : (
+                      <Loader2 className="w-4 h-4 text-zinc-400 animate-spin" />
+                    )}
+                  </div>
+                );
+              })}
+
+              {ROWS.map(row => {
+                const winners = row.better ? getWinners(ordered.map(row.value), row.better) : new Set<number>();
+                return (
+                  <React.Fragment key={row.label}>
+                    <div role="rowheader" className="sticky left-0 bg-zinc-50 dark:bg-zinc-950 p-4 text-[11px] uppercase tracking-[0.15em] text-zinc-500 font-medium border-b border-zinc-200/60 dark:border-white/5">
+                      {row.label}
+                    </div>
+                    {ordered.map((column, index) => (
+                      <div
+                        key={index}
+                        role="cell"
+                        className={`flex items-start gap-2 p-4 font-mono border-b border-zinc-200/60 dark:border-white/5 ${
+                          winners.has(index) ? 'bg-emerald-50 dark:bg-emerald-900/10 text-emerald-700 dark:text-emerald-300' : 'text-zinc-700 dark:text-zinc-300'
+                        }`}
+                      >
+                        {column.failed ? '—' : row.render(column) ?? <span className="w-16 h-4 rounded bg-zinc-200 dark:bg-white/5 animate-pulse" />}
+                        {winners.has(index) && <Trophy className="w-3.5 h-3.5 shrink-0 mt-0.5" aria-label="Best" />}
+                      </div>
+                    ))}
+                  </React.Fragment>
+                );
+              })}
+
+              <div role="rowheader" className="sticky left-0 bg-zinc-50 dark:bg-zinc-950 p-4 text-[11px] uppercase tracking-[0.15em] text-zinc-500 font-medium">
+                Languages
+              </div>
+              {ordered.map((column, index) => (
+                <div key={index} role="cell" className="p-4">
+                  {column.languages ? <LanguageBreakdown languages={column.languages} /> : !column.failed && <span className="block w-full h-2 rounded bg-zinc-200 dark:bg-white/5 animate-pulse" />}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default CompareView;
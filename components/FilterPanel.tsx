@@ -1,19 +1,43 @@
 
-import React, { useState, useEffect } from 'react';
-import { FilterState, OrderOption, SortOption } from '../types';
-import { ALL_LANGUAGES, MAX_STARS, SORT_OPTIONS } from '../constants';
-import { ChevronDown, X, Search, Check, ArrowUp, ArrowDown, Flame, Star, GitFork, Clock, History, Trash2, SlidersHorizontal } from 'lucide-react';
+import React, { useState, useEffect, useSyncExternalStore } from 'react';
+import { FilterState, LanguageMode, OrderOption, SavedSearch, SortOption, TrendingSince } from '../types';
+import { ALL_LANGUAGES, DEFAULT_FILTERS, DEFAULT_QUALIFIERS, MAX_STARS, SORT_OPTIONS } from '../constants';
+import { applySearchText, buildQualifiers } from '../services/query';
+import { getBulkHealthBlock } from '../services/health';
+import { getRateLimits, subscribeRateLimits } from '../services/rateLimit';
+import { markSavedSearchSeen } from '../services/savedSearches';
+import QualifierFields from './QualifierFields';
+import SavedSearches from './SavedSearches';
+import PinnedSearches from './PinnedSearches';
+import { ChevronDown, X, Search, Check, ArrowUp, ArrowDown, Flame, Star, GitFork, Clock, History, Trash2, SlidersHorizontal, Activity } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface FilterPanelProps {
   filters: FilterState;
   setFilters: React.Dispatch<React.SetStateAction<FilterState>>;
   isLoading: boolean;
+  placeholder?: string;
+  // Sorting, the health floor and search qualifiers only apply to repository grids
+  repoControls?: boolean;
 }
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ filters, setFilters, isLoading }) => {
+const LANGUAGE_MODES: { value: LanguageMode; label: string; title: string }[] = [
+  { value: 'and', label: 'Mentions all', title: 'Keyword match: repositories whose name, description or README mention every selected language' },
+  { value: 'or', label: 'Written in any', title: 'Repositories whose main language is one of those selected' },
+];
+
+const TRENDING_WINDOWS: { value: TrendingSince; label: string }[] = [
+  { value: 'daily', label: 'Today' },
+  { value: 'weekly', label: 'Week' },
+  { value: 'monthly', label: 'Month' },
+];
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ filters, setFilters, isLoading, placeholder = 'Search GitHub', repoControls = true }) => {
   const [langSearch, setLangSearch] = useState('');
   const [isMobileOpen, setIsMobileOpen] = useState(false);
+  // Re-rendered as the quota moves, so the health note can say when bulk scoring is held back
+  useSyncExternalStore(subscribeRateLimits, getRateLimits);
+  const healthBlock = getBulkHealthBlock();
   
   // Local state for debounced inputs
   const [localQuery, setLocalQuery] = useState(filters.query);
@@ -110,9 +134,14 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, setFilters, isLoadin
       localStorage.setItem('openlens_search_history', JSON.stringify(newHistory));
   };
 
+  // Qualifiers typed into the box move into their controls once the search is submitted
+  const submitQuery = (text: string) => {
+    setFilters(prev => repoControls ? applySearchText({ ...prev, query: '' }, text) : { ...prev, query: text });
+  };
+
   const triggerSearch = () => {
     saveToHistory(localQuery);
-    setFilters(prev => ({ ...prev, query: localQuery }));
+    submitQuery(localQuery);
     // On mobile, close panel after search trigger
     setIsMobileOpen(false);
   };
@@ -137,12 +166,19 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, setFilters, isLoadin
 
   const handleRecentClick = (q: string) => {
       setLocalQuery(q);
-      setFilters(prev => ({ ...prev, query: q }));
+      submitQuery(q);
       // Move to top of list
       saveToHistory(q);
       setIsMobileOpen(false);
   };
 
+  const applySavedSearch = (search: SavedSearch) => {
+      markSavedSearchSeen(search.id);
+      setLocalQuery(search.filters.query);
+      setFilters(search.filters);
+      setIsMobileOpen(false);
+  };
+
   // Language Multi-Select Logic
   const toggleLanguage = (lang: string) => {
       if (lang === 'All') {
@@ -171,10 +207,14 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, setFilters, isLoadin
         ...prev,
         query: '',
         language: [],
+        languageMode: DEFAULT_FILTERS.languageMode,
         license: 'All',
         minStars: 0,
         maxStars: MAX_STARS,
+        minHealth: 0,
         sort: SortOption.STARS,
+        trendingSince: DEFAULT_FILTERS.trendingSince,
+        qualifiers: DEFAULT_QUALIFIERS,
     }));
     setLangSearch('');
   };
@@ -189,6 +229,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, setFilters, isLoadin
           case 'stars': return <Star className="w-3.5 h-3.5" />;
           case 'forks': return <GitFork className="w-3.5 h-3.5" />;
           case 'updated': return <Clock className="w-3.5 h-3.5" />;
+          case 'health': return <Activity className="w-3.5 h-3.5" />;
           default: return null;
       }
   };
@@ -198,7 +239,9 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, setFilters, isLoadin
     (filters.query ? 1 : 0) + 
     filters.language.length + 
     (filters.minStars > 0 || filters.maxStars < MAX_STARS ? 1 : 0) +
-    (filters.sort !== SortOption.STARS ? 1 : 0);
+    (repoControls && filters.minHealth > 0 ? 1 : 0) +
+    (repoControls && filters.sort !== SortOption.STARS ? 1 : 0) +
+    (repoControls ? buildQualifiers(filters.qualifiers).length : 0);
 
   return (
     <aside className="w-full md:w-64 lg:w-72 xl:w-80 md:shrink-0 h-auto md:h-full px-4 md:px-8 py-4 md:py-8 border-b md:border-b-0 md:border-r border-zinc-200 dark:border-white/5 bg-zinc-50/80 dark:bg-zinc-950/50 backdrop-blur-sm z-20 overflow-y-auto no-scrollbar transition-all duration-500">
@@ -231,7 +274,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, setFilters, isLoadin
                 value={localQuery}
                 onChange={(e) => setLocalQuery(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder="Search GitHub"
+                placeholder={placeholder}
                 className="w-full bg-transparent border-b border-zinc-300 dark:border-zinc-800 text-zinc-900 dark:text-zinc-200 py-3 pl-0 pr-8 text-2xl md:text-3xl font-display italic focus:outline-none focus:border-zinc-500 dark:focus:border-zinc-500 transition-all placeholder:text-zinc-400 dark:placeholder:text-zinc-700 placeholder:font-display placeholder:italic"
             />
             <motion.button 
@@ -244,6 +287,9 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, setFilters, isLoadin
             </motion.button>
             </div>
 
+            {/* Pinned Presets */}
+            {repoControls && <PinnedSearches onApply={applySavedSearch} />}
+
             {/* Recent Searches */}
             <AnimatePresence>
             {recentSearches.length > 0 && (
@@ -288,9 +334,13 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, setFilters, isLoadin
                 </motion.div>
             )}
             </AnimatePresence>
+
+            {/* Saved Searches (see services/savedSearches.ts) */}
+            {repoControls && <SavedSearches filters={filters} onApply={applySavedSearch} />}
         </div>
 
         {/* Repo Ordering */}
+        {repoControls && (
         <div className="space-y-4">
             <div className="flex flex-col gap-3">
                 <div className="flex flex-col gap-1">
@@ -314,6 +364,26 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, setFilters, isLoadin
                         </button>
                     ))}
                 </div>
+
+                {/* Trending window */}
+                {filters.sort === SortOption.TRENDING && (
+                    <div className="flex gap-1.5" role="group" aria-label="Trending since">
+                        {TRENDING_WINDOWS.map(window => (
+                            <button
+                                key={window.value}
+                                onClick={() => handleDirectChange('trendingSince', window.value)}
+                                aria-pressed={filters.trendingSince === window.value}
+                                className={`flex-1 py-1.5 text-[10px] uppercase tracking-widest border rounded-sm transition-all ${
+                                    filters.trendingSince === window.value
+                                    ? 'bg-zinc-200 dark:bg-white/10 text-zinc-900 dark:text-zinc-100 border-zinc-300 dark:border-white/20'
+                                    : 'text-zinc-400 dark:text-zinc-600 border-zinc-200 dark:border-white/5 hover:border-zinc-300 dark:hover:border-white/10'
+                                }`}
+                            >
+                                {window.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
                 
                 <div className="grid grid-cols-2 gap-3">
                     <button
@@ -339,6 +409,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, setFilters, isLoadin
                 </div>
             </div>
         </div>
+        )}
 
         {/* Stars Range Filter (Only for Repos) */}
         <div className="space-y-6">
@@ -400,6 +471,48 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, setFilters, isLoadin
             </div>
         </div>
 
+        {/* Health Floor (scored locally, see services/health.ts) */}
+        {repoControls && (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center">
+                <label htmlFor="min-health" className="text-[11px] uppercase tracking-[0.25em] text-zinc-500 dark:text-zinc-500 font-serif font-medium">
+                    Min Health
+                </label>
+                <span className="text-[12px] font-mono text-zinc-900 dark:text-zinc-200">
+                    {filters.minHealth > 0 ? filters.minHealth : 'Any'}
+                </span>
+            </div>
+            <input
+                id="min-health"
+                type="range"
+                min="0"
+                max="90"
+                step="10"
+                value={filters.minHealth}
+                onChange={(e) => handleDirectChange('minHealth', Number(e.target.value))}
+                className="w-full h-1 appearance-none bg-zinc-300 dark:bg-zinc-800 rounded-full cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-2 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-zinc-800 dark:[&::-webkit-slider-thumb]:bg-zinc-200"
+            />
+            {(filters.minHealth > 0 || filters.sort === SortOption.HEALTH) && (
+                <p className="text-[11px] leading-snug text-zinc-400">
+                    Health only sorts and filters the pages already loaded, not every match on GitHub.{' '}
+                    {healthBlock === 'signed-out'
+                        ? 'Sign in to score cards automatically, or click a card\'s health badge.'
+                        : healthBlock === 'quota'
+                        ? 'Automatic scoring is paused to spare the remaining API quota; click a card\'s health badge to score it.'
+                        : 'Cards are scored as they come into view, at four API requests each.'}
+                </p>
+            )}
+        </div>
+        )}
+
+        {/* Search Qualifiers (see services/query.ts) */}
+        {repoControls && (
+            <QualifierFields
+                qualifiers={filters.qualifiers}
+                onChange={(qualifiers) => handleDirectChange('qualifiers', qualifiers)}
+            />
+        )}
+
         {/* Language Filter (Common) */}
         <div className="space-y-4">
             
@@ -449,6 +562,32 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, setFilters, isLoadin
             )}
             </AnimatePresence>
 
+            {/* How several languages combine (see LanguageMode) */}
+            {repoControls && filters.language.length > 1 && (
+                <div className="flex gap-1.5" role="group" aria-label="Match languages">
+                    {LANGUAGE_MODES.map(mode => (
+                        <button
+                            key={mode.value}
+                            onClick={() => handleDirectChange('languageMode', mode.value)}
+                            aria-pressed={filters.languageMode === mode.value}
+                            title={mode.title}
+                            className={`flex-1 py-1.5 text-[10px] uppercase tracking-widest border rounded-sm transition-all ${
+                                filters.languageMode === mode.value
+                                ? 'bg-zinc-200 dark:bg-white/10 text-zinc-900 dark:text-zinc-100 border-zinc-300 dark:border-white/20'
+                                : 'text-zinc-400 dark:text-zinc-600 border-zinc-200 dark:border-white/5 hover:border-zinc-300 dark:hover:border-white/10'
+                            }`}
+                        >
+                            {mode.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {repoControls && filters.language.length > 1 && filters.languageMode === 'and' && (
+                <p className="text-[11px] leading-snug text-zinc-400">
+                    Matches the languages as keywords, not by the language a repository is written in.
+                </p>
+            )}
+
             {/* Multi-Select List - Only shown when searching */}
             <AnimatePresence>
             {langSearch && (
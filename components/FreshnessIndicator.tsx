@@ -0,0 +1,44 @@
+
+import React, { useEffect, useState } from 'react';
+import { Clock, RefreshCw } from 'lucide-react';
+
+interface FreshnessIndicatorProps {
+  fetchedAt: number;
+  refreshing: boolean;
+}
+
+const formatAge = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+};
+
+const FreshnessIndicator: React.FC<FreshnessIndicatorProps> = ({ fetchedAt, refreshing }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Minute resolution is all the label shows
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div
+      className="flex items-center justify-end gap-2 mb-4 text-[11px] font-mono text-zinc-400 dark:text-zinc-500"
+      title={new Date(fetchedAt).toLocaleString()}
+      aria-live="polite"
+    >
+      {refreshing ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Clock className="w-3 h-3" />}
+      <span>
+        Updated {formatAge(Math.max(now, fetchedAt) - fetchedAt)}
+        {refreshing && ' · refreshing'}
+      </span>
+    </div>
+  );
+};
+
+export default FreshnessIndicator;
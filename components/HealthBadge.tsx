@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Activity, Archive, Loader2 } from 'lucide-react';
+import { GitHubRepo } from '../types';
+import { getHealthState, requestHealth, subscribeHealth } from '../services/health';
+
+interface HealthBadgeProps {
+  repo: GitHubRepo;
+  autoScore?: boolean; // Score without a click once the badge scrolls into view (sorting or filtering by health)
+}
+
+const PANEL_HEIGHT = 420;
+
+const getScoreTone = (score: number) =>
+  score >= 70 ? 'text-emerald-600 dark:text-emerald-400'
+    : score >= 40 ? 'text-amber-600 dark:text-amber-400'
+    : 'text-red-600 dark:text-red-400';
+
+const getBarTone = (score: number) =>
+  score >= 0.7 ? 'bg-emerald-500' : score >= 0.4 ? 'bg-amber-500' : 'bg-red-500';
+
+const HealthBadge: React.FC<HealthBadgeProps> = ({ repo, autoScore = false }) => {
+  const entry = useSyncExternalStore(subscribeHealth, getHealthState)[repo.full_name];
+  const [position, setPosition] = useState<React.CSSProperties | null>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const unscored = !entry;
+
+  // Only cards on screen are scored in bulk, so a long list does not drain the quota up front
+  useEffect(() => {
+    const button = buttonRef.current;
+    if (!autoScore || !unscored || !button) return;
+    const observer = new IntersectionObserver(([visible]) => {
+      if (visible.isIntersecting) requestHealth([repo], true);
+    });
+    observer.observe(button);
+    return () => observer.disconnect();
+  }, [autoScore, unscored, repo]);
+
+  // Same placement as the collection picker: cards clip their overflow, so the panel is portalled
+  const handleClick = (e: React.MouseEvent<HTMLButtonElement>) => {
+    e.stopPropagation();
+    e.preventDefault();
+    if (!entry?.health) {
+      requestHealth([repo]);
+      return;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    const left = Math.min(rect.left, window.innerWidth - 320 - 8);
+    setPosition(rect.bottom + PANEL_HEIGHT + 8 > window.innerHeight
+      ? { left, bottom: window.innerHeight - rect.top + 8 }
+      : { left, top: rect.bottom + 8 });
+  };
+
+  const health = entry?.health;
+  const title = health ? `Health score ${health.score} of 100`
+    : entry?.status === 'loading' ? 'Scoring repository health'
+    : entry?.error || 'Score repository health (4 API requests)';
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        onClick={handleClick}
+        disabled={entry?.status === 'loading'}
+        className={`flex items-center gap-1.5 transition-colors cursor-pointer focus:outline-none ${
+          health ? getScoreTone(health.score) : entry?.status === 'error' ? 'text-red-500' : 'group-hover:text-zinc-800 dark:group-hover:text-zinc-300 hover:text-zinc-900 dark:hover:text-white'
+        }`}
+        title={title}
+        aria-label={title}
+        aria-expanded={health ? !!position : undefined}
+      >
+        {entry?.status === 'loading'
+          ? <Loader2 className="w-3.5 h-3.5 animate-spin" aria-hidden="true" />
+          : <Activity className="w-3.5 h-3.5" strokeWidth={1.5} aria-hidden="true" />}
+        <span>{health ? health.score : 'Health'}</span>
+      </button>
+
+      {health && createPortal(
+        <AnimatePresence>
+          {position && (
+            <>
+              <div className="fixed inset-0 z-40" onClick={() => setPosition(null)}></div>
+              <motion.div
+                initial={{ opacity: 0, y: 5 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: 5 }}
+                style={position}
+                className="fixed w-80 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-lg shadow-xl z-50 overflow-hidden"
+                role="dialog"
+                aria-label={`Health of ${repo.full_name}`}
+              >
+                <div className="flex items-baseline justify-between px-4 py-3 border-b border-zinc-100 dark:border-zinc-800">
+                  <span className="text-[10px] uppercase tracking-[0.2em] text-zinc-400 font-medium">Health</span>
+                  <span className={`font-display text-2xl ${getScoreTone(health.score)}`}>
+                    {health.score}<span className="text-xs text-zinc-400"> / 100</span>
+                  </span>
+                </div>
+
+                {health.archived && (
+                  <div className="flex items-center gap-2 px-4 py-2 text-xs text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/10">
+                    <Archive className="w-3.5 h-3.5 shrink-0" /> Archived: the score is cut to a quarter.
+                  </div>
+                )}
+
+                <ul className="p-4 space-y-3 max-h-80 overflow-y-auto">
+                  {health.factors.map(factor => (
+                    <li key={factor.id}>
+                      <div className="flex items-center justify-between gap-2 text-xs">
+                        <span className="font-medium text-zinc-800 dark:text-zinc-200">{factor.label}</span>
+                        <span className="font-mono text-zinc-400">{Math.round(factor.weight * 100)}%</span>
+                      </div>
+                      <div className="h-1 mt-1.5 rounded-full bg-zinc-100 dark:bg-white/5 overflow-hidden">
+                        {factor.score !== null && (
+                          <div className={`h-full ${getBarTone(factor.score)}`} style={{ width: `${Math.round(factor.score * 100)}%` }} />
+                        )}
+                      </div>
+                      <p className="mt-1 text-[11px] text-zinc-500 leading-snug">
+                        {factor.detail}{factor.score === null && ' Left out of the score.'}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </motion.div>
+            </>
+          )}
+        </AnimatePresence>,
+        document.body
+      )}
+    </>
+  );
+};
+
+export default HealthBadge;
@@ -0,0 +1,259 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { AlertCircle, AlertTriangle, CheckCircle2, ChevronLeft, ChevronRight, ExternalLink, GitMerge, GitPullRequest, GitPullRequestClosed, Loader2, X } from 'lucide-react';
+import { GitHubComment, GitHubIssue, GitHubReactions, GitHubRepo, LinkedPullRequest } from '../types';
+import { getIssueComments, getIssueWithBody, getLinkedPullRequests } from '../services/githubService';
+import { handleAnchorClick, renderRepoMarkup } from '../services/markup';
+
+interface IssueDrawerProps {
+  repo: GitHubRepo;
+  issue: GitHubIssue;
+  position: string; // e.g. "3 of 30"
+  onPrevious: (() => void) | null;
+  onNext: (() => void) | null;
+  onClose: () => void;
+}
+
+const REACTIONS: { key: Exclude<keyof GitHubReactions, 'total_count'>; emoji: string }[] = [
+  { key: '+1', emoji: '👍' },
+  { key: '-1', emoji: '👎' },
+  { key: 'laugh', emoji: '😄' },
+  { key: 'hooray', emoji: '🎉' },
+  { key: 'confused', emoji: '😕' },
+  { key: 'heart', emoji: '❤️' },
+  { key: 'rocket', emoji: '🚀' },
+  { key: 'eyes', emoji: '👀' },
+];
+
+const LINKED_ICONS: Record<LinkedPullRequest['state'], { icon: React.ElementType; className: string }> = {
+  open: { icon: GitPullRequest, className: 'text-green-600 dark:text-green-500' },
+  merged: { icon: GitMerge, className: 'text-purple-500' },
+  closed: { icon: GitPullRequestClosed, className: 'text-red-500' },
+};
+
+const Reactions: React.FC<{ reactions?: GitHubReactions }> = ({ reactions }) => {
+  if (!reactions || reactions.total_count === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1.5 mt-3">
+      {REACTIONS.filter(({ key }) => reactions[key] > 0).map(({ key, emoji }) => (
+        <span key={key} className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-zinc-200 dark:border-white/10 bg-zinc-50 dark:bg-white/5 text-xs text-zinc-600 dark:text-zinc-300">
+          <span aria-hidden="true">{emoji}</span> {reactions[key]}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+const Markup: React.FC<{ html: string | undefined; repo: GitHubRepo }> = ({ html, repo }) => {
+  const rendered = useMemo(
+    () => html ? renderRepoMarkup(html, { owner: repo.owner.login, repo: repo.name, branch: repo.default_branch }) : null,
+    [html, repo.owner.login, repo.name, repo.default_branch]
+  );
+  if (!rendered) return <p className="text-sm text-zinc-400 italic">No description provided.</p>;
+  return <div className="markdown-body text-sm" onClick={handleAnchorClick} dangerouslySetInnerHTML={{ __html: rendered }} />;
+};
+
+const CommentItem: React.FC<{ comment: GitHubComment; repo: GitHubRepo }> = ({ comment, repo }) => (
+  <li className="border border-zinc-200 dark:border-white/5 rounded-lg overflow-hidden">
+    <div className="flex items-center gap-2 px-4 py-2 bg-zinc-50 dark:bg-white/5 border-b border-zinc-200 dark:border-white/5 text-xs text-zinc-500">
+      {comment.user && <img src={comment.user.avatar_url} alt="" className="w-5 h-5 rounded-full" />}
+      <span className="font-medium text-zinc-800 dark:text-zinc-200">{comment.user?.login || 'ghost'}</span>
+      {comment.author_association !== 'NONE' && (
+        <span className="px-1.5 py-0.5 rounded border border-zinc-200 dark:border-white/10 text-[9px] uppercase tracking-wider">
+          {comment.author_association.toLowerCase()}
+        </span>
+      )}
+      <a href={comment.html_url} target="_blank" rel="noopener noreferrer" className="ml-auto hover:text-zinc-900 dark:hover:text-zinc-200">
+        {new Date(comment.created_at).toLocaleDateString()}
+      </a>
+    </div>
+    <div className="p-4">
+      <Markup html={comment.body_html} repo={repo} />
+      <Reactions reactions={comment.reactions} />
+    </div>
+  </li>
+);
+
+const IssueDrawer: React.FC<IssueDrawerProps> = ({ repo, issue, position, onPrevious, onNext, onClose }) => {
+  const [bodyHtml, setBodyHtml] = useState<string | undefined>(undefined);
+  const [loadingBody, setLoadingBody] = useState(true);
+  const [comments, setComments] = useState<GitHubComment[]>([]);
+  const [nextCommentsPage, setNextCommentsPage] = useState<number | null>(null);
+  const [loadingComments, setLoadingComments] = useState(false);
+  const [commentsError, setCommentsError] = useState<string | null>(null);
+  const [linked, setLinked] = useState<LinkedPullRequest[]>([]);
+
+  const owner = repo.owner.login;
+  // Stepping to another issue while comments load must not mix the two threads
+  const shownIssue = useRef(issue.number);
+  shownIssue.current = issue.number;
+
+  const loadComments = (page: number) => {
+    const requested = issue.number;
+    setLoadingComments(true);
+    setCommentsError(null);
+    getIssueComments(owner, repo.name, requested, page)
+      .then(result => {
+        if (shownIssue.current !== requested) return;
+        setComments(prev => page > 1 ? [...prev, ...result.comments] : result.comments);
+        setNextCommentsPage(result.nextPage);
+      })
+      .catch(err => shownIssue.current === requested && setCommentsError(err.message || 'Failed to load comments'))
+      .finally(() => shownIssue.current === requested && setLoadingComments(false));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setBodyHtml(undefined);
+    setLoadingBody(true);
+    setComments([]);
+    setNextCommentsPage(null);
+    setLoadingComments(false);
+    setCommentsError(null);
+    setLinked([]);
+
+    getIssueWithBody(owner, repo.name, issue.number)
+      .then(result => !cancelled && setBodyHtml(result.body_html))
+      .catch(err => console.warn('Error fetching issue body', err))
+      .finally(() => !cancelled && setLoadingBody(false));
+    getLinkedPullRequests(owner, repo.name, issue.number)
+      .then(result => !cancelled && setLinked(result))
+      .catch(err => console.warn('Error fetching linked pull requests', err));
+    if (issue.comments > 0) loadComments(1);
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [owner, repo.name, issue.number]);
+
+  // Arrow keys (or j/k) step through the list behind the drawer, Escape closes it
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]') || e.metaKey || e.ctrlKey || e.altKey) return;
+      if (e.key === 'Escape') onClose();
+      else if ((e.key === 'ArrowLeft' || e.key === 'k') && onPrevious) onPrevious();
+      else if ((e.key === 'ArrowRight' || e.key === 'j') && onNext) onNext();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onPrevious, onNext, onClose]);
+
+  return createPortal(
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-zinc-900/40 backdrop-blur-sm z-[60]"
+      />
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'tween', duration: 0.3, ease: [0.19, 1, 0.22, 1] }}
+        className="fixed top-0 right-0 bottom-0 w-full max-w-2xl bg-white dark:bg-zinc-950 border-l border-zinc-200 dark:border-white/10 shadow-2xl z-[70] flex flex-col"
+        role="dialog"
+        aria-label={`Issue #${issue.number}: ${issue.title}`}
+      >
+        <div className="flex items-center gap-2 px-6 py-3 border-b border-zinc-200 dark:border-white/5 text-xs text-zinc-500">
+          <button onClick={onPrevious || undefined} disabled={!onPrevious} className="p-1.5 rounded hover:bg-zinc-100 dark:hover:bg-white/5 disabled:opacity-30" aria-label="Previous issue" title="Previous issue (←)">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button onClick={onNext || undefined} disabled={!onNext} className="p-1.5 rounded hover:bg-zinc-100 dark:hover:bg-white/5 disabled:opacity-30" aria-label="Next issue" title="Next issue (→)">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <span className="font-mono">{position}</span>
+          <a href={issue.html_url} target="_blank" rel="noopener noreferrer" className="ml-auto flex items-center gap-1.5 hover:text-zinc-900 dark:hover:text-zinc-200">
+            <span className="uppercase tracking-widest text-[9px] font-medium">Open on GitHub</span>
+            <ExternalLink className="w-3 h-3" />
+          </a>
+          <button onClick={onClose} className="p-1.5 rounded hover:bg-zinc-100 dark:hover:bg-white/5" aria-label="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-6">
+          <div className="flex items-start gap-3 mb-2">
+            <div className={`mt-1.5 shrink-0 ${issue.state === 'closed' ? 'text-purple-500' : 'text-green-600 dark:text-green-500'}`}>
+              {issue.state === 'closed' ? <CheckCircle2 className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+            </div>
+            <h2 className="text-2xl font-display text-zinc-900 dark:text-white leading-snug break-words">
+              {issue.title} <span className="text-zinc-400 font-light">#{issue.number}</span>
+            </h2>
+          </div>
+          <p className="text-xs text-zinc-500 mb-6 ml-8">
+            Opened on {new Date(issue.created_at).toLocaleDateString()} by {issue.user.login} · {issue.comments} comment{issue.comments === 1 ? '' : 's'}
+          </p>
+
+          {linked.length > 0 && (
+            <div className="mb-6 p-4 rounded-lg border border-zinc-200 dark:border-white/5">
+              <h3 className="text-[10px] uppercase tracking-[0.2em] text-zinc-400 font-medium mb-3">Linked Pull Requests</h3>
+              <ul className="space-y-2">
+                {linked.map(pull => {
+                  const { icon: Icon, className } = LINKED_ICONS[pull.state];
+                  return (
+                    <li key={pull.html_url} className="flex items-start gap-2 text-sm">
+                      <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${className}`} />
+                      <a href={pull.html_url} target="_blank" rel="noopener noreferrer" className="text-zinc-800 dark:text-zinc-200 hover:underline min-w-0 break-words">
+                        {pull.title}{' '}
+                        <span className="text-zinc-400 font-mono text-xs">
+                          {pull.repository.toLowerCase() === repo.full_name.toLowerCase() ? '' : pull.repository}#{pull.number}
+                        </span>
+                      </a>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          <div className="pb-6 border-b border-zinc-200 dark:border-white/5">
+            {loadingBody ? (
+              <div className="py-10 flex justify-center"><Loader2 className="w-6 h-6 text-zinc-400 animate-spin" /></div>
+            ) : (
+              <Markup html={bodyHtml} repo={repo} />
+            )}
+            <Reactions reactions={issue.reactions} />
+          </div>
+
+          {issue.comments > 0 && (
+            <div className="pt-6">
+              <h3 className="text-[10px] uppercase tracking-[0.2em] text-zinc-400 font-medium mb-4">Comments</h3>
+              <ul className="space-y-4">
+                {comments.map(comment => <CommentItem key={comment.id} comment={comment} repo={repo} />)}
+              </ul>
+
+              {commentsError && (
+                <div className="flex items-center gap-3 mt-4 p-3 rounded bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-900/30 text-amber-800 dark:text-amber-200 text-sm">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  <span className="flex-1">{commentsError}</span>
+                  <button onClick={() => loadComments(comments.length > 0 && nextCommentsPage ? nextCommentsPage : 1)} className="text-xs uppercase tracking-wider font-medium">Retry</button>
+                </div>
+              )}
+
+              {loadingComments ? (
+                <div className="py-6 flex justify-center"><Loader2 className="w-5 h-5 text-zinc-400 animate-spin" /></div>
+              ) : nextCommentsPage !== null && !commentsError && (
+                <button
+                  onClick={() => loadComments(nextCommentsPage)}
+                  className="mt-4 w-full py-3 text-xs uppercase tracking-widest font-medium text-zinc-500 border border-zinc-200 dark:border-white/10 rounded-lg hover:text-zinc-900 dark:hover:text-white transition-colors"
+                >
+                  Load more comments
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </motion.aside>
+    </>,
+    document.body
+  );
+};
+
+export default IssueDrawer;
@@ -0,0 +1,198 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Loader2, Plus, Sprout } from 'lucide-react';
+import { FilterState, GitHubIssue, GitHubRepo, IssueFinderFilters } from '../types';
+import { MAX_STARS } from '../constants';
+import { searchStarterIssues } from '../services/githubService';
+import IssueCard from './IssueCard';
+
+interface IssueFinderProps {
+  filters: FilterState;
+  finder: IssueFinderFilters;
+  onFinderChange: (finder: IssueFinderFilters) => void;
+  onRepoClick: (repo: GitHubRepo) => void;
+  onReturn: () => void;
+}
+
+const LABEL_MODES: { id: IssueFinderFilters['labels']; label: string }[] = [
+  { id: 'both', label: 'Both' },
+  { id: 'good-first-issue', label: 'Good first issue' },
+  { id: 'help-wanted', label: 'Help wanted' },
+];
+
+const UPDATED_OPTIONS = [
+  { value: 0, label: 'Any time' },
+  { value: 7, label: 'Past week' },
+  { value: 30, label: 'Past month' },
+  { value: 90, label: 'Past 3 months' },
+];
+
+const COMMENT_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Any' },
+  { value: 0, label: 'None yet' },
+  { value: 3, label: 'Up to 3' },
+  { value: 10, label: 'Up to 10' },
+];
+
+const segmentClass = (active: boolean) => `px-3 py-2 transition-colors ${
+  active
+    ? 'bg-zinc-900 text-white dark:bg-white dark:text-zinc-900'
+    : 'bg-zinc-100 dark:bg-white/5 text-zinc-600 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-white/10'
+}`;
+
+const IssueFinder: React.FC<IssueFinderProps> = ({ filters, finder, onFinderChange, onRepoClick, onReturn }) => {
+  const [issues, setIssues] = useState<GitHubIssue[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [hiddenByStars, setHiddenByStars] = useState(0);
+  const [nextPage, setNextPage] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const lastRequestId = useRef(0);
+
+  // Only the filters the issue search uses: sort, license and health belong to the repository grid
+  const searchKey = JSON.stringify([filters.query, filters.language, filters.minStars, filters.maxStars, finder]);
+
+  const load = async (page: number) => {
+    const requestId = ++lastRequestId.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await searchStarterIssues(filters, finder, page);
+      if (requestId !== lastRequestId.current) return;
+      setIssues(prev => page > 1 ? [...prev, ...response.items.filter(issue => !prev.some(p => p.id === issue.id))] : response.items);
+      setHiddenByStars(prev => (page > 1 ? prev : 0) + response.hiddenByStars);
+      setTotalCount(response.total_count);
+      setNextPage(response.nextPage);
+    } catch (err: any) {
+      if (requestId !== lastRequestId.current) return;
+      setError(err.message || 'Failed to search issues');
+      if (page === 1) setIssues([]);
+    } finally {
+      if (requestId === lastRequestId.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load(1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchKey]);
+
+  const update = (changes: Partial<IssueFinderFilters>) => onFinderChange({ ...finder, ...changes });
+  const hasStarRange = filters.minStars > 0 || filters.maxStars < MAX_STARS;
+
+  return (
+    <section className="flex-1 overflow-y-auto min-h-0 p-3 md:p-6 lg:p-10 2xl:p-12 items-start min-w-0">
+      <div className="max-w-8xl mx-auto w-full pb-20">
+        <div className="mb-10 border-b border-zinc-200 dark:border-white/5 pb-10 animate-in fade-in slide-in-from-bottom-4 duration-700">
+          <div className="flex items-center gap-2 text-[12px] uppercase tracking-[0.2em] text-zinc-400 dark:text-zinc-500 mb-8 font-medium">
+            <button onClick={onReturn} className="hover:text-zinc-800 dark:hover:text-zinc-200 transition-colors">Global Index</button>
+            <span>/</span>
+            <span className="text-zinc-800 dark:text-zinc-200">Starter Issues</span>
+          </div>
+          <h1 className="text-4xl md:text-6xl font-display font-medium text-zinc-900 dark:text-white tracking-tight mb-4">Starter Issues</h1>
+          <p className="text-sm text-zinc-500 max-w-2xl leading-relaxed">
+            Open issues maintainers marked as a good way in, across repositories matching the languages, keywords and star range on the left.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-3 mt-8">
+            <div className="flex rounded-md border border-zinc-200 dark:border-white/10 overflow-hidden text-xs font-medium">
+              {LABEL_MODES.map(mode => (
+                <button key={mode.id} onClick={() => update({ labels: mode.id })} className={segmentClass(finder.labels === mode.id)}>
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+
+            <button
+              onClick={() => update({ unassigned: !finder.unassigned })}
+              className={`rounded-md border border-zinc-200 dark:border-white/10 text-xs font-medium ${segmentClass(finder.unassigned)}`}
+              aria-pressed={finder.unassigned}
+            >
+              Unassigned only
+            </button>
+
+            <label className="flex items-center gap-2 text-xs text-zinc-500">
+              Updated
+              <select
+                value={finder.updatedWithin}
+                onChange={(e) => update({ updatedWithin: Number(e.target.value) })}
+                className="px-2 py-2 bg-zinc-100 dark:bg-zinc-800 border border-zinc-200 dark:border-white/10 rounded-md text-xs text-zinc-800 dark:text-zinc-200 focus:outline-none"
+              >
+                {UPDATED_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </label>
+
+            <label className="flex items-center gap-2 text-xs text-zinc-500">
+              Comments
+              <select
+                value={finder.maxComments ?? ''}
+                onChange={(e) => update({ maxComments: e.target.value === '' ? null : Number(e.target.value) })}
+                className="px-2 py-2 bg-zinc-100 dark:bg-zinc-800 border border-zinc-200 dark:border-white/10 rounded-md text-xs text-zinc-800 dark:text-zinc-200 focus:outline-none"
+              >
+                {COMMENT_OPTIONS.map(option => <option key={option.label} value={option.value ?? ''}>{option.label}</option>)}
+              </select>
+            </label>
+          </div>
+
+          {!loading && !error && (
+            <p className="mt-6 text-xs font-mono text-zinc-500">
+              {totalCount.toLocaleString()} matching issues on GitHub
+              {hasStarRange && hiddenByStars > 0 && ` · ${hiddenByStars.toLocaleString()} loaded so far are in repositories outside the star range`}
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="w-full py-16 flex flex-col items-center justify-center text-center border border-red-500/10 bg-red-500/5 rounded-lg mb-12">
+            <p className="text-red-500 dark:text-red-300 font-serif text-2xl mb-3 tracking-wide">Search Interrupted</p>
+            <p className="text-red-600/60 dark:text-red-400/60 text-sm font-mono mb-8">{error}</p>
+            <button
+              onClick={() => load(issues.length > 0 && nextPage ? nextPage : 1)}
+              className="px-8 py-3 border border-red-500/20 hover:border-red-500/50 hover:bg-red-500/10 text-red-600 dark:text-red-200 text-[13px] uppercase tracking-[0.2em] transition-all duration-300"
+            >
+              Retry
+            </button>
+          </div>
+        )}
+
+        {!loading && !error && issues.length === 0 && (
+          <div className="w-full h-[40vh] flex flex-col items-center justify-center text-center opacity-50">
+            <div className="w-20 h-20 border border-zinc-300 dark:border-zinc-800 rounded-full flex items-center justify-center mb-6 bg-zinc-50 dark:bg-zinc-900/50">
+              <Sprout className="w-8 h-8 text-zinc-400 dark:text-zinc-600" />
+            </div>
+            <p className="text-4xl font-display text-zinc-800 dark:text-zinc-200 mb-4 italic">No Starter Issues Found</p>
+            <p className="text-zinc-500 text-xs font-mono tracking-[0.2em] uppercase">Adjust filters to broaden scope</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 md:gap-6">
+          {issues.map(issue => (
+            <motion.div key={issue.id} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="flex">
+              <IssueCard issue={issue} onRepoClick={() => issue.repository && onRepoClick(issue.repository)} />
+            </motion.div>
+          ))}
+        </div>
+
+        {(loading || (nextPage !== null && !error)) && (
+          <div className="mt-16 flex flex-col items-center">
+            {loading ? (
+              <Loader2 className="w-8 h-8 text-zinc-900 dark:text-white animate-spin" />
+            ) : (
+              <button
+                onClick={() => nextPage && load(nextPage)}
+                className="group relative px-10 py-4 bg-transparent border border-zinc-300 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400 font-mono text-[10px] uppercase tracking-[0.25em] hover:text-zinc-900 dark:hover:text-zinc-100 hover:border-zinc-900 dark:hover:border-zinc-100 transition-all duration-500"
+              >
+                <span className="relative z-10 flex items-center gap-3">
+                  Load More Issues
+                  <Plus className="w-3 h-3 group-hover:rotate-90 transition-transform duration-300" />
+                </span>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default IssueFinder;
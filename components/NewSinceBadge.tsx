@@ -0,0 +1,25 @@
+import React, { useSyncExternalStore } from 'react';
+import { GitHubRepo } from '../types';
+import { findNewIn, getSavedSearchesState, subscribeSavedSearches } from '../services/savedSearches';
+
+interface NewSinceBadgeProps {
+  repo: GitHubRepo;
+}
+
+// Marks repositories a saved search turned up that its previous run had not
+const NewSinceBadge: React.FC<NewSinceBadgeProps> = ({ repo }) => {
+  const { searches } = useSyncExternalStore(subscribeSavedSearches, getSavedSearchesState);
+  const search = findNewIn(searches, repo.id);
+  if (!search) return null;
+
+  return (
+    <span
+      className="inline-block mb-2 px-2 py-0.5 text-[9px] uppercase tracking-widest font-bold text-emerald-700 dark:text-emerald-300 bg-emerald-50 dark:bg-emerald-500/10 border border-emerald-200 dark:border-emerald-500/20 rounded-sm"
+      title={`New in "${search.name}" since your last visit`}
+    >
+      New since last visit
+    </span>
+  );
+};
+
+export default NewSinceBadge;
@@ -0,0 +1,36 @@
+import React, { useSyncExternalStore } from 'react';
+import { SavedSearch } from '../types';
+import { countUnseen, getSavedSearchesState, subscribeSavedSearches } from '../services/savedSearches';
+
+interface PinnedSearchesProps {
+  onApply: (search: SavedSearch) => void;
+}
+
+// One-click presets: the saved searches pinned in the saved list
+const PinnedSearches: React.FC<PinnedSearchesProps> = ({ onApply }) => {
+  const { searches } = useSyncExternalStore(subscribeSavedSearches, getSavedSearchesState);
+  const pinned = searches.filter(search => search.pinned);
+  if (pinned.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2" role="list" aria-label="Pinned searches">
+      {pinned.map(search => (
+        <button
+          key={search.id}
+          role="listitem"
+          onClick={() => onApply(search)}
+          className="flex items-center gap-1.5 px-3 py-1 text-[11px] tracking-wide text-zinc-700 dark:text-zinc-300 border border-zinc-300 dark:border-white/10 rounded-full hover:border-zinc-500 dark:hover:border-white/30 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+        >
+          {search.name}
+          {countUnseen(search) > 0 && (
+            <span className="text-[10px] font-mono text-emerald-600 dark:text-emerald-400" title="New since your last visit">
+              +{countUnseen(search)}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default PinnedSearches;
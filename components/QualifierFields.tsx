@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from 'react';
+import { DateRange, ForkMode, NumberRange, SearchInField, SearchQualifiers } from '../types';
+import { DEFAULT_QUALIFIERS } from '../constants';
+import { buildQualifiers } from '../services/query';
+import { ChevronDown, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+
+interface QualifierFieldsProps {
+  qualifiers: SearchQualifiers;
+  onChange: (qualifiers: SearchQualifiers) => void;
+}
+
+const labelClass = 'text-[10px] uppercase tracking-[0.2em] text-zinc-400 font-medium';
+const inputClass = 'w-full min-w-0 bg-transparent border-b border-zinc-200 dark:border-white/10 text-[12px] font-mono text-zinc-900 dark:text-zinc-200 py-1 focus:outline-none focus:border-zinc-500 dark:focus:border-white/30 transition-colors placeholder:text-zinc-400 dark:placeholder:text-zinc-600';
+
+const segmentClass = (active: boolean) =>
+  `flex-1 py-1.5 text-[10px] uppercase tracking-widest border rounded-sm transition-all ${
+    active
+      ? 'bg-zinc-200 dark:bg-white/10 text-zinc-900 dark:text-zinc-100 border-zinc-300 dark:border-white/20'
+      : 'text-zinc-400 dark:text-zinc-600 border-zinc-200 dark:border-white/5 hover:border-zinc-300 dark:hover:border-white/10'
+  }`;
+
+// A text input that only reports its value on blur or Enter, so every keystroke does not start a search
+const CommitInput: React.FC<{
+  value: string;
+  onCommit: (value: string) => void;
+  type?: 'text' | 'number' | 'date';
+  placeholder?: string;
+  ariaLabel: string;
+}> = ({ value, onCommit, type = 'text', placeholder, ariaLabel }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <input
+      type={type}
+      min={type === 'number' ? 0 : undefined}
+      value={draft}
+      placeholder={placeholder}
+      aria-label={ariaLabel}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      className={inputClass}
+    />
+  );
+};
+
+const toCount = (raw: string): number | null => {
+  const value = parseInt(raw, 10);
+  return isNaN(value) || value < 0 ? null : value;
+};
+
+const NumberRangeField: React.FC<{ label: string; range: NumberRange; onChange: (range: NumberRange) => void }> = ({ label, range, onChange }) => (
+  <div className="space-y-1.5">
+    <span className={labelClass}>{label}</span>
+    <div className="flex items-center gap-3">
+      <CommitInput type="number" ariaLabel={`${label} minimum`} placeholder="min" value={range.min === null ? '' : String(range.min)} onCommit={(raw) => onChange({ ...range, min: toCount(raw) })} />
+      <span className="text-zinc-400">-</span>
+      <CommitInput type="number" ariaLabel={`${label} maximum`} placeholder="max" value={range.max === null ? '' : String(range.max)} onCommit={(raw) => onChange({ ...range, max: toCount(raw) })} />
+    </div>
+  </div>
+);
+
+const DateRangeField: React.FC<{ label: string; range: DateRange; onChange: (range: DateRange) => void }> = ({ label, range, onChange }) => (
+  <div className="space-y-1.5">
+    <span className={labelClass}>{label}</span>
+    <div className="flex items-center gap-3">
+      <CommitInput type="date" ariaLabel={`${label} from`} value={range.from || ''} onCommit={(raw) => onChange({ ...range, from: raw || null })} />
+      <span className="text-zinc-400">-</span>
+      <CommitInput type="date" ariaLabel={`${label} to`} value={range.to || ''} onCommit={(raw) => onChange({ ...range, to: raw || null })} />
+    </div>
+  </div>
+);
+
+const SEARCH_IN_OPTIONS: { value: SearchInField; label: string }[] = [
+  { value: 'name', label: 'Name' },
+  { value: 'description', label: 'About' },
+  { value: 'readme', label: 'Readme' },
+];
+
+const ARCHIVED_OPTIONS: { value: boolean | null; label: string }[] = [
+  { value: null, label: 'Any' },
+  { value: false, label: 'Hide' },
+  { value: true, label: 'Only' },
+];
+
+const FORK_OPTIONS: { value: ForkMode; label: string }[] = [
+  { value: 'exclude', label: 'Hide' },
+  { value: 'include', label: 'Any' },
+  { value: 'only', label: 'Only' },
+];
+
+const QualifierFields: React.FC<QualifierFieldsProps> = ({ qualifiers, onChange }) => {
+  const activeCount = buildQualifiers(qualifiers).length;
+  const [isOpen, setIsOpen] = useState(activeCount > 0);
+  const [topicDraft, setTopicDraft] = useState('');
+
+  const update = <K extends keyof SearchQualifiers>(key: K, value: SearchQualifiers[K]) =>
+    onChange({ ...qualifiers, [key]: value });
+
+  const addTopic = () => {
+    // GitHub topics are lower case with dashes in place of spaces
+    const topic = topicDraft.trim().toLowerCase().replace(/\s+/g, '-');
+    if (topic && !qualifiers.topics.includes(topic)) update('topics', [...qualifiers.topics, topic]);
+    setTopicDraft('');
+  };
+
+  const toggleSearchIn = (field: SearchInField) => {
+    const next = qualifiers.searchIn.includes(field)
+      ? qualifiers.searchIn.filter(f => f !== field)
+      : SEARCH_IN_OPTIONS.map(o => o.value).filter(f => f === field || qualifiers.searchIn.includes(f));
+    update('searchIn', next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="w-full flex justify-between items-center focus:outline-none"
+      >
+        <span className="text-[11px] uppercase tracking-[0.25em] text-zinc-500 dark:text-zinc-500 font-serif font-medium">
+          Qualifiers
+          {activeCount > 0 && <span className="ml-2 text-zinc-400">({activeCount})</span>}
+        </span>
+        <ChevronDown className={`w-3.5 h-3.5 text-zinc-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      <AnimatePresence initial={false}>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          exit={{ opacity: 0, height: 0 }}
+          className="space-y-5 overflow-hidden"
+        >
+          {/* Topics */}
+          <div className="space-y-1.5">
+            <span className={labelClass}>Topics</span>
+            {qualifiers.topics.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 pb-1">
+                {qualifiers.topics.map(topic => (
+                  <button
+                    key={topic}
+                    onClick={() => update('topics', qualifiers.topics.filter(t => t !== topic))}
+                    className="group flex items-center gap-1.5 px-2.5 py-0.5 bg-zinc-100 dark:bg-white/5 border border-zinc-200 dark:border-white/10 rounded-full text-[11px] font-mono text-zinc-700 dark:text-zinc-300 hover:border-zinc-400 dark:hover:border-white/30 transition-colors"
+                  >
+                    {topic}
+                    <X className="w-2.5 h-2.5 opacity-60 group-hover:opacity-100" />
+                  </button>
+                ))}
+              </div>
+            )}
+            <input
+              type="text"
+              value={topicDraft}
+              onChange={(e) => setTopicDraft(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') addTopic(); }}
+              onBlur={addTopic}
+              placeholder="Add a topic"
+              aria-label="Add a topic"
+              className={inputClass}
+            />
+          </div>
+
+          {/* Owner */}
+          <div className="space-y-1.5">
+            <span className={labelClass}>Organization</span>
+            <CommitInput ariaLabel="Organization" placeholder="login" value={qualifiers.org} onCommit={(raw) => update('org', raw.trim())} />
+          </div>
+
+          {/* Where the free text is matched */}
+          <div className="space-y-1.5">
+            <span className={labelClass}>Match text in</span>
+            <div className="flex gap-1.5">
+              {SEARCH_IN_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => toggleSearchIn(option.value)}
+                  aria-pressed={qualifiers.searchIn.includes(option.value)}
+                  className={segmentClass(qualifiers.searchIn.includes(option.value))}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <DateRangeField label="Created" range={qualifiers.created} onChange={(range) => update('created', range)} />
+          <DateRangeField label="Last pushed" range={qualifiers.pushed} onChange={(range) => update('pushed', range)} />
+          <NumberRangeField label="Forks" range={qualifiers.forks} onChange={(range) => update('forks', range)} />
+          <NumberRangeField label="Size (KB)" range={qualifiers.size} onChange={(range) => update('size', range)} />
+
+          <div className="space-y-1.5">
+            <span className={labelClass}>Good first issues, more than</span>
+            <CommitInput
+              type="number"
+              ariaLabel="Good first issues, more than"
+              placeholder="any"
+              value={qualifiers.goodFirstIssues === null ? '' : String(qualifiers.goodFirstIssues)}
+              onCommit={(raw) => update('goodFirstIssues', toCount(raw))}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <span className={labelClass}>Archived</span>
+            <div className="flex gap-1.5">
+              {ARCHIVED_OPTIONS.map(option => (
+                <button key={option.label} onClick={() => update('archived', option.value)} className={segmentClass(qualifiers.archived === option.value)}>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <span className={labelClass}>Forked repositories</span>
+            <div className="flex gap-1.5">
+              {FORK_OPTIONS.map(option => (
+                <button key={option.value} onClick={() => update('fork', option.value)} className={segmentClass(qualifiers.fork === option.value)}>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-[12px] text-zinc-600 dark:text-zinc-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={qualifiers.template}
+              onChange={(e) => update('template', e.target.checked)}
+              className="accent-zinc-800 dark:accent-zinc-200"
+            />
+            Templates only
+          </label>
+
+          {activeCount > 0 && (
+            <button
+              onClick={() => onChange(DEFAULT_QUALIFIERS)}
+              className="text-[10px] uppercase tracking-widest text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-200 transition-colors"
+            >
+              Clear qualifiers
+            </button>
+          )}
+        </motion.div>
+      )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default QualifierFields;
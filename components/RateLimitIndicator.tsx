@@ -0,0 +1,63 @@
+
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { Gauge, Hourglass } from 'lucide-react';
+import { getRateLimits, RateLimitQuota, subscribeRateLimits } from '../services/rateLimit';
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const RateLimitIndicator: React.FC = () => {
+  const limits = useSyncExternalStore(subscribeRateLimits, getRateLimits);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick for the reset countdown
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { core, search } = limits;
+  if (!core && !search) return null;
+
+  // A window that has already reset is back to its full limit until the next response says otherwise
+  const remainingOf = (quota: RateLimitQuota) => quota.reset <= now ? quota.limit : quota.remaining;
+  const exhausted = [core, search].filter((q): q is RateLimitQuota => !!q && (q.queued > 0 || (remainingOf(q) === 0 && q.reset > now)));
+  const nextReset = exhausted.length > 0 ? Math.min(...exhausted.map(q => q.reset)) : null;
+
+  const describe = (label: string, quota: RateLimitQuota | null) => {
+    if (!quota) return `${label}: unknown`;
+    return `${label}: ${remainingOf(quota).toLocaleString()} / ${quota.limit.toLocaleString()} left, resets in ${formatCountdown(quota.reset - now)}`;
+  };
+
+  return (
+    <div
+      className={`hidden lg:flex items-center gap-2 px-3 h-8 rounded-full border text-[11px] font-mono transition-colors ${
+        nextReset
+          ? 'border-amber-300 dark:border-amber-900/50 bg-amber-50 dark:bg-amber-900/10 text-amber-700 dark:text-amber-300'
+          : 'border-zinc-200 dark:border-white/10 text-zinc-500 dark:text-zinc-400'
+      }`}
+      title={[describe('Core', core), describe('Search', search)].join('\n')}
+      aria-live="polite"
+    >
+      {nextReset ? (
+        <>
+          <Hourglass className="w-3.5 h-3.5 animate-pulse" />
+          <span>Paused · {formatCountdown(nextReset - now)}</span>
+        </>
+      ) : (
+        <>
+          <Gauge className="w-3.5 h-3.5" />
+          {core && <span>{remainingOf(core).toLocaleString()}</span>}
+          {core && search && <span className="opacity-40">/</span>}
+          {search && <span className="opacity-70">{remainingOf(search)} search</span>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RateLimitIndicator;
@@ -0,0 +1,81 @@
+import React, { useEffect, useSyncExternalStore } from 'react';
+import { Loader2, Tag } from 'lucide-react';
+import { GitHubRepo } from '../types';
+import { hasAuthToken } from '../services/githubService';
+import { getReleaseState, requestLatestRelease, subscribeReleases } from '../services/releases';
+
+interface ReleaseBadgeProps {
+  repo: GitHubRepo;
+}
+
+const formatAge = (dateString: string) => {
+  const days = Math.floor((Date.now() - new Date(dateString).getTime()) / (1000 * 60 * 60 * 24));
+  if (days < 1) return 'today';
+  if (days < 30) return `${days}d ago`;
+  if (days < 365) return `${Math.floor(days / 30)}mo ago`;
+  return `${Math.floor(days / 365)}y ago`;
+};
+
+const ReleaseBadge: React.FC<ReleaseBadgeProps> = ({ repo }) => {
+  const entry = useSyncExternalStore(subscribeReleases, getReleaseState)[repo.full_name];
+
+  // A request per card: only spend it unprompted with a token's larger quota
+  useEffect(() => {
+    if (hasAuthToken()) requestLatestRelease([repo]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [repo.full_name]);
+
+  const release = entry?.release;
+  if (release) {
+    const published = release.published_at || release.created_at;
+    return (
+      <a
+        href={release.html_url}
+        target="_blank"
+        rel="noopener noreferrer"
+        onClick={(e) => e.stopPropagation()}
+        className="flex items-center gap-1.5 min-w-0 group-hover:text-zinc-800 dark:group-hover:text-zinc-300 hover:text-zinc-900 dark:hover:text-white transition-colors"
+        title={`Latest release ${release.name || release.tag_name}, published ${new Date(published).toLocaleDateString()}`}
+      >
+        <Tag className="w-3.5 h-3.5 shrink-0" strokeWidth={1.5} aria-hidden="true" />
+        <span className="truncate max-w-[7rem]">{release.tag_name}</span>
+        <span className="text-zinc-400 dark:text-zinc-600 shrink-0">{formatAge(published)}</span>
+      </a>
+    );
+  }
+
+  if (entry?.status === 'ready') {
+    return (
+      <span className="flex items-center gap-1.5 text-zinc-400 dark:text-zinc-600" title="No published releases">
+        <Tag className="w-3.5 h-3.5" strokeWidth={1.5} aria-hidden="true" />
+        <span>None</span>
+      </span>
+    );
+  }
+
+  const title = entry?.status === 'loading' ? 'Looking up the latest release'
+    : entry?.error || 'Show the latest release (1 API request)';
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        e.preventDefault();
+        requestLatestRelease([repo]);
+      }}
+      disabled={entry?.status === 'loading'}
+      className={`flex items-center gap-1.5 transition-colors cursor-pointer focus:outline-none ${
+        entry?.status === 'error' ? 'text-red-500' : 'group-hover:text-zinc-800 dark:group-hover:text-zinc-300 hover:text-zinc-900 dark:hover:text-white'
+      }`}
+      title={title}
+      aria-label={title}
+    >
+      {entry?.status === 'loading'
+        ? <Loader2 className="w-3.5 h-3.5 animate-spin" aria-hidden="true" />
+        : <Tag className="w-3.5 h-3.5" strokeWidth={1.5} aria-hidden="true" />}
+      <span>Release</span>
+    </button>
+  );
+};
+
+export default ReleaseBadge;
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { CodeFrequencyWeek, CommitActivityWeek, ContributorStats, GitHubRepo } from '../types';
+import { getCodeFrequency, getCommitActivity, getContributorStats } from '../services/githubService';
+
+interface RepoActivityProps {
+  repo: GitHubRepo;
+}
+
+interface Section<T> {
+  data: T | null;
+  error: string | null;
+}
+
+const TOP_CONTRIBUTORS = 10;
+const MAX_FREQUENCY_BARS = 104;
+const CELL = 12;
+const GAP = 3;
+const DAY_LABELS = ['', 'Mon', '', 'Wed', '', 'Fri', ''];
+const HEAT_CLASSES = ['fill-zinc-100 dark:fill-white/5', 'fill-emerald-200 dark:fill-emerald-900', 'fill-emerald-400 dark:fill-emerald-700', 'fill-emerald-500', 'fill-emerald-700 dark:fill-emerald-400'];
+
+const empty = <T,>(): Section<T> => ({ data: null, error: null });
+
+const formatCount = (num: number) =>
+  num >= 1000000 ? `${(num / 1000000).toFixed(1)}M` : num >= 1000 ? `${(num / 1000).toFixed(1)}k` : num.toString();
+
+const formatWeek = (seconds: number, withYear = true) =>
+  new Date(seconds * 1000).toLocaleDateString(undefined, withYear ? { month: 'short', year: 'numeric' } : { month: 'short' });
+
+const SectionState: React.FC<{ section: Section<unknown>; label: string }> = ({ section, label }) => (
+  section.error ? (
+    <div className="flex items-center gap-3 p-4 rounded bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-900/30 text-amber-800 dark:text-amber-200">
+      <AlertTriangle className="w-4 h-4 shrink-0" />
+      <span className="text-sm">{section.error}</span>
+    </div>
+  ) : (
+    <div className="w-full py-10 flex flex-col items-center justify-center text-zinc-400">
+      <Loader2 className="w-6 h-6 animate-spin mb-3" />
+      <span className="text-xs uppercase tracking-widest">Loading {label}...</span>
+    </div>
+  )
+);
+
+const CommitHeatmap: React.FC<{ weeks: CommitActivityWeek[] }> = ({ weeks }) => {
+  const max = Math.max(...weeks.flatMap(week => week.days), 0);
+  const total = weeks.reduce((sum, week) => sum + week.total, 0);
+  const left = 32;
+  const width = left + weeks.length * (CELL + GAP);
+  const height = 20 + 7 * (CELL + GAP);
+
+  // Quarter steps of the busiest day, so a single spike does not wash out the rest
+  const level = (count: number) => count === 0 || max === 0 ? 0 : Math.min(4, Math.ceil((count / max) * 4));
+
+  return (
+    <div>
+      <p className="text-xs font-mono text-zinc-500 mb-3">{total.toLocaleString()} commits in the last year</p>
+      <div className="overflow-x-auto no-scrollbar">
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-full min-w-[640px] h-auto" role="img" aria-label={`${total} commits in the last year`}>
+          {DAY_LABELS.map((label, day) => label && (
+            <text key={label} x={0} y={20 + day * (CELL + GAP) + CELL - 2} className="fill-zinc-400 font-mono" fontSize={9}>{label}</text>
+          ))}
+          {weeks.map((week, index) => {
+            const x = left + index * (CELL + GAP);
+            const monthStart = index === 0 || formatWeek(week.week, false) !== formatWeek(weeks[index - 1].week, false);
+            return (
+              <g key={week.week}>
+                {monthStart && index < weeks.length - 2 && (
+                  <text x={x} y={10} className="fill-zinc-400 font-mono" fontSize={9}>{formatWeek(week.week, false)}</text>
+                )}
+                {week.days.map((count, day) => (
+                  <rect key={day} x={x} y={20 + day * (CELL + GAP)} width={CELL} height={CELL} rx={2} className={HEAT_CLASSES[level(count)]}>
+                    <title>{`${count} commit${count === 1 ? '' : 's'} on ${new Date((week.week + day * 86400) * 1000).toLocaleDateString()}`}</title>
+                  </rect>
+                ))}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+const ContributorList: React.FC<{ contributors: ContributorStats[] }> = ({ contributors }) => {
+  const total = contributors.reduce((sum, contributor) => sum + contributor.total, 0);
+  if (total === 0) return <p className="text-sm text-zinc-500 font-mono">No commits recorded.</p>;
+
+  return (
+    <ol className="space-y-3">
+      {contributors.slice(0, TOP_CONTRIBUTORS).map((contributor, index) => {
+        const share = (contributor.total / total) * 100;
+        const login = contributor.author?.login || 'Unlinked commits';
+        return (
+          <li key={contributor.author?.login || `anonymous-${index}`} className="flex items-center gap-4">
+            <span className="w-5 text-right text-xs font-mono text-zinc-400">{index + 1}</span>
+            {contributor.author ? (
+              <img src={contributor.author.avatar_url} alt="" className="w-7 h-7 rounded-full bg-zinc-200 dark:bg-zinc-800" />
+            ) : (
+              <div className="w-7 h-7 rounded-full bg-zinc-200 dark:bg-zinc-800" />
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="flex items-baseline justify-between gap-2 text-sm">
+                {contributor.author ? (
+                  <a href={contributor.author.html_url} target="_blank" rel="noreferrer" className="font-medium text-zinc-800 dark:text-zinc-200 hover:underline truncate">{login}</a>
+                ) : (
+                  <span className="text-zinc-500 italic truncate">{login}</span>
+                )}
+                <span className="text-xs font-mono text-zinc-500 shrink-0">
+                  {contributor.total.toLocaleString()} commits · {share.toFixed(1)}%
+                </span>
+              </div>
+              <div className="h-1.5 mt-1.5 rounded-full bg-zinc-100 dark:bg-white/5 overflow-hidden">
+                <div className="h-full bg-zinc-800 dark:bg-zinc-300" style={{ width: `${share}%` }} />
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+const CodeFrequencyChart: React.FC<{ weeks: CodeFrequencyWeek[] }> = ({ weeks }) => {
+  if (weeks.length === 0) return <p className="text-sm text-zinc-500 font-mono">No changes recorded.</p>;
+
+  // Long histories are summed into wider buckets so every bar stays visible
+  const size = Math.ceil(weeks.length / MAX_FREQUENCY_BARS);
+  const buckets: CodeFrequencyWeek[] = [];
+  for (let i = 0; i < weeks.length; i += size) {
+    const slice = weeks.slice(i, i + size);
+    buckets.push({
+      week: slice[0].week,
+      additions: slice.reduce((sum, week) => sum + week.additions, 0),
+      deletions: slice.reduce((sum, week) => sum + week.deletions, 0),
+    });
+  }
+
+  const width = 800;
+  const height = 200;
+  const middle = height / 2;
+  const max = Math.max(...buckets.map(bucket => Math.max(bucket.additions, bucket.deletions)), 1);
+  const barWidth = width / buckets.length;
+  const totals = weeks.reduce((sum, week) => ({ additions: sum.additions + week.additions, deletions: sum.deletions + week.deletions }), { additions: 0, deletions: 0 });
+
+  return (
+    <div>
+      <p className="text-xs font-mono text-zinc-500 mb-3">
+        <span className="text-emerald-600 dark:text-emerald-400">+{formatCount(totals.additions)}</span>{' '}
+        <span className="text-red-600 dark:text-red-400">−{formatCount(totals.deletions)}</span>{' '}
+        lines since {formatWeek(weeks[0].week)}
+      </p>
+      <svg viewBox={`0 0 ${width} ${height + 16}`} className="w-full h-auto" role="img" aria-label="Weekly additions and deletions">
+        <line x1={0} x2={width} y1={middle} y2={middle} className="stroke-zinc-300 dark:stroke-white/10" />
+        {buckets.map((bucket, index) => {
+          const up = (bucket.additions / max) * (middle - 4);
+          const down = (bucket.deletions / max) * (middle - 4);
+          const x = index * barWidth + barWidth * 0.1;
+          return (
+            <g key={bucket.week}>
+              <title>{`${formatWeek(bucket.week)}: +${bucket.additions.toLocaleString()} / −${bucket.deletions.toLocaleString()}`}</title>
+              <rect x={x} y={middle - up} width={barWidth * 0.8} height={up} className="fill-emerald-500" />
+              <rect x={x} y={middle} width={barWidth * 0.8} height={down} className="fill-red-500" />
+            </g>
+          );
+        })}
+        <text x={0} y={height + 12} className="fill-zinc-400 font-mono" fontSize={11}>{formatWeek(buckets[0].week)}</text>
+        <text x={width} y={height + 12} textAnchor="end" className="fill-zinc-400 font-mono" fontSize={11}>{formatWeek(buckets[buckets.length - 1].week)}</text>
+      </svg>
+    </div>
+  );
+};
+
+const RepoActivity: React.FC<RepoActivityProps> = ({ repo }) => {
+  const [activity, setActivity] = useState<Section<CommitActivityWeek[]>>(empty);
+  const [contributors, setContributors] = useState<Section<ContributorStats[]>>(empty);
+  const [frequency, setFrequency] = useState<Section<CodeFrequencyWeek[]>>(empty);
+
+  // Each endpoint may need its own round of 202 retries, so the sections fill in independently
+  useEffect(() => {
+    let cancelled = false;
+    const load = <T,>(request: Promise<T>, setSection: (section: Section<T>) => void) => {
+      setSection(empty<T>());
+      request
+        .then(data => !cancelled && setSection({ data, error: null }))
+        .catch(err => !cancelled && setSection({ data: null, error: err.message || 'Failed to load statistics' }));
+    };
+
+    load(getCommitActivity(repo.owner.login, repo.name), setActivity);
+    load(getContributorStats(repo.owner.login, repo.name), setContributors);
+    load(getCodeFrequency(repo.owner.login, repo.name), setFrequency);
+    return () => {
+      cancelled = true;
+    };
+  }, [repo.owner.login, repo.name]);
+
+  return (
+    <div className="space-y-16">
+      <section>
+        <h2 className="text-2xl font-display text-zinc-900 dark:text-white mb-6">Commit Activity</h2>
+        {activity.data ? <CommitHeatmap weeks={activity.data} /> : <SectionState section={activity} label="commit activity" />}
+      </section>
+
+      <section>
+        <h2 className="text-2xl font-display text-zinc-900 dark:text-white mb-6">Top Contributors</h2>
+        {contributors.data ? <ContributorList contributors={contributors.data} /> : <SectionState section={contributors} label="contributors" />}
+      </section>
+
+      <section>
+        <h2 className="text-2xl font-display text-zinc-900 dark:text-white mb-6">Additions & Deletions</h2>
+        {frequency.data ? <CodeFrequencyChart weeks={frequency.data} /> : <SectionState section={frequency} label="code frequency" />}
+      </section>
+    </div>
+  );
+};
+
+export default RepoActivity;
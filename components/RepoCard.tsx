@@ -3,15 +3,24 @@ import React, { useState, useEffect } from 'react';
 import { Star, GitFork, ArrowUpRight, Clock, Copy, Check } from 'lucide-react';
 import { GitHubRepo } from '../types';
 import { getRepoLanguages } from '../services/githubService';
+import { buildRepoHash } from '../services/router';
 import { motion, AnimatePresence } from 'framer-motion';
+import StarButton from './StarButton';
+import CollectionPicker from './CollectionPicker';
+import CompareToggle from './CompareToggle';
+import HealthBadge from './HealthBadge';
+import ReleaseBadge from './ReleaseBadge';
+import NewSinceBadge from './NewSinceBadge';
 
 interface RepoCardProps {
   repo: GitHubRepo;
   onUserClick: (username: string) => void;
   onLanguageClick?: (language: string) => void;
+  onRepoClick?: (repo: GitHubRepo) => void;
+  autoScoreHealth?: boolean;
 }
 
-const RepoCard: React.FC<RepoCardProps> = ({ repo, onUserClick, onLanguageClick }) => {
+const RepoCard: React.FC<RepoCardProps> = ({ repo, onUserClick, onLanguageClick, onRepoClick, autoScoreHealth }) => {
   const [copied, setCopied] = useState(false);
   
   // Language stats
@@ -75,6 +84,13 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo, onUserClick, onLanguageClick
       }
   };
 
+  const handleTitleClick = (e: React.MouseEvent) => {
+      // Let modified clicks open the deep link in a new tab
+      if (!onRepoClick || e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+      e.preventDefault();
+      onRepoClick(repo);
+  };
+
   // Prefer pushed_at for "Activity" freshness, fallback to updated_at
   const lastActiveDate = repo.pushed_at || repo.updated_at;
 
@@ -146,13 +162,15 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo, onUserClick, onLanguageClick
 
         {/* Title & Link */}
         <div className="mb-5 relative z-10">
+            <NewSinceBadge repo={repo} />
             <h3 className="text-xl md:text-2xl font-display font-medium text-zinc-900 dark:text-zinc-100 mb-2 leading-tight group-hover:text-black dark:group-hover:text-white transition-colors break-words">
             <a 
-                href={repo.html_url} 
-                target="_blank"
+                href={onRepoClick ? buildRepoHash({ owner: repo.owner.login, name: repo.name }) : repo.html_url}
+                target={onRepoClick ? undefined : "_blank"}
                 rel="noopener noreferrer"
+                onClick={handleTitleClick}
                 className="focus:outline-none flex items-baseline gap-2 group/link w-fit rounded-sm cursor-pointer"
-                aria-label={`Open repository ${repo.name} on GitHub`}
+                aria-label={onRepoClick ? `View details for ${repo.name}` : `Open repository ${repo.name} on GitHub`}
             >
                 <span className="hover:underline decoration-zinc-300 dark:decoration-zinc-700 underline-offset-4 decoration-1">{repo.name}</span>
                 <ArrowUpRight className="w-3.5 h-3.5 text-zinc-400 dark:text-zinc-600 opacity-0 -translate-y-1 translate-x-1 group-hover/link:opacity-100 group-hover/link:translate-y-0 group-hover/link:translate-x-0 transition-all duration-300 shrink-0" aria-hidden="true" />
@@ -179,7 +197,7 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo, onUserClick, onLanguageClick
       <div className="relative z-20 mt-auto min-w-0">
         {/* Footer Metrics */}
         <div className="flex flex-wrap items-center justify-between pt-5 md:pt-6 border-t border-zinc-200/60 dark:border-white/5 gap-y-3">
-            <div className="flex items-center gap-6 text-zinc-500 font-mono text-[11px] shrink-0" role="list" aria-label="Repository Statistics">
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-zinc-500 font-mono text-[11px] min-w-0" role="list" aria-label="Repository Statistics">
               <div role="listitem" className="flex items-center gap-1.5 group-hover:text-zinc-800 dark:group-hover:text-zinc-300 transition-colors cursor-help" title="Stars" aria-label={`${repo.stargazers_count} stars`}>
                   <Star className="w-3.5 h-3.5" strokeWidth={1.5} aria-hidden="true" />
                   <span>{formatNumber(repo.stargazers_count)}</span>
@@ -192,9 +210,19 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo, onUserClick, onLanguageClick
                   <Clock className="w-3.5 h-3.5" strokeWidth={1.5} aria-hidden="true" />
                   <span>{getLastUpdated(lastActiveDate)}</span>
               </div>
+              <div role="listitem">
+                  <HealthBadge repo={repo} autoScore={autoScoreHealth} />
+              </div>
+              <div role="listitem" className="min-w-0">
+                  <ReleaseBadge repo={repo} />
+              </div>
             </div>
 
             <div className="flex items-center gap-3 text-[11px] text-zinc-500 dark:text-zinc-500 uppercase tracking-wider font-semibold shrink-0 ml-auto sm:ml-0">
+                <StarButton repo={repo} />
+                <CollectionPicker repo={repo} />
+                <CompareToggle repo={repo} />
+
                 {/* Clone Button */}
                 <motion.button
                     whileTap={{ scale: 0.95 }}
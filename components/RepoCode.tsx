@@ -0,0 +1,423 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle, Check, ChevronDown, ChevronRight, ExternalLink, File, FileCode, Folder, FolderGit2, FolderOpen, GitBranch, Loader2, Tag } from 'lucide-react';
+import { FileContent, GitHubBranch, GitHubRepo, GitHubTag, GitHubTreeEntry } from '../types';
+import { getFileContent, getRefSha, getRepoBranches, getRepoTags, getRepoTree } from '../services/githubService';
+import { getLanguageForPath, highlightCode } from '../services/markup';
+
+interface RepoCodeProps {
+  repo: GitHubRepo;
+}
+
+interface Ref {
+  name: string;
+  sha: string | null; // Resolved on demand when only the name is known
+}
+
+const MAX_HIGHLIGHT_BYTES = 256 * 1024; // Larger files are shown as plain text
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp', 'ico'];
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+
+const parentOf = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+const nameOf = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// Directories first, then by name, the way GitHub lists them
+const sortEntries = (entries: GitHubTreeEntry[]) =>
+  [...entries].sort((a, b) => (a.type === 'tree' ? 0 : 1) - (b.type === 'tree' ? 0 : 1) || nameOf(a.path).localeCompare(nameOf(b.path)));
+
+const groupByDirectory = (entries: GitHubTreeEntry[]): Record<string, GitHubTreeEntry[]> => {
+  const groups: Record<string, GitHubTreeEntry[]> = {};
+  entries.forEach(entry => {
+    const parent = parentOf(entry.path);
+    (groups[parent] ||= []).push(entry);
+  });
+  Object.keys(groups).forEach(dir => {
+    groups[dir] = sortEntries(groups[dir]);
+  });
+  return groups;
+};
+
+const RefSwitcher: React.FC<{ repo: GitHubRepo; current: string; onSelect: (ref: Ref) => void }> = ({ repo, current, onSelect }) => {
+  const [open, setOpen] = useState(false);
+  const [refs, setRefs] = useState<{ branches: GitHubBranch[]; tags: GitHubTag[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+
+  // Branches and tags cost two requests, so they are only listed once the menu opens
+  useEffect(() => {
+    if (!open || refs) return;
+    let cancelled = false;
+    setError(null);
+    Promise.all([getRepoBranches(repo.owner.login, repo.name), getRepoTags(repo.owner.login, repo.name)])
+      .then(([branches, tagPage]) => !cancelled && setRefs({ branches, tags: tagPage.tags }))
+      .catch(err => !cancelled && setError(err.message || 'Failed to load branches'));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, refs, repo.owner.login, repo.name]);
+
+  const select = (ref: Ref) => {
+    setOpen(false);
+    setQuery('');
+    onSelect(ref);
+  };
+
+  const matches = (name: string) => name.toLowerCase().includes(query.trim().toLowerCase());
+  const groups: { label: string; icon: React.ElementType; items: { name: string; sha: string }[] }[] = refs ? [
+    { label: 'Branches', icon: GitBranch, items: refs.branches.filter(branch => matches(branch.name)).map(branch => ({ name: branch.name, sha: branch.commit.sha })) },
+    { label: 'Tags', icon: Tag, items: refs.tags.filter(tag => matches(tag.name)).map(tag => ({ name: tag.name, sha: tag.commit.sha })) },
+  ] : [];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-3 py-2 bg-zinc-100 dark:bg-white/5 border border-zinc-200 dark:border-white/10 rounded-md text-xs font-medium text-zinc-700 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-white/10 transition-colors max-w-[16rem]"
+        aria-haspopup="listbox"
+        aria-expanded={open}
+      >
+        <GitBranch className="w-3.5 h-3.5 shrink-0" />
+        <span className="truncate font-mono">{current}</span>
+        <ChevronDown className={`w-3 h-3 shrink-0 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <>
+            <div className="fixed inset-0 z-40" onClick={() => setOpen(false)}></div>
+            <motion.div
+              initial={{ opacity: 0, y: 5 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 5 }}
+              className="absolute left-0 top-full mt-2 w-72 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-lg shadow-xl z-50 overflow-hidden"
+            >
+              <div className="p-2 border-b border-zinc-100 dark:border-zinc-800">
+                <input
+                  autoFocus
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Find a branch or tag"
+                  className="w-full px-3 py-2 bg-zinc-50 dark:bg-zinc-800 border border-zinc-200 dark:border-white/10 rounded-md text-sm focus:outline-none"
+                />
+              </div>
+              <div className="max-h-80 overflow-y-auto p-2" role="listbox">
+                {error ? (
+                  <p className="px-3 py-2 text-xs text-red-500">{error}</p>
+                ) : !refs ? (
+                  <div className="flex justify-center py-6"><Loader2 className="w-5 h-5 animate-spin text-zinc-400" /></div>
+                ) : groups.map(group => group.items.length > 0 && (
+                  <div key={group.label} className="mb-2 last:mb-0">
+                    <div className="text-[10px] uppercase tracking-wider text-zinc-500 px-3 py-2 font-semibold">{group.label}</div>
+                    {group.items.map(item => (
+                      <button
+                        key={item.name}
+                        onClick={() => select(item)}
+                        className="w-full flex items-center justify-between gap-2 px-3 py-1.5 text-sm text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 rounded-md text-left"
+                        role="option"
+                        aria-selected={item.name === current}
+                      >
+                        <span className="flex items-center gap-2 min-w-0">
+                          <group.icon className="w-3.5 h-3.5 text-zinc-400 shrink-0" />
+                          <span className="truncate font-mono text-xs">{item.name}</span>
+                        </span>
+                        {item.name === current && <Check className="w-4 h-4 shrink-0" />}
+                      </button>
+                    ))}
+                  </div>
+                ))}
+                {refs && groups.every(group => group.items.length === 0) && (
+                  <p className="px-3 py-2 text-xs text-zinc-500">Nothing matches.</p>
+                )}
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+interface FileTreeProps {
+  dir: string;
+  depth: number;
+  listing: Record<string, GitHubTreeEntry[]>;
+  expanded: Set<string>;
+  loadingDirs: Set<string>;
+  selected: string | null;
+  onToggle: (entry: GitHubTreeEntry) => void;
+  onOpen: (entry: GitHubTreeEntry) => void;
+}
+
+const FileTree: React.FC<FileTreeProps> = ({ dir, depth, listing, expanded, loadingDirs, selected, onToggle, onOpen }) => (
+  <ul role={depth === 0 ? 'tree' : 'group'}>
+    {(listing[dir] || []).map(entry => {
+      const isOpen = expanded.has(entry.path);
+      const indent = { paddingLeft: `${depth * 12 + 8}px` };
+
+      if (entry.type === 'commit') {
+        return (
+          <li key={entry.path} role="treeitem" className="flex items-center gap-1.5 py-1 pr-2 text-xs text-zinc-400" style={indent} title={`Submodule at ${entry.sha.slice(0, 7)}`}>
+            <span className="w-3" />
+            <FolderGit2 className="w-3.5 h-3.5 shrink-0" />
+            <span className="truncate">{nameOf(entry.path)}</span>
+          </li>
+        );
+      }
+
+      if (entry.type === 'tree') {
+        return (
+          <li key={entry.path} role="treeitem" aria-expanded={isOpen}>
+            <button
+              onClick={() => onToggle(entry)}
+              className="w-full flex items-center gap-1.5 py-1 pr-2 text-xs text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-white/5 rounded text-left"
+              style={indent}
+            >
+              {loadingDirs.has(entry.path)
+                ? <Loader2 className="w-3 h-3 shrink-0 animate-spin" />
+                : isOpen ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+              {isOpen ? <FolderOpen className="w-3.5 h-3.5 shrink-0 text-sky-500" /> : <Folder className="w-3.5 h-3.5 shrink-0 text-sky-500" />}
+              <span className="truncate">{nameOf(entry.path)}</span>
+            </button>
+            {isOpen && listing[entry.path] && (
+              <FileTree dir={entry.path} depth={depth + 1} listing={listing} expanded={expanded} loadingDirs={loadingDirs} selected={selected} onToggle={onToggle} onOpen={onOpen} />
+            )}
+          </li>
+        );
+      }
+
+      return (
+        <li key={entry.path} role="treeitem" aria-selected={selected === entry.path}>
+          <button
+            onClick={() => onOpen(entry)}
+            className={`w-full flex items-center gap-1.5 py-1 pr-2 text-xs rounded text-left transition-colors ${
+              selected === entry.path
+                ? 'bg-zinc-900 text-white dark:bg-white dark:text-zinc-900'
+                : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-white/5'
+            }`}
+            style={indent}
+          >
+            <span className="w-3 shrink-0" />
+            {getLanguageForPath(entry.path) ? <FileCode className="w-3.5 h-3.5 shrink-0" /> : <File className="w-3.5 h-3.5 shrink-0" />}
+            <span className="truncate">{nameOf(entry.path)}</span>
+          </button>
+        </li>
+      );
+    })}
+  </ul>
+);
+
+const SourceView: React.FC<{ path: string; text: string; size: number }> = ({ path, text, size }) => {
+  const highlighted = useMemo(
+    () => size <= MAX_HIGHLIGHT_BYTES ? highlightCode(text, getLanguageForPath(path) ?? 'plaintext') : null,
+    [path, text, size]
+  );
+  const lineCount = (text.endsWith('\n') ? text.slice(0, -1) : text).split('\n').length;
+
+  return (
+    <div className="flex overflow-auto max-h-[70vh] bg-[#282c34] text-[12px] leading-5 font-mono">
+      <pre className="sticky left-0 shrink-0 py-4 pl-4 pr-3 text-right text-zinc-500 select-none bg-[#282c34] border-r border-white/5" aria-hidden="true">
+        {Array.from({ length: lineCount }, (_, i) => i + 1).join('\n')}
+      </pre>
+      {highlighted !== null ? (
+        <pre className="flex-1 py-4 px-4"><code className="hljs !bg-transparent !p-0" dangerouslySetInnerHTML={{ __html: highlighted }} /></pre>
+      ) : (
+        <pre className="flex-1 py-4 px-4 text-zinc-300"><code>{text}</code></pre>
+      )}
+    </div>
+  );
+};
+
+const RepoCode: React.FC<RepoCodeProps> = ({ repo }) => {
+  const [ref, setRef] = useState<Ref>({ name: repo.default_branch, sha: null });
+  const [children, setChildren] = useState<Record<string, GitHubTreeEntry[]>>({});
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [loadingDirs, setLoadingDirs] = useState<Set<string>>(new Set());
+  // A truncated recursive listing leaves directories to be read as they are opened
+  const [lazy, setLazy] = useState(false);
+  const [treeLoading, setTreeLoading] = useState(true);
+  const [treeError, setTreeError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  const [selected, setSelected] = useState<GitHubTreeEntry | null>(null);
+  const [file, setFile] = useState<FileContent | null>(null);
+  const [fileLoading, setFileLoading] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const openedFile = useRef<string | null>(null);
+
+  // Bumped whenever a new tree loads, so directories read for an older one are dropped
+  const treeGeneration = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const generation = ++treeGeneration.current;
+    setTreeLoading(true);
+    setTreeError(null);
+    setChildren({});
+    setExpanded(new Set());
+    setLoadingDirs(new Set());
+    setSelected(null);
+    setFile(null);
+    openedFile.current = null;
+
+    const load = async () => {
+      const sha = ref.sha ?? await getRefSha(repo.owner.login, repo.name, ref.name);
+      if (cancelled) return;
+      if (!ref.sha) setRef(prev => prev.name === ref.name ? { ...prev, sha } : prev);
+
+      const tree = await getRepoTree(repo.owner.login, repo.name, sha, true);
+      if (!tree.truncated) {
+        if (!cancelled) {
+          setLazy(false);
+          setChildren(groupByDirectory(tree.entries));
+        }
+        return;
+      }
+      const root = await getRepoTree(repo.owner.login, repo.name, tree.sha, false);
+      if (!cancelled) {
+        setLazy(true);
+        setChildren({ '': sortEntries(root.entries) });
+      }
+    };
+
+    load()
+      .catch(err => !cancelled && setTreeError(err.message || 'Failed to load files'))
+      .finally(() => !cancelled && setTreeLoading(false));
+    return () => {
+      cancelled = true;
+    };
+    // The SHA is filled in by this effect once the name is resolved, which must not reload the tree
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [repo.owner.login, repo.name, ref.name, attempt]);
+
+  const handleToggle = (entry: GitHubTreeEntry) => {
+    const isOpen = expanded.has(entry.path);
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (isOpen) next.delete(entry.path);
+      else next.add(entry.path);
+      return next;
+    });
+    if (isOpen || !lazy || children[entry.path] || loadingDirs.has(entry.path)) return;
+
+    const generation = treeGeneration.current;
+    setLoadingDirs(prev => new Set(prev).add(entry.path));
+    getRepoTree(repo.owner.login, repo.name, entry.sha, false)
+      .then(tree => {
+        if (generation !== treeGeneration.current) return;
+        const entries = tree.entries.map(child => ({ ...child, path: `${entry.path}/${child.path}` }));
+        setChildren(prev => ({ ...prev, [entry.path]: sortEntries(entries) }));
+      })
+      .catch(err => {
+        console.warn('Error fetching directory', err);
+        setExpanded(prev => {
+          const next = new Set(prev);
+          next.delete(entry.path);
+          return next;
+        });
+      })
+      .finally(() => setLoadingDirs(prev => {
+        const next = new Set(prev);
+        next.delete(entry.path);
+        return next;
+      }));
+  };
+
+  const handleOpen = (entry: GitHubTreeEntry) => {
+    if (!ref.sha) return;
+    setSelected(entry);
+    setFile(null);
+    setFileError(null);
+    setFileLoading(true);
+    openedFile.current = entry.sha;
+    getFileContent(repo.owner.login, repo.name, entry.path, ref.sha, entry.sha)
+      .then(content => openedFile.current === entry.sha && setFile(content))
+      .catch(err => openedFile.current === entry.sha && setFileError(err.message || 'Failed to load file'))
+      .finally(() => openedFile.current === entry.sha && setFileLoading(false));
+  };
+
+  const blobUrl = selected && ref.sha ? `${repo.html_url}/blob/${ref.sha}/${selected.path.split('/').map(encodeURIComponent).join('/')}` : null;
+  const extension = selected ? nameOf(selected.path).split('.').pop()?.toLowerCase() || '' : '';
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-display text-zinc-900 dark:text-white">Code</h2>
+        <RefSwitcher repo={repo} current={ref.name} onSelect={setRef} />
+      </div>
+
+      {lazy && (
+        <div className="flex items-center gap-3 p-3 mb-4 rounded bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-900/30 text-amber-800 dark:text-amber-200 text-xs">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          This repository is too large to list at once, so folders are read as you open them.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-[minmax(220px,280px)_1fr] gap-4 min-h-[400px]">
+        <nav className="border border-zinc-200 dark:border-white/5 rounded-lg p-2 max-h-[70vh] overflow-y-auto bg-white dark:bg-zinc-900/50" aria-label="Files">
+          {treeError ? (
+            <div className="flex flex-col items-center text-center gap-3 py-10 px-4">
+              <AlertTriangle className="w-6 h-6 text-red-400" />
+              <span className="text-xs text-red-500">{treeError}</span>
+              <button onClick={() => setAttempt(prev => prev + 1)} className="text-xs uppercase tracking-wider font-medium text-red-600 dark:text-red-300 hover:underline">Retry</button>
+            </div>
+          ) : treeLoading ? (
+            <div className="flex justify-center py-10"><Loader2 className="w-6 h-6 animate-spin text-zinc-400" /></div>
+          ) : (children[''] || []).length === 0 ? (
+            <p className="text-xs text-zinc-500 italic p-4">This repository is empty.</p>
+          ) : (
+            <FileTree dir="" depth={0} listing={children} expanded={expanded} loadingDirs={loadingDirs} selected={selected?.path ?? null} onToggle={handleToggle} onOpen={handleOpen} />
+          )}
+        </nav>
+
+        <section className="border border-zinc-200 dark:border-white/5 rounded-lg overflow-hidden min-w-0 flex flex-col">
+          {!selected ? (
+            <div className="flex-1 flex flex-col items-center justify-center text-zinc-400 py-20">
+              <FileCode className="w-8 h-8 mb-3" />
+              <span className="text-xs uppercase tracking-widest">Select a file to view</span>
+            </div>
+          ) : (
+            <>
+              <header className="flex items-center justify-between gap-3 px-4 py-2 border-b border-zinc-200 dark:border-white/5 bg-zinc-50 dark:bg-white/5 text-xs">
+                <span className="font-mono text-zinc-700 dark:text-zinc-300 truncate" title={selected.path}>{selected.path}</span>
+                <span className="flex items-center gap-3 shrink-0 text-zinc-500">
+                  {file && <span className="font-mono">{formatSize(file.size)}</span>}
+                  {blobUrl && (
+                    <a href={blobUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 hover:text-zinc-900 dark:hover:text-zinc-200">
+                      GitHub <ExternalLink className="w-3 h-3" />
+                    </a>
+                  )}
+                </span>
+              </header>
+
+              {fileError ? (
+                <div className="flex items-center gap-3 m-4 p-4 rounded bg-red-50 dark:bg-red-900/10 border border-red-200 dark:border-red-900/30 text-red-600 dark:text-red-300 text-sm">
+                  <AlertTriangle className="w-4 h-4 shrink-0" /> {fileError}
+                </div>
+              ) : fileLoading || !file ? (
+                <div className="flex-1 flex justify-center py-20"><Loader2 className="w-6 h-6 animate-spin text-zinc-400" /></div>
+              ) : file.text !== null ? (
+                <SourceView path={selected.path} text={file.text} size={file.size} />
+              ) : file.binary && IMAGE_EXTENSIONS.includes(extension) && ref.sha ? (
+                <div className="flex-1 flex items-center justify-center p-8 bg-zinc-100 dark:bg-zinc-800/50">
+                  <img
+                    src={`https://raw.githubusercontent.com/${repo.owner.login}/${repo.name}/${ref.sha}/${selected.path.split('/').map(encodeURIComponent).join('/')}`}
+                    alt={nameOf(selected.path)}
+                    className="max-w-full max-h-[60vh]"
+                  />
+                </div>
+              ) : (
+                <p className="flex-1 flex items-center justify-center py-20 text-sm text-zinc-500 italic">
+                  {file.binary ? 'Binary file not shown.' : `This file is too large to show here (${formatSize(file.size)}).`}
+                </p>
+              )}
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default RepoCode;
@@ -1,57 +1,115 @@
 
 import React, { useState, useEffect } from 'react';
-import { GitHubRepo, GitHubIssue, GitHubLabel, IssueFilterState } from '../types';
-import { getRepoLanguages, getRepoIssues, getRepoLabels } from '../services/githubService';
-import { ArrowLeft, Star, GitFork, AlertCircle, MessageSquare, ExternalLink, ChevronDown, Check, ArrowDown, ArrowUp, Loader2, Ban, AlertTriangle } from 'lucide-react';
+import { GitHubRepo, GitHubIssue, GitHubLabel, GitHubMilestone, IssueFilterState } from '../types';
+import { getRepoLanguages, getRepoIssues, getRepoLabels, getRepoMilestones } from '../services/githubService';
+import { ArrowLeft, Star, GitFork, AlertCircle, MessageSquare, ExternalLink, ChevronDown, Check, ArrowDown, ArrowUp, Loader2, Ban, AlertTriangle, BookOpen, Activity, GitPullRequest, CheckCircle2, SlidersHorizontal, Tag, Code2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { LANGUAGES_COLORS } from '../constants';
+import { DEFAULT_ISSUE_FILTERS, LANGUAGES_COLORS } from '../constants';
+import RepoReadme from './RepoReadme';
+import RepoCode from './RepoCode';
+import RepoActivity from './RepoActivity';
+import RepoPullRequests from './RepoPullRequests';
+import RepoReleases from './RepoReleases';
+import IssueDrawer from './IssueDrawer';
+import StarButton from './StarButton';
+import StarHistoryChart from './StarHistoryChart';
 
 interface RepoDetailProps {
   repo: GitHubRepo;
   onReturn: () => void;
 }
 
+type RepoTab = 'readme' | 'code' | 'issues' | 'pulls' | 'releases' | 'activity';
+
+const TABS: { id: RepoTab; label: string; icon: React.ElementType }[] = [
+  { id: 'readme', label: 'Readme', icon: BookOpen },
+  { id: 'code', label: 'Code', icon: Code2 },
+  { id: 'issues', label: 'Issues', icon: AlertCircle },
+  { id: 'pulls', label: 'Pull Requests', icon: GitPullRequest },
+  { id: 'releases', label: 'Releases', icon: Tag },
+  { id: 'activity', label: 'Activity', icon: Activity },
+];
+
+const ISSUE_STATES: { id: IssueFilterState['state']; label: string }[] = [
+  { id: 'open', label: 'Open' },
+  { id: 'closed', label: 'Closed' },
+  { id: 'all', label: 'All' },
+];
+
+type IssueQueryFilters = Pick<IssueFilterState, 'assignee' | 'creator' | 'mentioned' | 'milestone' | 'since'>;
+
+const QUERY_FIELDS: { id: 'creator' | 'assignee' | 'mentioned'; label: string; placeholder: string }[] = [
+  { id: 'creator', label: 'Author', placeholder: 'login' },
+  { id: 'assignee', label: 'Assignee', placeholder: "login, * or none" },
+  { id: 'mentioned', label: 'Mentions', placeholder: 'login' },
+];
+
 const RepoDetail: React.FC<RepoDetailProps> = ({ repo, onReturn }) => {
+  const [activeTab, setActiveTab] = useState<RepoTab>('readme');
   const [languages, setLanguages] = useState<Record<string, number>>({});
   const [issues, setIssues] = useState<GitHubIssue[]>([]);
   const [labels, setLabels] = useState<GitHubLabel[]>([]);
+  const [milestones, setMilestones] = useState<GitHubMilestone[]>([]);
   const [loadingIssues, setLoadingIssues] = useState(false);
+  const [loadingMoreIssues, setLoadingMoreIssues] = useState(false);
+  const [nextIssuesPage, setNextIssuesPage] = useState<number | null>(null);
   const [issuesError, setIssuesError] = useState<string | null>(null);
-  const [issueFilters, setIssueFilters] = useState<IssueFilterState>({
-    sort: 'created',
-    direction: 'desc',
-    labels: [],
-  });
+  const [issueFilters, setIssueFilters] = useState<IssueFilterState>(DEFAULT_ISSUE_FILTERS);
+  // Index of the issue shown in the drawer, within the loaded list
+  const [openIssue, setOpenIssue] = useState<number | null>(null);
+  // Typed values wait for "Apply" so each keystroke does not cost a request
+  const [queryDraft, setQueryDraft] = useState<IssueQueryFilters>(DEFAULT_ISSUE_FILTERS);
 
   // Dropdown states
   const [showSortMenu, setShowSortMenu] = useState(false);
   const [showLabelMenu, setShowLabelMenu] = useState(false);
+  const [showQueryMenu, setShowQueryMenu] = useState(false);
 
   useEffect(() => {
     // Fetch Languages
     getRepoLanguages(repo.owner.login, repo.name).then(setLanguages);
     // Fetch Labels
     getRepoLabels(repo.owner.login, repo.name).then(setLabels);
+    // Fetch Milestones
+    getRepoMilestones(repo.owner.login, repo.name).then(setMilestones);
   }, [repo]);
 
+  const loadIssues = (page: number) => {
+    const append = page > 1;
+    if (append) setLoadingMoreIssues(true);
+    else setLoadingIssues(true);
+    setIssuesError(null);
+    getRepoIssues(repo.owner.login, repo.name, issueFilters, page)
+        .then(result => {
+            setIssues(prev => append ? [...prev, ...result.issues.filter(issue => !prev.some(p => p.id === issue.id))] : result.issues);
+            setNextIssuesPage(result.nextPage);
+        })
+        .catch(err => {
+            setIssuesError(err.message || "Failed to load issues");
+            if (!append) setIssues([]);
+        })
+        .finally(() => {
+            setLoadingIssues(false);
+            setLoadingMoreIssues(false);
+        });
+  };
+
   useEffect(() => {
+    // Issues are only requested once their tab is opened
+    if (activeTab !== 'issues') return;
+
     if (repo.has_issues === false) {
         setLoadingIssues(false);
         setIssues([]);
+        setNextIssuesPage(null);
         return;
     }
 
-    // Fetch Issues when filters change
-    setLoadingIssues(true);
-    setIssuesError(null);
-    getRepoIssues(repo.owner.login, repo.name, issueFilters)
-        .then(setIssues)
-        .catch(err => {
-            setIssuesError(err.message || "Failed to load issues");
-            setIssues([]);
-        })
-        .finally(() => setLoadingIssues(false));
-  }, [repo, issueFilters]);
+    // Fetch the first page again when filters change
+    setOpenIssue(null);
+    loadIssues(1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [repo, issueFilters, activeTab]);
 
   // Cast Object.values to number[] to avoid TS error 'Type unknown is not assignable to type number'
   const totalBytes: number = (Object.values(languages) as number[]).reduce((acc: number, curr: number) => acc + curr, 0);
@@ -85,6 +143,29 @@ const RepoDetail: React.FC<RepoDetailProps> = ({ repo, onReturn }) => {
       setShowSortMenu(false);
   };
 
+  // Plain clicks open the drawer; modified clicks keep the link's new-tab behaviour
+  const handleIssueClick = (e: React.MouseEvent, index: number) => {
+      if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+      e.preventDefault();
+      setOpenIssue(index);
+  };
+
+  const handleQuerySubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      setIssueFilters(prev => ({ ...prev, ...queryDraft }));
+      setShowQueryMenu(false);
+  };
+
+  const handleQueryReset = () => {
+      const { assignee, creator, mentioned, milestone, since } = DEFAULT_ISSUE_FILTERS;
+      setQueryDraft({ assignee, creator, mentioned, milestone, since });
+      setIssueFilters(prev => ({ ...prev, assignee, creator, mentioned, milestone, since }));
+      setShowQueryMenu(false);
+  };
+
+  const activeQueryCount = (['assignee', 'creator', 'mentioned', 'milestone', 'since'] as const)
+      .filter(key => issueFilters[key].trim() !== '').length;
+
   return (
     <div className="w-full min-h-[calc(100vh-96px)] bg-zinc-50 dark:bg-zinc-950 flex flex-col pt-8 pb-20 px-4 md:px-12 overflow-y-auto">
       <div className="max-w-7xl w-full mx-auto animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -127,6 +208,7 @@ const RepoDetail: React.FC<RepoDetailProps> = ({ repo, onReturn }) => {
                     <span className="font-bold text-lg">{repo.forks_count.toLocaleString()}</span>
                     <span className="text-[10px] uppercase tracking-wider text-zinc-500">Forks</span>
                 </div>
+                <StarButton repo={repo} variant="tile" />
                 <a 
                     href={repo.html_url} 
                     target="_blank" 
@@ -167,7 +249,43 @@ const RepoDetail: React.FC<RepoDetailProps> = ({ repo, onReturn }) => {
             </div>
         </div>
 
+        {/* Star History */}
+        <div className="mb-16">
+            <h3 className="text-sm uppercase tracking-widest font-medium text-zinc-500 mb-4">Star History</h3>
+            <StarHistoryChart repo={repo} />
+        </div>
+
+        {/* Tabs */}
+        <div className="flex items-center gap-1 border-b border-zinc-200 dark:border-white/5 mb-8 overflow-x-auto no-scrollbar">
+            {TABS.map(tab => (
+                <button
+                    key={tab.id}
+                    onClick={() => setActiveTab(tab.id)}
+                    className={`relative flex items-center gap-2 px-4 py-3 text-[11px] uppercase tracking-[0.2em] font-medium transition-colors whitespace-nowrap ${
+                        activeTab === tab.id
+                        ? 'text-zinc-900 dark:text-white'
+                        : 'text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200'
+                    }`}
+                >
+                    <tab.icon className="w-3.5 h-3.5" />
+                    {tab.label}
+                    {activeTab === tab.id && (
+                        <motion.span layoutId="repoTab" className="absolute left-0 right-0 -bottom-px h-px bg-zinc-900 dark:bg-white" />
+                    )}
+                </button>
+            ))}
+        </div>
+
+        {activeTab === 'readme' && <RepoReadme repo={repo} />}
+        {activeTab === 'code' && <RepoCode key={repo.full_name} repo={repo} />}
+
+        {activeTab === 'pulls' && <RepoPullRequests repo={repo} />}
+        {activeTab === 'releases' && <RepoReleases repo={repo} />}
+
+        {activeTab === 'activity' && <RepoActivity repo={repo} />}
+
         {/* Issues Explorer */}
+        {activeTab === 'issues' && (
         <div>
             <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
                 <h2 className="text-2xl font-display text-zinc-900 dark:text-white">Issues & Tasks</h2>
@@ -175,6 +293,23 @@ const RepoDetail: React.FC<RepoDetailProps> = ({ repo, onReturn }) => {
                 {repo.has_issues !== false && (
                     /* Filters Toolbar */
                     <div className="flex flex-wrap items-center gap-3">
+
+                        {/* State */}
+                        <div className="flex rounded-md border border-zinc-200 dark:border-white/10 overflow-hidden text-xs font-medium">
+                            {ISSUE_STATES.map(state => (
+                                <button
+                                    key={state.id}
+                                    onClick={() => setIssueFilters(prev => ({ ...prev, state: state.id }))}
+                                    className={`px-3 py-2 transition-colors ${
+                                        issueFilters.state === state.id
+                                        ? 'bg-zinc-900 text-white dark:bg-white dark:text-zinc-900'
+                                        : 'bg-zinc-100 dark:bg-white/5 hover:bg-zinc-200 dark:hover:bg-white/10'
+                                    }`}
+                                >
+                                    {state.label}
+                                </button>
+                            ))}
+                        </div>
                         
                         {/* Sort Dropdown - Screenshot Style */}
                         <div className="relative">
@@ -271,6 +406,79 @@ const RepoDetail: React.FC<RepoDetailProps> = ({ repo, onReturn }) => {
                             </AnimatePresence>
                         </div>
 
+                        {/* People, Milestone and Date Filters */}
+                        <div className="relative">
+                            <button 
+                                onClick={() => setShowQueryMenu(!showQueryMenu)}
+                                className={`flex items-center gap-2 px-3 py-2 border rounded-md text-xs font-medium transition-colors ${activeQueryCount > 0 ? 'bg-zinc-900 text-white border-zinc-900 dark:bg-white dark:text-zinc-900' : 'bg-zinc-100 dark:bg-white/5 border-zinc-200 dark:border-white/10 hover:bg-zinc-200'}`}
+                            >
+                                <SlidersHorizontal className="w-3 h-3" />
+                                <span>Filters {activeQueryCount > 0 && `(${activeQueryCount})`}</span>
+                            </button>
+
+                            <AnimatePresence>
+                                {showQueryMenu && (
+                                    <>
+                                    <div className="fixed inset-0 z-40" onClick={() => setShowQueryMenu(false)}></div>
+                                    <motion.form 
+                                        initial={{ opacity: 0, y: 5 }}
+                                        animate={{ opacity: 1, y: 0 }}
+                                        exit={{ opacity: 0, y: 5 }}
+                                        onSubmit={handleQuerySubmit}
+                                        className="absolute right-0 top-full mt-2 w-72 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-lg shadow-xl z-50 p-4 space-y-3"
+                                    >
+                                        {QUERY_FIELDS.map(field => (
+                                            <label key={field.id} className="block">
+                                                <span className="text-[10px] uppercase tracking-wider text-zinc-500 font-semibold">{field.label}</span>
+                                                <input
+                                                    type="text"
+                                                    value={queryDraft[field.id]}
+                                                    onChange={(e) => setQueryDraft(prev => ({ ...prev, [field.id]: e.target.value }))}
+                                                    placeholder={field.placeholder}
+                                                    className="mt-1 w-full px-3 py-2 text-sm bg-zinc-50 dark:bg-white/5 border border-zinc-200 dark:border-white/10 rounded-md focus:outline-none focus:border-zinc-400 dark:focus:border-white/30"
+                                                />
+                                            </label>
+                                        ))}
+                                        <label className="block">
+                                            <span className="text-[10px] uppercase tracking-wider text-zinc-500 font-semibold">Milestone</span>
+                                            <select
+                                                value={queryDraft.milestone}
+                                                onChange={(e) => setQueryDraft(prev => ({ ...prev, milestone: e.target.value }))}
+                                                className="mt-1 w-full px-3 py-2 text-sm bg-zinc-50 dark:bg-zinc-800 border border-zinc-200 dark:border-white/10 rounded-md focus:outline-none"
+                                            >
+                                                <option value="">Any</option>
+                                                <option value="*">Any milestone</option>
+                                                <option value="none">No milestone</option>
+                                                {milestones.map(milestone => (
+                                                    <option key={milestone.id} value={String(milestone.number)}>
+                                                        {milestone.title}{milestone.state === 'closed' ? ' (closed)' : ''}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                        <label className="block">
+                                            <span className="text-[10px] uppercase tracking-wider text-zinc-500 font-semibold">Updated since</span>
+                                            <input
+                                                type="date"
+                                                value={queryDraft.since}
+                                                onChange={(e) => setQueryDraft(prev => ({ ...prev, since: e.target.value }))}
+                                                className="mt-1 w-full px-3 py-2 text-sm bg-zinc-50 dark:bg-white/5 border border-zinc-200 dark:border-white/10 rounded-md focus:outline-none"
+                                            />
+                                        </label>
+                                        <div className="flex justify-between pt-1">
+                                            <button type="button" onClick={handleQueryReset} className="px-3 py-2 text-xs uppercase tracking-wider text-zinc-500 hover:text-zinc-900 dark:hover:text-white">
+                                                Reset
+                                            </button>
+                                            <button type="submit" className="px-4 py-2 text-xs uppercase tracking-wider font-medium bg-zinc-900 text-white dark:bg-white dark:text-zinc-900 rounded-md hover:opacity-90">
+                                                Apply
+                                            </button>
+                                        </div>
+                                    </motion.form>
+                                    </>
+                                )}
+                            </AnimatePresence>
+                        </div>
+
                     </div>
                 )}
             </div>
@@ -287,17 +495,7 @@ const RepoDetail: React.FC<RepoDetailProps> = ({ repo, onReturn }) => {
                         <AlertTriangle className="w-8 h-8 text-red-400 mb-4" />
                         <span className="text-red-500 dark:text-red-400 font-medium">{issuesError}</span>
                         <button 
-                            onClick={() => {
-                                setLoadingIssues(true);
-                                setIssuesError(null);
-                                getRepoIssues(repo.owner.login, repo.name, issueFilters)
-                                    .then(setIssues)
-                                    .catch(err => {
-                                        setIssuesError(err.message || "Failed to load issues");
-                                        setIssues([]);
-                                    })
-                                    .finally(() => setLoadingIssues(false));
-                            }}
+                            onClick={() => loadIssues(1)}
                             className="mt-4 px-4 py-2 text-xs uppercase tracking-wider font-medium text-red-600 dark:text-red-300 border border-red-200 dark:border-red-800 rounded hover:bg-red-100 dark:hover:bg-red-900/20 transition-colors"
                         >
                             Retry
@@ -310,23 +508,24 @@ const RepoDetail: React.FC<RepoDetailProps> = ({ repo, onReturn }) => {
                     </div>
                 ) : issues.length === 0 ? (
                     <div className="w-full py-20 flex flex-col items-center justify-center border border-dashed border-zinc-300 dark:border-zinc-700 rounded-lg">
-                        <p className="text-zinc-500 font-serif italic text-lg">No open issues found.</p>
+                        <p className="text-zinc-500 font-serif italic text-lg">No {issueFilters.state === 'all' ? '' : `${issueFilters.state} `}issues found.</p>
                     </div>
                 ) : (
-                    issues.map(issue => (
+                    issues.map((issue, index) => (
                         <motion.a 
                             key={issue.id}
                             href={issue.html_url}
                             target="_blank"
                             rel="noopener noreferrer"
+                            onClick={(e) => handleIssueClick(e, index)}
                             initial={{ opacity: 0, y: 10 }}
                             animate={{ opacity: 1, y: 0 }}
                             className="block group bg-white dark:bg-zinc-900/50 border border-zinc-200 dark:border-white/5 p-4 rounded-lg hover:border-zinc-400 dark:hover:border-white/20 transition-all"
                         >
                             <div className="flex items-start justify-between gap-4">
                                 <div className="flex items-start gap-3 min-w-0">
-                                    <div className="mt-1 shrink-0 text-green-600 dark:text-green-500">
-                                        <AlertCircle className="w-4 h-4" />
+                                    <div className={`mt-1 shrink-0 ${issue.state === 'closed' ? 'text-purple-500' : 'text-green-600 dark:text-green-500'}`}>
+                                        {issue.state === 'closed' ? <CheckCircle2 className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
                                     </div>
                                     <div className="min-w-0">
                                         <h4 className="text-sm font-medium text-zinc-900 dark:text-zinc-100 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors leading-snug break-words">
@@ -364,9 +563,34 @@ const RepoDetail: React.FC<RepoDetailProps> = ({ repo, onReturn }) => {
                         </motion.a>
                     ))
                 )}
+
+                {nextIssuesPage !== null && !loadingIssues && !issuesError && (
+                    <button
+                        onClick={() => loadIssues(nextIssuesPage)}
+                        disabled={loadingMoreIssues}
+                        className="w-full flex items-center justify-center gap-2 py-3 text-xs uppercase tracking-widest font-medium text-zinc-500 border border-zinc-200 dark:border-white/10 rounded-lg hover:text-zinc-900 dark:hover:text-white hover:border-zinc-400 dark:hover:border-white/20 transition-colors disabled:opacity-60"
+                    >
+                        {loadingMoreIssues ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Load more'}
+                    </button>
+                )}
             </div>
         </div>
+        )}
       </div>
+
+      <AnimatePresence>
+        {openIssue !== null && issues[openIssue] && (
+            <IssueDrawer
+                key="issue-drawer"
+                repo={repo}
+                issue={issues[openIssue]}
+                position={`${openIssue + 1} of ${issues.length}`}
+                onPrevious={openIssue > 0 ? () => setOpenIssue(openIssue - 1) : null}
+                onNext={openIssue < issues.length - 1 ? () => setOpenIssue(openIssue + 1) : null}
+                onClose={() => setOpenIssue(null)}
+            />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
@@ -0,0 +1,293 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Check, Eye, FileDiff, GitMerge, GitPullRequest, GitPullRequestClosed, GitPullRequestDraft, Loader2, MessageSquare, Timer, X } from 'lucide-react';
+import { GitHubPullRequest, GitHubRepo, MergeStats, PullRequestDetails, PullRequestFilterState, PullRequestState, ReviewStatus } from '../types';
+import { getMergeStats, getPullRequestDetails, getRepoPulls } from '../services/githubService';
+
+interface RepoPullRequestsProps {
+  repo: GitHubRepo;
+}
+
+const STATES: { id: PullRequestState; label: string }[] = [
+  { id: 'open', label: 'Open' },
+  { id: 'merged', label: 'Merged' },
+  { id: 'closed', label: 'Closed' },
+];
+
+const SORTS: { id: PullRequestFilterState['sort']; label: string }[] = [
+  { id: 'created', label: 'Newest' },
+  { id: 'updated', label: 'Updated' },
+  { id: 'popularity', label: 'Most discussed' },
+];
+
+const REVIEW_BADGES: Record<Exclude<ReviewStatus, 'none'>, { label: string; icon: React.ElementType; className: string }> = {
+  approved: { label: 'Approved', icon: Check, className: 'text-emerald-700 dark:text-emerald-300 border-emerald-200 dark:border-emerald-900/50 bg-emerald-50 dark:bg-emerald-900/10' },
+  changes_requested: { label: 'Changes requested', icon: X, className: 'text-red-700 dark:text-red-300 border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-900/10' },
+  review_requested: { label: 'Review requested', icon: Eye, className: 'text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-900/50 bg-amber-50 dark:bg-amber-900/10' },
+  commented: { label: 'Reviewed', icon: MessageSquare, className: 'text-zinc-600 dark:text-zinc-300 border-zinc-200 dark:border-white/10 bg-zinc-50 dark:bg-white/5' },
+};
+
+const formatDuration = (hours: number) => {
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`;
+  if (hours < 48) return `${Math.round(hours)}h`;
+  return `${Math.round(hours / 24)}d`;
+};
+
+const getStateIcon = (pull: GitHubPullRequest) => {
+  if (pull.merged_at) return { icon: GitMerge, className: 'text-purple-500', label: 'Merged' };
+  if (pull.state === 'closed') return { icon: GitPullRequestClosed, className: 'text-red-500', label: 'Closed' };
+  if (pull.draft) return { icon: GitPullRequestDraft, className: 'text-zinc-400', label: 'Draft' };
+  return { icon: GitPullRequest, className: 'text-green-600 dark:text-green-500', label: 'Open' };
+};
+
+const PullRequestRow: React.FC<{ repo: GitHubRepo; pull: GitHubPullRequest }> = ({ repo, pull }) => {
+  const [details, setDetails] = useState<PullRequestDetails | null>(null);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+
+  // Two requests per row, so details wait until the row is expanded
+  const loadDetails = () => {
+    setStatus('loading');
+    getPullRequestDetails(repo.owner.login, repo.name, pull)
+      .then(result => {
+        setDetails(result);
+        setStatus('idle');
+      })
+      .catch(() => setStatus('error'));
+  };
+
+  const stateIcon = getStateIcon(pull);
+  const badge = details && details.review !== 'none' ? REVIEW_BADGES[details.review] : null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="group bg-white dark:bg-zinc-900/50 border border-zinc-200 dark:border-white/5 p-4 rounded-lg hover:border-zinc-400 dark:hover:border-white/20 transition-all"
+    >
+      <div className="flex items-start gap-3 min-w-0">
+        <div className={`mt-1 shrink-0 ${stateIcon.className}`} title={stateIcon.label}>
+          <stateIcon.icon className="w-4 h-4" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <a
+            href={pull.html_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm font-medium text-zinc-900 dark:text-zinc-100 hover:text-blue-600 dark:hover:text-blue-400 transition-colors leading-snug break-words"
+          >
+            {pull.title} <span className="text-zinc-400 font-light">#{pull.number}</span>
+          </a>
+          {pull.draft && (
+            <span className="ml-2 px-1.5 py-0.5 rounded border border-zinc-300 dark:border-zinc-700 text-[10px] uppercase tracking-wider text-zinc-500 align-middle">Draft</span>
+          )}
+
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1.5 text-xs text-zinc-500">
+            <span>
+              {pull.merged_at
+                ? `Merged ${new Date(pull.merged_at).toLocaleDateString()} after ${formatDuration((new Date(pull.merged_at).getTime() - new Date(pull.created_at).getTime()) / 3600000)}`
+                : pull.closed_at
+                  ? `Closed ${new Date(pull.closed_at).toLocaleDateString()}`
+                  : `Opened ${new Date(pull.created_at).toLocaleDateString()}`}
+            </span>
+            <span>by {pull.user.login}</span>
+
+            {details ? (
+              <>
+                <span className="flex items-center gap-1 font-mono" title={`${details.changed_files} files changed in ${details.commits} commits`}>
+                  <FileDiff className="w-3 h-3" /> {details.changed_files}
+                </span>
+                <span className="font-mono">
+                  <span className="text-emerald-600 dark:text-emerald-400">+{details.additions.toLocaleString()}</span>{' '}
+                  <span className="text-red-600 dark:text-red-400">−{details.deletions.toLocaleString()}</span>
+                </span>
+              </>
+            ) : status === 'loading' ? (
+              <Loader2 className="w-3 h-3 animate-spin" />
+            ) : (
+              <button
+                onClick={loadDetails}
+                className="underline decoration-dotted underline-offset-2 hover:text-zinc-900 dark:hover:text-zinc-200"
+                title="Load changed files and review status (2 API requests)"
+              >
+                {status === 'error' ? 'Retry details' : 'Show changes'}
+              </button>
+            )}
+
+            {badge && (
+              <span className={`flex items-center gap-1 px-2 py-0.5 rounded-full border text-[10px] font-medium ${badge.className}`}>
+                <badge.icon className="w-3 h-3" /> {badge.label}
+              </span>
+            )}
+          </div>
+
+          {pull.labels.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {pull.labels.map(label => (
+                <span
+                  key={label.id}
+                  className="px-2 py-0.5 rounded-full text-[10px] font-medium border"
+                  style={{ backgroundColor: `#${label.color}20`, borderColor: `#${label.color}40`, color: `#${label.color}` }}
+                >
+                  {label.name}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+const RepoPullRequests: React.FC<RepoPullRequestsProps> = ({ repo }) => {
+  const [filters, setFilters] = useState<PullRequestFilterState>({ state: 'open', sort: 'created', direction: 'desc' });
+  const [pulls, setPulls] = useState<GitHubPullRequest[]>([]);
+  const [nextPage, setNextPage] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mergeStats, setMergeStats] = useState<MergeStats | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMergeStats(null);
+    getMergeStats(repo.owner.login, repo.name)
+      .then(stats => !cancelled && setMergeStats(stats))
+      .catch(err => console.warn('Error fetching merge stats', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [repo.owner.login, repo.name]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getRepoPulls(repo.owner.login, repo.name, filters)
+      .then(result => {
+        if (cancelled) return;
+        setPulls(result.pulls);
+        setNextPage(result.nextPage);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err.message || 'Failed to load pull requests');
+        setPulls([]);
+        setNextPage(null);
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [repo.owner.login, repo.name, filters, attempt]);
+
+  const loadMore = (page: number) => {
+    setLoadingMore(true);
+    getRepoPulls(repo.owner.login, repo.name, filters, page)
+      .then(result => {
+        setPulls(prev => [...prev, ...result.pulls.filter(pull => !prev.some(p => p.id === pull.id))]);
+        setNextPage(result.nextPage);
+      })
+      .catch(err => setError(err.message || 'Failed to load pull requests'))
+      .finally(() => setLoadingMore(false));
+  };
+
+  const stateLabel = STATES.find(state => state.id === filters.state)?.label.toLowerCase();
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <h2 className="text-2xl font-display text-zinc-900 dark:text-white">Pull Requests</h2>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex rounded-md border border-zinc-200 dark:border-white/10 overflow-hidden text-xs font-medium">
+            {STATES.map(state => (
+              <button
+                key={state.id}
+                onClick={() => setFilters(prev => ({ ...prev, state: state.id }))}
+                className={`px-3 py-2 transition-colors ${
+                  filters.state === state.id
+                    ? 'bg-zinc-900 text-white dark:bg-white dark:text-zinc-900'
+                    : 'bg-zinc-100 dark:bg-white/5 hover:bg-zinc-200 dark:hover:bg-white/10'
+                }`}
+              >
+                {state.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex rounded-md border border-zinc-200 dark:border-white/10 overflow-hidden text-xs font-medium">
+            {SORTS.map(sort => (
+              <button
+                key={sort.id}
+                onClick={() => setFilters(prev => ({ ...prev, sort: sort.id }))}
+                className={`px-3 py-2 transition-colors ${
+                  filters.sort === sort.id
+                    ? 'bg-zinc-900 text-white dark:bg-white dark:text-zinc-900'
+                    : 'bg-zinc-100 dark:bg-white/5 hover:bg-zinc-200 dark:hover:bg-white/10'
+                }`}
+              >
+                {sort.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {mergeStats && (
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mb-6 text-xs text-zinc-500">
+          <span className="flex items-center gap-1.5">
+            <Timer className="w-3.5 h-3.5" />
+            {mergeStats.medianHours !== null
+              ? <>Median time to merge <span className="font-mono text-zinc-800 dark:text-zinc-200">{formatDuration(mergeStats.medianHours)}</span></>
+              : 'No recent merges'}
+          </span>
+          {mergeStats.averageHours !== null && (
+            <span>Average <span className="font-mono text-zinc-800 dark:text-zinc-200">{formatDuration(mergeStats.averageHours)}</span></span>
+          )}
+          {mergeStats.sampled > 0 && (
+            <span>{mergeStats.merged} of the last {mergeStats.sampled} closed were merged</span>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-3 min-h-[300px]">
+        {error ? (
+          <div className="w-full py-20 flex flex-col items-center justify-center border border-red-200 dark:border-red-900/30 bg-red-50 dark:bg-red-900/10 rounded-lg">
+            <AlertTriangle className="w-8 h-8 text-red-400 mb-4" />
+            <span className="text-red-500 dark:text-red-400 font-medium">{error}</span>
+            <button
+              onClick={() => setAttempt(prev => prev + 1)}
+              className="mt-4 px-4 py-2 text-xs uppercase tracking-wider font-medium text-red-600 dark:text-red-300 border border-red-200 dark:border-red-800 rounded hover:bg-red-100 dark:hover:bg-red-900/20 transition-colors"
+            >
+              Retry
+            </button>
+          </div>
+        ) : loading ? (
+          <div className="w-full py-20 flex flex-col items-center justify-center text-zinc-400">
+            <Loader2 className="w-8 h-8 animate-spin mb-4" />
+            <span className="text-xs uppercase tracking-widest">Loading Pull Requests...</span>
+          </div>
+        ) : pulls.length === 0 ? (
+          <div className="w-full py-20 flex flex-col items-center justify-center border border-dashed border-zinc-300 dark:border-zinc-700 rounded-lg">
+            <p className="text-zinc-500 font-serif italic text-lg">No {stateLabel} pull requests found.</p>
+          </div>
+        ) : (
+          pulls.map(pull => <PullRequestRow key={pull.id} repo={repo} pull={pull} />)
+        )}
+
+        {nextPage !== null && !loading && !error && (
+          <button
+            onClick={() => loadMore(nextPage)}
+            disabled={loadingMore}
+            className="w-full flex items-center justify-center gap-2 py-3 text-xs uppercase tracking-widest font-medium text-zinc-500 border border-zinc-200 dark:border-white/10 rounded-lg hover:text-zinc-900 dark:hover:text-white hover:border-zinc-400 dark:hover:border-white/20 transition-colors disabled:opacity-60"
+          >
+            {loadingMore ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Load more'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RepoPullRequests;
@@ -0,0 +1,66 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { GitHubRepo } from '../types';
+import { getRepositoryReadme } from '../services/githubService';
+import { handleAnchorClick, renderRepoMarkup } from '../services/markup';
+import { Loader2, BookOpen } from 'lucide-react';
+
+interface RepoReadmeProps {
+  repo: GitHubRepo;
+}
+
+const RepoReadme: React.FC<RepoReadmeProps> = ({ repo }) => {
+  const [readme, setReadme] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getRepositoryReadme(repo.owner.login, repo.name)
+        .then(html => {
+            if (!cancelled) setReadme(html);
+        })
+        .finally(() => {
+            if (!cancelled) setLoading(false);
+        });
+    return () => { cancelled = true; };
+  }, [repo.owner.login, repo.name]);
+
+  // Sanitizing and highlighting walks the whole document, so only redo it when the source changes
+  const html = useMemo(() => {
+    if (!readme) return null;
+    return renderRepoMarkup(readme, {
+        owner: repo.owner.login,
+        repo: repo.name,
+        branch: repo.default_branch,
+    });
+  }, [readme, repo.owner.login, repo.name, repo.default_branch]);
+
+  if (loading) {
+    return (
+        <div className="w-full py-20 flex flex-col items-center justify-center text-zinc-400">
+            <Loader2 className="w-8 h-8 animate-spin mb-4" />
+            <span className="text-xs uppercase tracking-widest">Loading Readme...</span>
+        </div>
+    );
+  }
+
+  if (!html) {
+    return (
+        <div className="w-full py-20 flex flex-col items-center justify-center border border-dashed border-zinc-300 dark:border-zinc-700 rounded-lg">
+            <BookOpen className="w-8 h-8 text-zinc-400 mb-4" />
+            <p className="text-zinc-500 font-serif italic text-lg">This repository has no README.</p>
+        </div>
+    );
+  }
+
+  return (
+    <article
+        className="markdown-body bg-white dark:bg-zinc-900/50 border border-zinc-200 dark:border-white/5 rounded-lg p-6 md:p-10"
+        onClick={handleAnchorClick}
+        dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+export default RepoReadme;
@@ -0,0 +1,310 @@
+import React, { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Download, FileArchive, GitCommit, Loader2, Package, Plus, Tag } from 'lucide-react';
+import { GitHubRelease, GitHubRepo, GitHubTag, ReleaseTimeline } from '../types';
+import { getReleaseTimeline, getRepoReleases, getRepoTags } from '../services/githubService';
+import { getReleaseState, requestLatestRelease, subscribeReleases } from '../services/releases';
+import { handleAnchorClick, renderRepoMarkup } from '../services/markup';
+
+interface RepoReleasesProps {
+  repo: GitHubRepo;
+}
+
+type ReleaseView = 'releases' | 'tags';
+
+const VIEWS: { id: ReleaseView; label: string }[] = [
+  { id: 'releases', label: 'Releases' },
+  { id: 'tags', label: 'Tags' },
+];
+
+const CADENCE_MONTHS = 12;
+
+const formatCount = (num: number) =>
+  num >= 1000000 ? `${(num / 1000000).toFixed(1)}M` : num >= 1000 ? `${(num / 1000).toFixed(1)}k` : num.toString();
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : bytes >= 1024 ? `${Math.round(bytes / 1024)} KB` : `${bytes} B`;
+
+// Releases per calendar month, oldest first, ending with the current month
+const countByMonth = (published: string[], now = new Date()) => {
+  const months = Array.from({ length: CADENCE_MONTHS }, (_, i) => {
+    const start = new Date(now.getFullYear(), now.getMonth() - (CADENCE_MONTHS - 1 - i), 1);
+    return { start, count: 0 };
+  });
+  published.forEach(date => {
+    const time = new Date(date);
+    const index = (time.getFullYear() - months[0].start.getFullYear()) * 12 + time.getMonth() - months[0].start.getMonth();
+    if (index >= 0 && index < CADENCE_MONTHS) months[index].count++;
+  });
+  return months;
+};
+
+const ReleaseCadenceChart: React.FC<{ timeline: ReleaseTimeline }> = ({ timeline }) => {
+  const months = useMemo(() => countByMonth(timeline.published), [timeline]);
+  const total = months.reduce((sum, month) => sum + month.count, 0);
+  const max = Math.max(...months.map(month => month.count), 1);
+  // A full sample that still ends inside the window means older months may be undercounted
+  const oldest = timeline.published[timeline.published.length - 1];
+  const partial = !timeline.complete && !!oldest && new Date(oldest) > months[0].start;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-end gap-4 sm:gap-8 mb-8 p-4 rounded-lg border border-zinc-200 dark:border-white/5 bg-zinc-50/50 dark:bg-white/[0.02]">
+      <div className="shrink-0">
+        <span className="block text-[10px] uppercase tracking-[0.2em] text-zinc-400 font-medium mb-1">Cadence</span>
+        <span className="font-display text-2xl text-zinc-900 dark:text-white">{(total / CADENCE_MONTHS).toFixed(1)}</span>
+        <span className="text-xs text-zinc-500"> per month</span>
+        <p className="text-xs font-mono text-zinc-500 mt-1">
+          {partial ? 'At least ' : ''}{total} in the last {CADENCE_MONTHS} months
+        </p>
+      </div>
+      <div className="flex items-end gap-1 h-14 flex-1 min-w-0" role="img" aria-label={`${total} releases in the last ${CADENCE_MONTHS} months`}>
+        {months.map(month => (
+          <div
+            key={month.start.toISOString()}
+            className="flex-1 flex flex-col justify-end h-full"
+            title={`${month.start.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })}: ${month.count} release${month.count === 1 ? '' : 's'}`}
+          >
+            <div
+              className={month.count > 0 ? 'bg-zinc-800 dark:bg-zinc-300 rounded-sm' : 'bg-zinc-200 dark:bg-white/5 rounded-sm'}
+              style={{ height: month.count > 0 ? `${Math.max((month.count / max) * 100, 8)}%` : '2px' }}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ReleaseNotes: React.FC<{ html: string | undefined; repo: GitHubRepo }> = ({ html, repo }) => {
+  const rendered = useMemo(
+    () => html ? renderRepoMarkup(html, { owner: repo.owner.login, repo: repo.name, branch: repo.default_branch }) : null,
+    [html, repo.owner.login, repo.name, repo.default_branch]
+  );
+  if (!rendered) return <p className="text-sm text-zinc-400 italic">No release notes.</p>;
+  return <div className="markdown-body text-sm max-h-[32rem] overflow-y-auto" onClick={handleAnchorClick} dangerouslySetInnerHTML={{ __html: rendered }} />;
+};
+
+const ReleaseItem: React.FC<{ release: GitHubRelease; repo: GitHubRepo; latest: boolean }> = ({ release, repo, latest }) => {
+  const downloads = release.assets.reduce((sum, asset) => sum + asset.download_count, 0);
+  const date = release.published_at || release.created_at;
+
+  return (
+    <motion.article
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white dark:bg-zinc-900/50 border border-zinc-200 dark:border-white/5 rounded-lg overflow-hidden"
+    >
+      <header className="p-4 border-b border-zinc-100 dark:border-white/5">
+        <div className="flex flex-wrap items-center gap-2">
+          <a
+            href={release.html_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-lg font-medium text-zinc-900 dark:text-zinc-100 hover:text-blue-600 dark:hover:text-blue-400 transition-colors break-words"
+          >
+            {release.name || release.tag_name}
+          </a>
+          {latest && (
+            <span className="px-2 py-0.5 rounded-full border text-[10px] font-medium text-emerald-700 dark:text-emerald-300 border-emerald-200 dark:border-emerald-900/50 bg-emerald-50 dark:bg-emerald-900/10">Latest</span>
+          )}
+          {release.prerelease && (
+            <span className="px-2 py-0.5 rounded-full border text-[10px] font-medium text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-900/50 bg-amber-50 dark:bg-amber-900/10">Pre-release</span>
+          )}
+          {release.draft && (
+            <span className="px-1.5 py-0.5 rounded border border-zinc-300 dark:border-zinc-700 text-[10px] uppercase tracking-wider text-zinc-500">Draft</span>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1.5 text-xs text-zinc-500">
+          <span className="flex items-center gap-1 font-mono"><Tag className="w-3 h-3" /> {release.tag_name}</span>
+          <span>{release.draft ? 'Created' : 'Published'} {new Date(date).toLocaleDateString()}</span>
+          {release.author && <span>by {release.author.login}</span>}
+          {release.assets.length > 0 && (
+            <span className="flex items-center gap-1 font-mono" title="Downloads across all assets">
+              <Download className="w-3 h-3" /> {formatCount(downloads)}
+            </span>
+          )}
+        </div>
+      </header>
+
+      <div className="p-4">
+        <ReleaseNotes html={release.body_html} repo={repo} />
+      </div>
+
+      {release.assets.length > 0 && (
+        <ul className="border-t border-zinc-100 dark:border-white/5 divide-y divide-zinc-100 dark:divide-white/5">
+          {release.assets.map(asset => (
+            <li key={asset.id} className="flex items-center gap-3 px-4 py-2 text-xs">
+              <Package className="w-3.5 h-3.5 text-zinc-400 shrink-0" />
+              <a href={asset.browser_download_url} className="flex-1 min-w-0 truncate text-zinc-700 dark:text-zinc-300 hover:underline">{asset.name}</a>
+              <span className="font-mono text-zinc-400 shrink-0">{formatSize(asset.size)}</span>
+              <span className="flex items-center gap-1 font-mono text-zinc-500 shrink-0 w-16 justify-end" title={`${asset.download_count.toLocaleString()} downloads`}>
+                <Download className="w-3 h-3" /> {formatCount(asset.download_count)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </motion.article>
+  );
+};
+
+const TagRow: React.FC<{ tag: GitHubTag; repo: GitHubRepo }> = ({ tag, repo }) => (
+  <li className="flex items-center gap-3 px-4 py-3 text-sm">
+    <Tag className="w-4 h-4 text-zinc-400 shrink-0" />
+    <a
+      href={`${repo.html_url}/releases/tag/${encodeURIComponent(tag.name)}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex-1 min-w-0 truncate font-medium text-zinc-800 dark:text-zinc-200 hover:underline"
+    >
+      {tag.name}
+    </a>
+    <a
+      href={`${repo.html_url}/commit/${tag.commit.sha}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="hidden sm:flex items-center gap-1 font-mono text-xs text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-200"
+    >
+      <GitCommit className="w-3 h-3" /> {tag.commit.sha.slice(0, 7)}
+    </a>
+    <a href={tag.zipball_url} className="flex items-center gap-1 text-xs text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-200" title="Download source as zip">
+      <FileArchive className="w-3 h-3" /> zip
+    </a>
+    <a href={tag.tarball_url} className="flex items-center gap-1 text-xs text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-200" title="Download source as tar.gz">
+      <FileArchive className="w-3 h-3" /> tar.gz
+    </a>
+  </li>
+);
+
+const RepoReleases: React.FC<RepoReleasesProps> = ({ repo }) => {
+  const [view, setView] = useState<ReleaseView>('releases');
+  const [releases, setReleases] = useState<GitHubRelease[]>([]);
+  const [tags, setTags] = useState<GitHubTag[]>([]);
+  const [nextPage, setNextPage] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [timeline, setTimeline] = useState<ReleaseTimeline | null>(null);
+  const latest = useSyncExternalStore(subscribeReleases, getReleaseState)[repo.full_name]?.release;
+  const lastRequestId = useRef(0);
+
+  // Shares the lookup with the repository card's badge
+  useEffect(() => {
+    requestLatestRelease([repo]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [repo.full_name]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setTimeline(null);
+    getReleaseTimeline(repo.owner.login, repo.name)
+      .then(result => !cancelled && setTimeline(result))
+      .catch(err => console.warn('Error fetching release timeline', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [repo.owner.login, repo.name]);
+
+  const load = async (page: number) => {
+    const requestId = ++lastRequestId.current;
+    setLoading(true);
+    setError(null);
+    try {
+      if (view === 'releases') {
+        const result = await getRepoReleases(repo.owner.login, repo.name, page);
+        if (requestId !== lastRequestId.current) return;
+        setReleases(prev => page > 1 ? [...prev, ...result.releases.filter(release => !prev.some(p => p.id === release.id))] : result.releases);
+        setNextPage(result.nextPage);
+      } else {
+        const result = await getRepoTags(repo.owner.login, repo.name, page);
+        if (requestId !== lastRequestId.current) return;
+        setTags(prev => page > 1 ? [...prev, ...result.tags.filter(tag => !prev.some(p => p.name === tag.name))] : result.tags);
+        setNextPage(result.nextPage);
+      }
+    } catch (err: any) {
+      if (requestId !== lastRequestId.current) return;
+      setError(err.message || `Failed to load ${view}`);
+    } finally {
+      if (requestId === lastRequestId.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setReleases([]);
+    setTags([]);
+    setNextPage(null);
+    load(1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [repo.owner.login, repo.name, view]);
+
+  const shown = view === 'releases' ? releases.length : tags.length;
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-display text-zinc-900 dark:text-white">Releases</h2>
+        <div className="flex rounded-md border border-zinc-200 dark:border-white/10 overflow-hidden text-xs font-medium self-start md:self-auto">
+          {VIEWS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setView(option.id)}
+              className={`px-3 py-2 transition-colors ${
+                view === option.id
+                  ? 'bg-zinc-900 text-white dark:bg-white dark:text-zinc-900'
+                  : 'bg-zinc-100 dark:bg-white/5 hover:bg-zinc-200 dark:hover:bg-white/10'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {timeline && timeline.published.length > 0 && <ReleaseCadenceChart timeline={timeline} />}
+
+      <div className="min-h-[300px]">
+        {error && shown === 0 ? (
+          <div className="w-full py-20 flex flex-col items-center justify-center border border-red-200 dark:border-red-900/30 bg-red-50 dark:bg-red-900/10 rounded-lg">
+            <AlertTriangle className="w-8 h-8 text-red-400 mb-4" />
+            <span className="text-red-500 dark:text-red-400 font-medium">{error}</span>
+            <button
+              onClick={() => load(1)}
+              className="mt-4 px-4 py-2 text-xs uppercase tracking-wider font-medium text-red-600 dark:text-red-300 border border-red-200 dark:border-red-800 rounded hover:bg-red-100 dark:hover:bg-red-900/20 transition-colors"
+            >
+              Retry
+            </button>
+          </div>
+        ) : !loading && shown === 0 ? (
+          <div className="w-full py-20 flex flex-col items-center justify-center border border-dashed border-zinc-300 dark:border-zinc-700 rounded-lg">
+            <p className="text-zinc-500 font-serif italic text-lg">No {view} published.</p>
+          </div>
+        ) : view === 'releases' ? (
+          <div className="space-y-6">
+            {releases.map(release => <ReleaseItem key={release.id} release={release} repo={repo} latest={latest?.id === release.id} />)}
+          </div>
+        ) : (
+          <ul className="bg-white dark:bg-zinc-900/50 border border-zinc-200 dark:border-white/5 rounded-lg divide-y divide-zinc-100 dark:divide-white/5">
+            {tags.map(tag => <TagRow key={tag.name} tag={tag} repo={repo} />)}
+          </ul>
+        )}
+
+        {(loading || (nextPage !== null && !error) || (error && shown > 0)) && (
+          <div className="mt-8 flex flex-col items-center gap-3">
+            {error && shown > 0 && <span className="text-xs text-red-500">{error}</span>}
+            {loading ? (
+              <Loader2 className="w-6 h-6 text-zinc-400 animate-spin" />
+            ) : (
+              <button
+                onClick={() => load(nextPage ?? 1)}
+                className="flex items-center gap-2 px-6 py-2 text-xs uppercase tracking-wider font-medium text-zinc-600 dark:text-zinc-300 border border-zinc-300 dark:border-zinc-700 rounded hover:border-zinc-900 dark:hover:border-zinc-100 transition-colors"
+              >
+                <Plus className="w-3 h-3" /> {error ? 'Retry' : `Load more ${view}`}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RepoReleases;
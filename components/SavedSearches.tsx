@@ -0,0 +1,116 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { Bookmark, Loader2, Pin, Plus, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FilterState, SavedSearch } from '../types';
+import { countUnseen, deleteSavedSearch, getSavedSearchesState, saveSearch, subscribeSavedSearches, togglePinned } from '../services/savedSearches';
+
+interface SavedSearchesProps {
+  filters: FilterState;
+  onApply: (search: SavedSearch) => void;
+}
+
+const SavedSearches: React.FC<SavedSearchesProps> = ({ filters, onApply }) => {
+  const { searches, checking } = useSyncExternalStore(subscribeSavedSearches, getSavedSearchesState);
+  const [name, setName] = useState<string | null>(null); // Null while the name field is closed
+
+  const handleSave = () => {
+    if (!name || !name.trim()) return;
+    saveSearch(name, filters);
+    setName(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') handleSave();
+    if (e.key === 'Escape') setName(null);
+  };
+
+  return (
+    <div className="pt-2">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-[10px] uppercase tracking-[0.2em] text-zinc-400 font-medium">
+          <Bookmark className="w-3 h-3" />
+          <span>Saved Searches</span>
+          {checking && <Loader2 className="w-3 h-3 animate-spin" aria-label="Looking for new results" />}
+        </div>
+        <button
+          onClick={() => setName(name === null ? filters.query.trim() : null)}
+          className="text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-200 transition-colors"
+          title="Save the current filters"
+          aria-label="Save the current filters"
+        >
+          {name === null ? <Plus className="w-3 h-3" /> : <X className="w-3 h-3" />}
+        </button>
+      </div>
+
+      <AnimatePresence>
+      {name !== null && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          exit={{ opacity: 0, height: 0 }}
+          className="flex items-center gap-2 mb-3"
+        >
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Name this search"
+            aria-label="Saved search name"
+            autoFocus
+            className="flex-1 min-w-0 bg-zinc-100 dark:bg-white/5 border border-zinc-200 dark:border-white/10 rounded-sm text-xs px-3 py-2 text-zinc-900 dark:text-zinc-200 focus:outline-none focus:border-zinc-400 dark:focus:border-white/20 transition-colors"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="px-3 py-2 text-[10px] uppercase tracking-widest border border-zinc-200 dark:border-white/10 rounded-sm text-zinc-600 dark:text-zinc-300 hover:border-zinc-400 dark:hover:border-white/30 disabled:opacity-40 transition-colors"
+          >
+            Save
+          </button>
+        </motion.div>
+      )}
+      </AnimatePresence>
+
+      {searches.length === 0 ? (
+        name === null && <p className="text-[11px] leading-snug text-zinc-400">Save these filters to find them again and see what is new each visit.</p>
+      ) : (
+        <div className="flex flex-col gap-1.5">
+          {searches.map(search => (
+            <div
+              key={search.id}
+              className="group flex items-center w-full text-xs text-zinc-600 dark:text-zinc-400 bg-zinc-100/50 dark:bg-white/5 border border-transparent hover:border-zinc-300 dark:hover:border-white/10 rounded-sm transition-all"
+            >
+              <button onClick={() => onApply(search)} className="flex-1 min-w-0 flex items-center gap-2 py-2 pl-3 text-left">
+                <span className="truncate">{search.name}</span>
+                {countUnseen(search) > 0 && (
+                  <span className="shrink-0 text-[10px] font-mono text-emerald-600 dark:text-emerald-400" title="New since your last visit">
+                    +{countUnseen(search)}
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => togglePinned(search.id)}
+                className={`p-1.5 transition-all ${search.pinned ? 'text-zinc-900 dark:text-zinc-100' : 'opacity-0 group-hover:opacity-100 text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-200'}`}
+                title={search.pinned ? 'Unpin' : 'Pin as a preset'}
+                aria-label={search.pinned ? `Unpin ${search.name}` : `Pin ${search.name}`}
+                aria-pressed={search.pinned}
+              >
+                <Pin className={`w-3 h-3 ${search.pinned ? 'fill-current' : ''}`} />
+              </button>
+              <button
+                onClick={() => deleteSavedSearch(search.id)}
+                className="p-1.5 mr-1 opacity-0 group-hover:opacity-100 text-zinc-400 hover:text-red-500 dark:hover:text-red-400 transition-all"
+                title="Delete"
+                aria-label={`Delete ${search.name}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedSearches;
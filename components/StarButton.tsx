@@ -0,0 +1,82 @@
+
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { Star } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { GitHubRepo } from '../types';
+import { getStarsState, subscribeStars, toggleStar } from '../services/stars';
+
+interface StarButtonProps {
+  repo: GitHubRepo;
+  // 'compact' fits the RepoCard footer, 'tile' the stat tiles of the repository header
+  variant?: 'compact' | 'tile';
+}
+
+const StarButton: React.FC<StarButtonProps> = ({ repo, variant = 'compact' }) => {
+  const { status, names } = useSyncExternalStore(subscribeStars, getStarsState);
+  const [error, setError] = useState<string | null>(null);
+
+  // A refused toggle is already rolled back; keep the reason visible for a moment
+  useEffect(() => {
+    if (!error) return;
+    const timer = setTimeout(() => setError(null), 4000);
+    return () => clearTimeout(timer);
+  }, [error]);
+
+  if (status === 'signed-out') return null;
+
+  const starred = names.has(repo.full_name);
+  const label = starred ? 'Starred' : 'Star';
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setError(null);
+    try {
+      await toggleStar(repo);
+    } catch (err: any) {
+      setError(err.message || 'Could not update the star.');
+    }
+  };
+
+  const title = error || (starred ? `Unstar ${repo.full_name}` : `Star ${repo.full_name}`);
+  const starClass = starred ? 'fill-amber-400 text-amber-500' : '';
+
+  if (variant === 'tile') {
+    return (
+      <button
+        onClick={handleClick}
+        className={`flex flex-col items-center justify-center border rounded-lg p-4 min-w-[100px] transition-colors ${
+          error
+            ? 'bg-red-50 dark:bg-red-900/10 border-red-200 dark:border-red-900/30 text-red-600 dark:text-red-400'
+            : starred
+              ? 'bg-amber-50 dark:bg-amber-900/10 border-amber-200 dark:border-amber-900/30 hover:border-amber-300 dark:hover:border-amber-800/50'
+              : 'bg-zinc-100 dark:bg-white/5 border-zinc-200 dark:border-white/10 hover:border-zinc-300 dark:hover:border-white/20'
+        }`}
+        title={title}
+        aria-pressed={starred}
+      >
+        <Star className={`w-5 h-5 mb-1 text-amber-500 ${starClass}`} />
+        <span className="font-bold text-lg">{label}</span>
+        <span className="text-[10px] uppercase tracking-wider text-zinc-500">{error ? 'Failed' : 'Your Stars'}</span>
+      </button>
+    );
+  }
+
+  return (
+    <motion.button
+      whileTap={{ scale: 0.95 }}
+      onClick={handleClick}
+      className={`flex items-center gap-1.5 transition-colors relative focus:outline-none rounded-sm py-1 px-1.5 hover:bg-zinc-100 dark:hover:bg-white/5 ${
+        error ? 'text-red-600 dark:text-red-400' : 'hover:text-zinc-900 dark:hover:text-zinc-200'
+      }`}
+      title={title}
+      aria-label={title}
+      aria-pressed={starred}
+    >
+      <Star className={`w-3.5 h-3.5 ${starClass}`} aria-hidden="true" />
+      <span className="hidden sm:inline">{label}</span>
+    </motion.button>
+  );
+};
+
+export default StarButton;
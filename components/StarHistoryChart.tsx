@@ -0,0 +1,141 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { GitHubRepo, StarHistory, StarHistoryPoint } from '../types';
+import { getStarHistory } from '../services/githubService';
+
+interface StarHistoryChartProps {
+  repo: GitHubRepo;
+}
+
+const WIDTH = 800;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 56 };
+const MAX_LISTED_STARS = 40000; // GitHub lists no stargazers beyond this
+
+const formatStars = (num: number) =>
+  num >= 1000 ? `${(num / 1000).toFixed(num >= 10000 ? 0 : 1)}k` : Math.round(num).toString();
+
+const formatDate = (time: number, withDay = false) =>
+  new Date(time).toLocaleDateString(undefined, withDay ? { month: 'short', day: 'numeric', year: 'numeric' } : { month: 'short', year: 'numeric' });
+
+const StarHistoryChart: React.FC<StarHistoryChartProps> = ({ repo }) => {
+  const [history, setHistory] = useState<StarHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHistory(null);
+    setError(null);
+    getStarHistory(repo.owner.login, repo.name)
+      .then(result => !cancelled && setHistory(result))
+      .catch(err => !cancelled && setError(err.message || 'Failed to load star history'));
+    return () => {
+      cancelled = true;
+    };
+  }, [repo.owner.login, repo.name]);
+
+  // The stored history ends at the last stargazer read; today's total closes the line
+  const points = useMemo(() => {
+    if (!history) return [];
+    const series: StarHistoryPoint[] = [...history.points, { date: new Date().toISOString(), stars: repo.stargazers_count }];
+    return series.map(point => ({ time: new Date(point.date).getTime(), stars: point.stars }));
+  }, [history, repo.stargazers_count]);
+
+  if (error) {
+    return <p className="text-sm text-zinc-500 font-mono">{error}</p>;
+  }
+
+  if (!history) {
+    return (
+      <div className="h-[240px] flex items-center justify-center rounded-lg border border-zinc-200 dark:border-white/5">
+        <Loader2 className="w-6 h-6 text-zinc-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (points.length < 2) {
+    return <p className="text-sm text-zinc-500 font-mono">Not enough stars to chart yet.</p>;
+  }
+
+  const minTime = points[0].time;
+  const maxTime = Math.max(points[points.length - 1].time, minTime + 1);
+  const maxStars = Math.max(...points.map(point => point.stars), 1);
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (time: number) => PADDING.left + ((time - minTime) / (maxTime - minTime)) * plotWidth;
+  const y = (stars: number) => PADDING.top + plotHeight - (stars / maxStars) * plotHeight;
+
+  const line = points.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.time).toFixed(1)},${y(point.stars).toFixed(1)}`).join(' ');
+  const area = `${line} L${x(maxTime).toFixed(1)},${y(0)} L${x(minTime).toFixed(1)},${y(0)} Z`;
+  const yTicks = [0, 0.25, 0.5, 0.75, 1].map(fraction => fraction * maxStars);
+  const xTicks = [0, 0.5, 1].map(fraction => minTime + fraction * (maxTime - minTime));
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = minTime + (((e.clientX - rect.left) / rect.width) * WIDTH - PADDING.left) / plotWidth * (maxTime - minTime);
+    let nearest = 0;
+    points.forEach((point, i) => {
+      if (Math.abs(point.time - time) < Math.abs(points[nearest].time - time)) nearest = i;
+    });
+    setHovered(nearest);
+  };
+
+  const active = hovered !== null ? points[hovered] : null;
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto text-zinc-900 dark:text-zinc-100 select-none"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHovered(null)}
+        role="img"
+        aria-label={`Star history of ${repo.full_name}: ${repo.stargazers_count.toLocaleString()} stars since ${formatDate(minTime)}`}
+      >
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} className="stroke-zinc-200 dark:stroke-white/5" strokeWidth={1} />
+            <text x={PADDING.left - 8} y={y(tick)} textAnchor="end" dominantBaseline="middle" className="fill-zinc-400 font-mono" fontSize={11}>
+              {formatStars(tick)}
+            </text>
+          </g>
+        ))}
+        {xTicks.map((tick, i) => (
+          <text key={tick} x={x(tick)} y={HEIGHT - 8} textAnchor={i === 0 ? 'start' : i === xTicks.length - 1 ? 'end' : 'middle'} className="fill-zinc-400 font-mono" fontSize={11}>
+            {formatDate(tick)}
+          </text>
+        ))}
+
+        <path d={area} className="fill-amber-500/10" />
+        <path d={line} fill="none" className="stroke-amber-500" strokeWidth={2} strokeLinejoin="round" />
+
+        {active && (
+          <g>
+            <line x1={x(active.time)} x2={x(active.time)} y1={PADDING.top} y2={y(0)} className="stroke-zinc-400" strokeDasharray="3 3" />
+            <circle cx={x(active.time)} cy={y(active.stars)} r={4} className="fill-amber-500" />
+            <text
+              x={x(active.time) + (x(active.time) > WIDTH / 2 ? -8 : 8)}
+              y={PADDING.top + 12}
+              textAnchor={x(active.time) > WIDTH / 2 ? 'end' : 'start'}
+              className="fill-current font-mono"
+              fontSize={12}
+            >
+              {active.stars.toLocaleString()} · {formatDate(active.time, true)}
+            </text>
+          </g>
+        )}
+      </svg>
+
+      {history.sampled && (
+        <p className="mt-2 text-[11px] text-zinc-400">
+          Estimated from a sample of stargazer pages
+          {repo.stargazers_count > MAX_LISTED_STARS && `; GitHub lists only the first ${MAX_LISTED_STARS.toLocaleString()} stargazers, so the line is straight after that`}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default StarHistoryChart;
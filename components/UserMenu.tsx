@@ -0,0 +1,120 @@
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { LogOut, User, ExternalLink, Loader2, Star } from 'lucide-react';
+import { GitHubUserProfile } from '../types';
+
+interface UserMenuProps {
+  user: GitHubUserProfile;
+  onViewProfile: (username: string) => void;
+  onViewStars: () => void;
+  onSignOut: () => Promise<void>;
+}
+
+const UserMenu: React.FC<UserMenuProps> = ({ user, onViewProfile, onViewStars, onSignOut }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [signingOut, setSigningOut] = useState(false);
+
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    try {
+      await onSignOut();
+    } finally {
+      setSigningOut(false);
+      setIsOpen(false);
+    }
+  };
+
+  const handleViewProfile = () => {
+    setIsOpen(false);
+    onViewProfile(user.login);
+  };
+
+  const handleViewStars = () => {
+    setIsOpen(false);
+    onViewStars();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative w-9 h-9 rounded-full border border-zinc-200 dark:border-white/10 hover:border-zinc-400 dark:hover:border-white/30 transition-colors overflow-hidden focus:outline-none"
+        aria-label={`Signed in as ${user.login}`}
+        aria-expanded={isOpen}
+      >
+        <img src={user.avatar_url} alt="" className="w-full h-full object-cover" />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <>
+            <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)}></div>
+            <motion.div
+              initial={{ opacity: 0, y: 5 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 5 }}
+              className="absolute right-0 top-full mt-3 w-72 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-lg shadow-xl z-50 overflow-hidden"
+            >
+              <div className="p-4 flex items-center gap-3 border-b border-zinc-100 dark:border-zinc-800">
+                <img src={user.avatar_url} alt="" className="w-12 h-12 rounded-full border border-zinc-200 dark:border-white/10" />
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-zinc-900 dark:text-white truncate">{user.name || user.login}</div>
+                  <div className="text-xs font-mono text-zinc-500 truncate">@{user.login}</div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2 p-4 border-b border-zinc-100 dark:border-zinc-800 text-center">
+                <div className="flex flex-col">
+                  <span className="text-sm font-bold text-zinc-900 dark:text-white">{user.followers.toLocaleString()}</span>
+                  <span className="text-[9px] uppercase tracking-wider text-zinc-500">Followers</span>
+                </div>
+                <div className="flex flex-col">
+                  <span className="text-sm font-bold text-zinc-900 dark:text-white">{user.following.toLocaleString()}</span>
+                  <span className="text-[9px] uppercase tracking-wider text-zinc-500">Following</span>
+                </div>
+                <div className="flex flex-col">
+                  <span className="text-sm font-bold text-zinc-900 dark:text-white">{user.public_repos.toLocaleString()}</span>
+                  <span className="text-[9px] uppercase tracking-wider text-zinc-500">Repos</span>
+                </div>
+              </div>
+
+              <div className="p-2">
+                <button
+                  onClick={handleViewProfile}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 rounded-md text-left"
+                >
+                  <User className="w-4 h-4" /> Your Collection
+                </button>
+                <button
+                  onClick={handleViewStars}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 rounded-md text-left"
+                >
+                  <Star className="w-4 h-4" /> My Stars
+                </button>
+                <a
+                  href={user.html_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 rounded-md text-left"
+                >
+                  <ExternalLink className="w-4 h-4" /> GitHub Profile
+                </a>
+                <button
+                  onClick={handleSignOut}
+                  disabled={signingOut}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md text-left disabled:opacity-50"
+                >
+                  {signingOut ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogOut className="w-4 h-4" />}
+                  Sign Out
+                </button>
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default UserMenu;
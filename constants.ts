@@ -1,7 +1,55 @@
+import { FilterState, IssueFilterState, IssueFinderFilters, OrderOption, SearchQualifiers, SortOption } from './types';
 
 export const ITEMS_PER_PAGE = 50;
 export const MAX_STARS = 50000;
 
+export const DEFAULT_QUALIFIERS: SearchQualifiers = {
+  topics: [],
+  org: '',
+  searchIn: [],
+  created: { from: null, to: null },
+  pushed: { from: null, to: null },
+  forks: { min: null, max: null },
+  size: { min: null, max: null },
+  goodFirstIssues: null,
+  archived: null,
+  template: false,
+  fork: 'exclude',
+};
+
+export const DEFAULT_FILTERS: FilterState = {
+  query: '',
+  language: [],
+  languageMode: 'and',
+  license: 'All',
+  sort: SortOption.STARS,
+  order: OrderOption.DESC,
+  minStars: 0,
+  maxStars: MAX_STARS,
+  minHealth: 0,
+  trendingSince: 'daily',
+  qualifiers: DEFAULT_QUALIFIERS,
+};
+
+export const DEFAULT_ISSUE_FILTERS: IssueFilterState = {
+  sort: 'created',
+  direction: 'desc',
+  labels: [],
+  state: 'open',
+  assignee: '',
+  creator: '',
+  mentioned: '',
+  milestone: '',
+  since: '',
+};
+
+export const DEFAULT_ISSUE_FINDER: IssueFinderFilters = {
+  labels: 'both',
+  unassigned: true,
+  updatedWithin: 0,
+  maxComments: null,
+};
+
 export const LANGUAGES_COLORS: Record<string, string> = {
   TypeScript: '#3178c6',
   JavaScript: '#f1e05a',
@@ -349,9 +397,11 @@ export const ALL_LANGUAGES = [
 ];
 
 export const SORT_OPTIONS = [
+  { label: "Trending", value: "trending" },
   { label: "Most Stars", value: "stars" },
   { label: "Most Forks", value: "forks" },
   { label: "Recently Updated", value: "updated" },
+  { label: "Healthiest", value: "health" },
 ];
 
 export const POPULAR_LICENSES = [
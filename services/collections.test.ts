@@ -0,0 +1,34 @@
+import { getCollection, importCollections } from './collections';
+
+// Fix for missing type definitions for Jest globals
+declare const jest: any;
+declare const describe: any;
+declare const it: any;
+declare const expect: any;
+
+jest.mock('./db', () => ({
+  getCollectionsFromDB: jest.fn(),
+  saveCollectionsToDB: jest.fn(),
+  deleteCollectionFromDB: jest.fn(),
+}));
+
+const exported = (repo: any) => JSON.stringify({
+  version: 1,
+  collections: [{ id: 'c1', name: 'Tools', items: [{ repo, note: '', tags: [] }] }],
+});
+
+describe('importCollections', () => {
+  it('should fill in the repository fields cards read', async () => {
+    await importCollections(exported({ id: 7, full_name: 'acme/lib', owner: 'acme', stargazers_count: 'many' }));
+
+    const repo = getCollection('c1')!.items[0].repo;
+    expect(repo.name).toBe('lib');
+    expect(repo.owner).toEqual({ login: 'acme', avatar_url: 'https://github.com/acme.png', html_url: 'https://github.com/acme' });
+    expect(repo.stargazers_count).toBe(0);
+    expect(repo.topics).toEqual([]);
+  });
+
+  it('should refuse repositories without an owner/name full name', async () => {
+    await expect(importCollections(exported({ id: 8, full_name: 'lib' }))).rejects.toThrow('not an OpenLens collections export');
+  });
+});
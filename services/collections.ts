@@ -0,0 +1,201 @@
+import { Collection, CollectionItem, GitHubRepo } from '../types';
+import { deleteCollectionFromDB, getCollectionsFromDB, saveCollectionsToDB } from './db';
+
+// Named, locally stored lists of repositories with per-item notes and tags. Like the stars
+// store this is observable, so every "Save" picker and the collections view stay in sync.
+
+const EXPORT_VERSION = 1;
+
+export interface CollectionsState {
+  status: 'idle' | 'loading' | 'ready';
+  collections: Collection[]; // Most recently updated first
+  error: string | null; // Last failed write
+}
+
+export interface CollectionsExport {
+  version: number;
+  exportedAt: string;
+  collections: Collection[];
+}
+
+let state: CollectionsState = { status: 'idle', collections: [], error: null };
+const listeners = new Set<() => void>();
+
+const setState = (update: Partial<CollectionsState>) => {
+  state = { ...state, ...update };
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeCollections = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getCollectionsState = (): CollectionsState => state;
+
+const byUpdated = (a: Collection, b: Collection) => b.updatedAt.localeCompare(a.updatedAt);
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const loadCollections = async () => {
+  if (state.status !== 'idle') return;
+  setState({ status: 'loading' });
+  const collections = await getCollectionsFromDB();
+  setState({ status: 'ready', collections: collections.sort(byUpdated) });
+};
+
+// Shows the change right away, then writes it; a failed write is surfaced through `error`
+const commit = async (changed: Collection[], removedId?: string) => {
+  const changedIds = new Set(changed.map(collection => collection.id));
+  const untouched = state.collections.filter(collection => !changedIds.has(collection.id) && collection.id !== removedId);
+  setState({ collections: [...changed, ...untouched].sort(byUpdated), error: null });
+
+  try {
+    if (removedId) await deleteCollectionFromDB(removedId);
+    if (changed.length > 0) await saveCollectionsToDB(changed);
+  } catch (error: any) {
+    console.warn('Failed to save collections', error);
+    setState({ error: error?.message || 'Failed to save your collections.' });
+  }
+};
+
+const updateCollection = (id: string, update: (collection: Collection) => Partial<Collection>) => {
+  const collection = state.collections.find(entry => entry.id === id);
+  if (!collection) return Promise.resolve();
+  return commit([{ ...collection, ...update(collection), updatedAt: new Date().toISOString() }]);
+};
+
+export const getCollection = (id: string | null): Collection | null =>
+  state.collections.find(collection => collection.id === id) || null;
+
+export const createCollection = async (name: string, repo?: GitHubRepo): Promise<Collection> => {
+  const now = new Date().toISOString();
+  const collection: Collection = {
+    id: createId(),
+    name: name.trim(),
+    items: repo ? [{ repo, note: '', tags: [], addedAt: now }] : [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  await commit([collection]);
+  return collection;
+};
+
+export const renameCollection = (id: string, name: string) =>
+  updateCollection(id, () => ({ name: name.trim() }));
+
+export const deleteCollection = (id: string) => commit([], id);
+
+export const addToCollection = (id: string, repo: GitHubRepo) =>
+  updateCollection(id, collection => {
+    if (collection.items.some(item => item.repo.id === repo.id)) return {};
+    return { items: [{ repo, note: '', tags: [], addedAt: new Date().toISOString() }, ...collection.items] };
+  });
+
+export const removeFromCollection = (id: string, repoId: number) =>
+  updateCollection(id, collection => ({ items: collection.items.filter(item => item.repo.id !== repoId) }));
+
+export const updateCollectionItem = (id: string, repoId: number, update: Partial<Pick<CollectionItem, 'note' | 'tags'>>) =>
+  updateCollection(id, collection => ({
+    items: collection.items.map(item => item.repo.id === repoId ? { ...item, ...update } : item),
+  }));
+
+/** Tags normalised the way they are stored: trimmed, lower case, without duplicates. */
+export const parseTags = (value: string): string[] =>
+  Array.from(new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+export const exportCollections = (ids?: string[]): string => {
+  const payload: CollectionsExport = {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    collections: ids ? state.collections.filter(collection => ids.includes(collection.id)) : state.collections,
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const isRepoSnapshot = (repo: any) =>
+  !!repo && typeof repo.id === 'number' && typeof repo.full_name === 'string' && /^[^/\s]+\/[^/\s]+$/.test(repo.full_name);
+
+const isCollection = (value: any): value is Collection =>
+  !!value && typeof value.id === 'string' && typeof value.name === 'string' && Array.isArray(value.items) &&
+  value.items.every((item: any) => item && isRepoSnapshot(item.repo));
+
+const text = (value: any, fallback: string) => typeof value === 'string' ? value : fallback;
+const count = (value: any) => typeof value === 'number' && value >= 0 ? value : 0;
+
+/**
+ * Fills in what repository cards read from a snapshot, so a hand-edited or truncated export
+ * cannot break them. The owner and name come from `full_name` when missing.
+ */
+const normalizeRepo = (repo: any): GitHubRepo => {
+  const [login, name] = repo.full_name.split('/');
+  const owner = repo.owner && typeof repo.owner.login === 'string' ? repo.owner : {};
+  const ownerLogin = text(owner.login, login);
+  return {
+    ...repo,
+    name: text(repo.name, name),
+    description: typeof repo.description === 'string' ? repo.description : null,
+    html_url: text(repo.html_url, `https://github.com/${repo.full_name}`),
+    stargazers_count: count(repo.stargazers_count),
+    forks_count: count(repo.forks_count),
+    open_issues_count: count(repo.open_issues_count),
+    size: count(repo.size),
+    language: typeof repo.language === 'string' ? repo.language : null,
+    owner: {
+      login: ownerLogin,
+      avatar_url: text(owner.avatar_url, `https://github.com/${ownerLogin}.png`),
+      html_url: text(owner.html_url, `https://github.com/${ownerLogin}`),
+    },
+    updated_at: text(repo.updated_at, ''),
+    pushed_at: text(repo.pushed_at, ''),
+    topics: Array.isArray(repo.topics) ? repo.topics.filter((topic: any) => typeof topic === 'string') : [],
+    license: repo.license && typeof repo.license.key === 'string' && typeof repo.license.name === 'string' ? repo.license : null,
+    has_issues: repo.has_issues !== false,
+    archived: repo.archived === true,
+  };
+};
+
+/**
+ * Merges an export into the stored collections. Collections with a known id gain the missing
+ * items (existing notes and tags are kept); unknown ones are added as they are.
+ * Returns how many collections were added or changed.
+ */
+export const importCollections = async (json: string): Promise<number> => {
+  let payload: any;
+  try {
+    payload = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!payload || !Array.isArray(payload.collections) || !payload.collections.every(isCollection)) {
+    throw new Error('The file is not an OpenLens collections export.');
+  }
+
+  const now = new Date().toISOString();
+  const changed: Collection[] = [];
+  (payload.collections as Collection[]).forEach(imported => {
+    const items = imported.items.map(item => ({
+      repo: normalizeRepo(item.repo),
+      note: typeof item.note === 'string' ? item.note : '',
+      tags: Array.isArray(item.tags) ? item.tags.filter(tag => typeof tag === 'string') : [],
+      addedAt: item.addedAt || now,
+    }));
+
+    const existing = getCollection(imported.id);
+    if (!existing) {
+      changed.push({ id: imported.id, name: imported.name, items, createdAt: imported.createdAt || now, updatedAt: now });
+      return;
+    }
+
+    const known = new Set(existing.items.map(item => item.repo.id));
+    const missing = items.filter(item => !known.has(item.repo.id));
+    if (missing.length > 0) {
+      changed.push({ ...existing, items: [...existing.items, ...missing], updatedAt: now });
+    }
+  });
+
+  if (changed.length > 0) await commit(changed);
+  return changed.length;
+};
@@ -0,0 +1,49 @@
+import { GitHubRepo } from '../types';
+
+// Repositories picked for a side-by-side comparison. Cards toggle entries and the tray at the
+// bottom of the grid opens the comparison, so both read this one store.
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+let selection: GitHubRepo[] = [];
+const listeners = new Set<() => void>();
+
+const setSelection = (repos: GitHubRepo[]) => {
+  selection = repos;
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeCompare = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getCompareSelection = (): GitHubRepo[] => selection;
+
+/** Adds or removes a repository. Returns false when the selection is already full. */
+export const toggleCompare = (repo: GitHubRepo): boolean => {
+  if (selection.some(entry => entry.id === repo.id)) {
+    setSelection(selection.filter(entry => entry.id !== repo.id));
+    return true;
+  }
+  if (selection.length >= MAX_COMPARE) return false;
+  setSelection([...selection, repo]);
+  return true;
+};
+
+export const clearCompare = () => setSelection([]);
+
+/**
+ * Indices of the best values in a comparison row. Rows where fewer than two repositories
+ * have a value, or where every value is equal, have no winner.
+ */
+export const getWinners = (values: (number | null)[], better: 'higher' | 'lower'): Set<number> => {
+  const known = values.filter((value): value is number => value !== null);
+  if (known.length < 2 || known.every(value => value === known[0])) return new Set();
+
+  const best = better === 'higher' ? Math.max(...known) : Math.min(...known);
+  return new Set(values.flatMap((value, index) => value === best ? [index] : []));
+};
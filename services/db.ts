@@ -1,12 +1,58 @@
+import { Collection, StarHistory } from '../types';
 
 const DB_NAME = 'OpenLensDB';
-const DB_VERSION = 1;
+const DB_VERSION = 4;
 const STORE_NAME = 'api_cache';
+// User data rather than cache: never swept, evicted or cleared with the cache
+const COLLECTIONS_STORE = 'collections';
+// Grows a little on every visit instead of expiring, so it lives outside the swept cache
+const STAR_HISTORY_STORE = 'star_history';
 
-interface CacheEntry {
+const DAY = 1000 * 60 * 60 * 24;
+// Entries older than this are no longer served, not even for revalidation. Search pages go
+// stale fastest and pile up one per filter combination; READMEs and statistics change slowly.
+const MAX_ENTRY_AGE: Record<CacheCategory, number> = {
+  search: DAY,
+  issues: DAY * 2,
+  pulls: DAY * 2,
+  releases: DAY * 3,
+  code: DAY * 7,
+  languages: DAY * 7,
+  readme: DAY * 7,
+  stats: DAY * 7,
+};
+const DEFAULT_MAX_ENTRY_AGE = DAY;
+const SHORTEST_MAX_ENTRY_AGE = Math.min(DEFAULT_MAX_ENTRY_AGE, ...Object.values(MAX_ENTRY_AGE));
+// Approximate size (serialized characters) the cache may grow to before the least recently used entries go
+const CACHE_SIZE_BUDGET = 20 * 1024 * 1024;
+const SWEEP_INTERVAL = 1000 * 60 * 10;
+
+export type CacheCategory = 'search' | 'issues' | 'pulls' | 'releases' | 'code' | 'languages' | 'readme' | 'stats';
+
+export interface CacheEntry {
   key: string;
   data: any;
   timestamp: number;
+  category?: CacheCategory;
+  // Serialized length of key and data, an estimate of the space the entry takes
+  size?: number;
+  // Last read or write, for least recently used eviction
+  lastAccessed?: number;
+  // Fetched with a user token, so it may contain private data and is dropped on sign-out
+  authenticated?: boolean;
+  // Validators for conditional requests: a 304 answer means `data` is still current
+  etag?: string;
+  lastModified?: string;
+}
+
+export type CacheMeta = Omit<CacheEntry, 'key' | 'data' | 'timestamp' | 'size' | 'lastAccessed'>;
+
+const isExpired = (entry: CacheEntry, now = Date.now()) =>
+  now - entry.timestamp > (entry.category ? MAX_ENTRY_AGE[entry.category] : DEFAULT_MAX_ENTRY_AGE);
+
+export interface CacheCategoryStats {
+  count: number;
+  size: number;
 }
 
 export const initDB = (): Promise<IDBDatabase> => {
@@ -14,12 +60,30 @@ export const initDB = (): Promise<IDBDatabase> => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
 
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema instead of blocking it
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      if (event.oldVersion < 2) {
+        // v1 entries carry none of the indexed fields; it is only a cache, so start over
+        if (db.objectStoreNames.contains(STORE_NAME)) {
+          db.deleteObjectStore(STORE_NAME);
+        }
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('timestamp', 'timestamp');
+        store.createIndex('lastAccessed', 'lastAccessed');
+        store.createIndex('category', 'category');
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(COLLECTIONS_STORE, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 4) {
+        db.createObjectStore(STAR_HISTORY_STORE, { keyPath: 'repo' });
       }
     };
   });
@@ -29,11 +93,20 @@ export const getFromDB = async (key: string): Promise<CacheEntry | null> => {
   try {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readonly');
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
       const request = store.get(key);
 
-      request.onsuccess = () => resolve(request.result || null);
+      request.onsuccess = () => {
+        const entry: CacheEntry | undefined = request.result;
+        if (!entry || isExpired(entry)) {
+          resolve(null);
+          return;
+        }
+        // Reads count as use for eviction
+        store.put({ ...entry, lastAccessed: Date.now() });
+        resolve(entry);
+      };
       request.onerror = () => reject(request.error);
     });
   } catch (error) {
@@ -42,13 +115,15 @@ export const getFromDB = async (key: string): Promise<CacheEntry | null> => {
   }
 };
 
-export const saveToDB = async (key: string, data: any) => {
+export const saveToDB = async (key: string, data: any, meta: CacheMeta = {}) => {
   try {
     const db = await initDB();
     return new Promise<void>((resolve, reject) => {
       const transaction = db.transaction(STORE_NAME, 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
-      const entry: CacheEntry = { key, data, timestamp: Date.now() };
+      const now = Date.now();
+      const size = key.length + (JSON.stringify(data)?.length || 0);
+      const entry: CacheEntry = { ...meta, key, data, timestamp: now, size, lastAccessed: now };
       const request = store.put(entry);
 
       request.onsuccess = () => resolve();
@@ -58,3 +133,210 @@ export const saveToDB = async (key: string, data: any) => {
     console.warn('DB Write Error:', error);
   }
 };
+
+/** Deletes cache entries and star histories read with a token, which may hold private data. */
+export const purgeAuthenticatedEntries = async () => {
+  try {
+    const db = await initDB();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, STAR_HISTORY_STORE], 'readwrite');
+      [STORE_NAME, STAR_HISTORY_STORE].forEach(storeName => {
+        const request = transaction.objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          if ((cursor.value as CacheEntry | StarHistory).authenticated) cursor.delete();
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+      transaction.oncomplete = () => resolve();
+    });
+  } catch (error) {
+    console.warn('DB Purge Error:', error);
+  }
+};
+
+/**
+ * Deletes entries past their category's `MAX_ENTRY_AGE`, then evicts the least recently used
+ * ones until the rest fits in `CACHE_SIZE_BUDGET`.
+ */
+export const sweepCache = async () => {
+  try {
+    const db = await initDB();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+
+      // Only entries past the shortest age can have expired; each is checked against its own
+      const now = Date.now();
+      const expired = store.index('timestamp').openCursor(IDBKeyRange.upperBound(now - SHORTEST_MAX_ENTRY_AGE));
+      expired.onsuccess = () => {
+        const cursor = expired.result;
+        if (cursor) {
+          if (isExpired(cursor.value as CacheEntry, now)) cursor.delete();
+          cursor.continue();
+          return;
+        }
+
+        // Oldest use first: sum everything, then drop from the front until under budget
+        const entries: { key: string; size: number }[] = [];
+        const byAccess = store.index('lastAccessed').openCursor();
+        byAccess.onsuccess = () => {
+          const accessCursor = byAccess.result;
+          if (accessCursor) {
+            const entry = accessCursor.value as CacheEntry;
+            entries.push({ key: entry.key, size: entry.size || 0 });
+            accessCursor.continue();
+            return;
+          }
+
+          let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+          for (const entry of entries) {
+            if (total <= CACHE_SIZE_BUDGET) break;
+            store.delete(entry.key);
+            total -= entry.size;
+          }
+        };
+        byAccess.onerror = () => reject(byAccess.error);
+      };
+      expired.onerror = () => reject(expired.error);
+      transaction.oncomplete = () => resolve();
+    });
+  } catch (error) {
+    console.warn('DB Sweep Error:', error);
+  }
+};
+
+/** Sweeps now and every `SWEEP_INTERVAL`. Returns a function that stops the timer. */
+export const startCacheSweeper = () => {
+  sweepCache();
+  const timer = setInterval(sweepCache, SWEEP_INTERVAL);
+  return () => clearInterval(timer);
+};
+
+export const getCacheStats = async (): Promise<Partial<Record<CacheCategory, CacheCategoryStats>>> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const stats: Partial<Record<CacheCategory, CacheCategoryStats>> = {};
+      const transaction = db.transaction(STORE_NAME, 'readonly');
+      const request = transaction.objectStore(STORE_NAME).index('category').openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const entry = cursor.value as CacheEntry;
+        const category = entry.category as CacheCategory;
+        const current = stats[category] || { count: 0, size: 0 };
+        stats[category] = { count: current.count + 1, size: current.size + (entry.size || 0) };
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve(stats);
+    });
+  } catch (error) {
+    console.warn('DB Stats Error:', error);
+    return {};
+  }
+};
+
+/** Deletes every entry of `category`, or the whole cache (star histories included) when none is given. */
+export const clearCache = async (category?: CacheCategory) => {
+  try {
+    const db = await initDB();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(category ? STORE_NAME : [STORE_NAME, STAR_HISTORY_STORE], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+
+      if (!category) {
+        store.clear();
+        transaction.objectStore(STAR_HISTORY_STORE).clear();
+        return;
+      }
+
+      const request = store.index('category').openCursor(IDBKeyRange.only(category));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.delete();
+        cursor.continue();
+      };
+    });
+  } catch (error) {
+    console.warn('DB Clear Error:', error);
+  }
+};
+
+export const getCollectionsFromDB = async (): Promise<Collection[]> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(COLLECTIONS_STORE, 'readonly');
+      const request = transaction.objectStore(COLLECTIONS_STORE).getAll();
+
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.warn('DB Collections Read Error:', error);
+    return [];
+  }
+};
+
+// Unlike the cache helpers these reject, losing a user's edit silently would be worse than an error
+export const saveCollectionsToDB = async (collections: Collection[]) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(COLLECTIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(COLLECTIONS_STORE);
+    collections.forEach(collection => store.put(collection));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteCollectionFromDB = async (id: string) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(COLLECTIONS_STORE, 'readwrite');
+    transaction.objectStore(COLLECTIONS_STORE).delete(id);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getStarHistoryFromDB = async (repo: string): Promise<StarHistory | null> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STAR_HISTORY_STORE, 'readonly');
+      const request = transaction.objectStore(STAR_HISTORY_STORE).get(repo);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.warn('DB Star History Read Error:', error);
+    return null;
+  }
+};
+
+export const saveStarHistoryToDB = async (history: StarHistory) => {
+  try {
+    const db = await initDB();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STAR_HISTORY_STORE, 'readwrite');
+      transaction.objectStore(STAR_HISTORY_STORE).put(history);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.warn('DB Star History Write Error:', error);
+  }
+};
@@ -1,8 +1,12 @@
 
 
-import { searchRepositories } from './githubService';
+import { getCommitActivity, getFileContent, getLatestRelease, getLinkedPullRequests, getRepoIssues, getRepoPulls, getStarHistory, searchRepositories, searchStarterIssues, setAuthToken } from './githubService';
+import { getRateLimits } from './rateLimit';
+import { getTrendingSource, setTrendingSource } from './trending';
 import { SortOption, OrderOption, FilterState } from '../types';
+import { DEFAULT_FILTERS, DEFAULT_ISSUE_FILTERS, DEFAULT_ISSUE_FINDER, DEFAULT_QUALIFIERS } from '../constants';
 import * as db from './db';
+import { TextDecoder } from 'util';
 
 // Fix for missing type definitions for Jest globals
 declare const jest: any;
@@ -16,20 +20,29 @@ declare const global: any;
 jest.mock('./db', () => ({
   getFromDB: jest.fn(),
   saveToDB: jest.fn(),
+  getStarHistoryFromDB: jest.fn(),
+  saveStarHistoryToDB: jest.fn(),
 }));
 
 // Mock global fetch
 global.fetch = jest.fn();
 
+// jsdom has no TextDecoder, which decodes file contents
+global.TextDecoder = TextDecoder;
+
 describe('searchRepositories', () => {
   const mockFilters: FilterState = {
     query: '',
     language: [],
+    languageMode: 'and',
     license: 'All',
     sort: SortOption.STARS,
     order: OrderOption.DESC,
     minStars: 0,
     maxStars: 50000,
+    minHealth: 0,
+    trendingSince: 'daily',
+    qualifiers: DEFAULT_QUALIFIERS,
   };
 
   beforeEach(() => {
@@ -38,13 +51,14 @@ describe('searchRepositories', () => {
 
   it('should return cached data if available and fresh', async () => {
     const cachedData = { items: [], total_count: 0 };
+    const timestamp = Date.now(); // Fresh
     (db.getFromDB as any).mockResolvedValue({
-      timestamp: Date.now(), // Fresh
+      timestamp,
       data: cachedData,
     });
 
     const result = await searchRepositories(mockFilters);
-    expect(result).toEqual(cachedData);
+    expect(result).toEqual({ ...cachedData, stale: false, fetchedAt: timestamp });
     expect(global.fetch).not.toHaveBeenCalled();
   });
 
@@ -60,6 +74,17 @@ describe('searchRepositories', () => {
     expect(db.saveToDB).toHaveBeenCalled();
   });
 
+  it('should key the cache on the search, not the order filters were picked in', async () => {
+    (db.getFromDB as any).mockResolvedValue({ timestamp: Date.now(), data: { items: [], total_count: 0 } });
+
+    await searchRepositories({ ...mockFilters, language: ['Rust', 'Go'], minHealth: 0 });
+    await searchRepositories({ ...mockFilters, language: ['Go', 'Rust'], minHealth: 60 });
+
+    const [[first], [second]] = (db.getFromDB as any).mock.calls;
+    expect(first).toBe(second);
+    expect(first).not.toContain('{');
+  });
+
   it('should construct correct query for standard search', async () => {
     (db.getFromDB as any).mockResolvedValue(null);
     (global.fetch as any).mockResolvedValue({
@@ -89,6 +114,45 @@ describe('searchRepositories', () => {
     expect(callUrl).toContain('github-trending-api-seven.vercel.app');
   });
 
+  it('should look trending repositories up on GitHub and keep the trending order', async () => {
+    (db.getFromDB as any).mockResolvedValue(null);
+    (global.fetch as any)
+      .mockResolvedValueOnce({ ok: true, json: async () => [{ author: 'acme', name: 'lib' }, { author: 'gone', name: 'repo' }, { author: 'octo', name: 'cli' }] })
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: new Map(),
+        json: async () => ({ items: [{ id: 2, full_name: 'octo/cli' }, { id: 1, full_name: 'Acme/lib' }], total_count: 2 }),
+      });
+
+    const result = await searchRepositories({ ...mockFilters, sort: SortOption.TRENDING, trendingSince: 'weekly' });
+
+    expect((global.fetch as any).mock.calls[0][0]).toContain('since=weekly');
+    expect(decodeURIComponent((global.fetch as any).mock.calls[1][0])).toContain('repo:acme/lib+repo:gone/repo+repo:octo/cli');
+    expect(result.items.map((repo: any) => repo.id)).toEqual([1, 2]);
+  });
+
+  it('should read trending lists from the source set with setTrendingSource', async () => {
+    const stub = { id: 'stub', fetchTrending: jest.fn().mockResolvedValue([{ fullName: 'acme/lib', periodStars: 12 }]) };
+    const original = getTrendingSource();
+    setTrendingSource(stub);
+    try {
+      (db.getFromDB as any).mockResolvedValue(null);
+      (global.fetch as any).mockResolvedValue({
+        ok: true,
+        headers: new Map(),
+        json: async () => ({ items: [{ id: 1, full_name: 'acme/lib' }], total_count: 1 }),
+      });
+
+      const result = await searchRepositories({ ...mockFilters, sort: SortOption.TRENDING, trendingSince: 'monthly', language: ['Go'] });
+
+      expect(stub.fetchTrending).toHaveBeenCalledWith('monthly', 'Go');
+      expect((global.fetch as any).mock.calls.map(([url]: [string]) => url).join(' ')).not.toContain('vercel.app');
+      expect(result.items.map((repo: any) => repo.id)).toEqual([1]);
+    } finally {
+      setTrendingSource(original);
+    }
+  });
+
   it('should fallback to API heuristic for trending if star filter is present', async () => {
     (db.getFromDB as any).mockResolvedValue(null);
     (global.fetch as any).mockResolvedValue({
@@ -108,7 +172,7 @@ describe('searchRepositories', () => {
     expect(callUrl).toContain('created%3A%3E'); 
   });
 
-  it('should handle single language with inclusive keyword search', async () => {
+  it('should filter a single language on the primary language', async () => {
     (db.getFromDB as any).mockResolvedValue(null);
     (global.fetch as any).mockResolvedValue({
       ok: true,
@@ -119,26 +183,140 @@ describe('searchRepositories', () => {
     await searchRepositories(filters);
 
     const callUrl = (global.fetch as any).mock.calls[0][0];
-    // Should match keyword "Python", not language:Python
-    expect(decodeURIComponent(callUrl)).toContain('"Python"');
-    expect(decodeURIComponent(callUrl)).not.toContain('language:Python');
+    const query = new URL(callUrl).searchParams.get('q');
+    expect(query).toContain('language:Python');
+    expect(query).not.toContain('"Python"');
   });
 
-  it('should handle multiple languages with inclusive AND logic', async () => {
+  it('should match multiple languages as keywords in AND mode', async () => {
     (db.getFromDB as any).mockResolvedValue(null);
     (global.fetch as any).mockResolvedValue({
       ok: true,
       json: async () => ({ items: [], total_count: 0 }),
     });
 
-    const filters = { ...mockFilters, language: ['Rust', 'Go'] };
+    const filters = { ...mockFilters, language: ['Rust', 'Go'], languageMode: 'and' as const };
     await searchRepositories(filters);
 
     const callUrl = (global.fetch as any).mock.calls[0][0];
-    // Decoded URL should contain "Rust" "Go"
-    expect(decodeURIComponent(callUrl)).toContain('"Rust" "Go"');
+    const query = new URL(callUrl).searchParams.get('q');
+    expect(query).toContain('"Rust" "Go"');
+    expect(query).not.toContain('language:');
   });
   
+  it('should search each language on its own and merge the results for any-language mode', async () => {
+    (db.getFromDB as any).mockResolvedValue(null);
+    const results: Record<string, any[]> = {
+      Rust: [{ id: 1, stargazers_count: 300 }, { id: 2, stargazers_count: 100 }],
+      Go: [{ id: 3, stargazers_count: 200 }],
+    };
+    (global.fetch as any).mockImplementation(async (url: string) => {
+      const language = decodeURIComponent(url).match(/language:(\w+)/)![1];
+      return { ok: true, headers: new Map(), json: async () => ({ items: results[language], total_count: results[language].length }) };
+    });
+
+    const result = await searchRepositories({ ...mockFilters, language: ['Rust', 'Go'], languageMode: 'or' });
+
+    expect((global.fetch as any).mock.calls).toHaveLength(2);
+    expect(result.items.map((repo: any) => repo.id)).toEqual([1, 3, 2]);
+    expect(result.total_count).toBe(3);
+  });
+
+  it('should continue past the result cap in a search narrowed to the last star count', async () => {
+    (db.getFromDB as any).mockResolvedValue(null);
+    const repos = (from: number, count: number, stars: (i: number) => number) =>
+      Array.from({ length: count }, (_, i) => ({ id: from + i, stargazers_count: stars(i) }));
+    (global.fetch as any).mockImplementation(async (url: string) => {
+      const params = new URL(url).searchParams;
+      const sharded = params.get('q')!.includes('stars:');
+      const items = !sharded
+        ? repos(params.get('page') === '20' ? 951 : 1, 50, i => (i >= 48 ? 500 : 600))
+        : [...repos(999, 2, () => 500), ...repos(2000, 10, () => 400)];
+      return { ok: true, headers: new Map(), json: async () => ({ items, total_count: sharded ? 12 : 5000 }) };
+    });
+
+    const result = await searchRepositories({ ...mockFilters, query: 'react' }, 21);
+
+    const urls = (global.fetch as any).mock.calls.map((call: any[]) => decodeURIComponent(call[0]));
+    expect(urls.some((url: string) => url.includes('q=react+stars:0..500') && url.includes('page=1&'))).toBe(true);
+    // The two repositories on the boundary were listed on page 20 already
+    expect(result.items.map((repo: any) => repo.id)).toEqual(repos(2000, 10, () => 400).map(repo => repo.id));
+    expect(result.total_count).toBe(1010);
+  });
+
+  it('should warn when results past the cap cannot be reached', async () => {
+    const result = await searchRepositories({ ...mockFilters, sort: SortOption.UPDATED }, 21);
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(result.items).toEqual([]);
+    expect(result.warning).toContain('first 1,000 results');
+  });
+
+  it('should revalidate an expired cache entry with its ETag', async () => {
+    const cachedData = { items: [], total_count: 0 };
+    (db.getFromDB as any).mockResolvedValue({
+      key: 'search',
+      timestamp: 0, // Expired
+      data: cachedData,
+      etag: 'W/"abc"',
+    });
+    (global.fetch as any).mockResolvedValue({
+      ok: false,
+      status: 304,
+    });
+
+    const result = await searchRepositories(mockFilters);
+
+    const callHeaders = (global.fetch as any).mock.calls[0][1].headers;
+    expect(callHeaders['If-None-Match']).toBe('W/"abc"');
+    // 304 keeps the cached data and refreshes its timestamp
+    expect(result.items).toEqual(cachedData.items);
+    expect(result.fetchedAt).toBeGreaterThan(0);
+    expect(db.saveToDB).toHaveBeenCalled();
+  });
+
+  it('should store validators from a fresh response', async () => {
+    (db.getFromDB as any).mockResolvedValue(null);
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Map([['etag', '"xyz"']]),
+      json: async () => ({ items: [], total_count: 0 }),
+    });
+
+    await searchRepositories(mockFilters);
+
+    const meta = (db.saveToDB as any).mock.calls[0][2];
+    expect(meta.etag).toBe('"xyz"');
+  });
+
+  it('should serve an expired entry as stale and revalidate it in the background', async () => {
+    const cachedData = { items: [], total_count: 0 };
+    (db.getFromDB as any).mockResolvedValue({
+      key: 'search',
+      timestamp: Date.now() - 1000 * 60 * 30, // Expired, but within the stale window
+      data: cachedData,
+    });
+    const freshData = { items: [], total_count: 1 };
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => freshData,
+    });
+
+    let onRevalidate: any;
+    const revalidated = new Promise<any>(resolve => { onRevalidate = resolve; });
+
+    const result = await searchRepositories(mockFilters, 1, null, { staleWhileRevalidate: true, onRevalidate });
+    expect(result.stale).toBe(true);
+    expect(result.items).toEqual(cachedData.items);
+
+    const fresh = await revalidated;
+    expect(fresh.total_count).toBe(1);
+    expect(fresh.stale).toBe(false);
+    expect(db.saveToDB).toHaveBeenCalled();
+  });
+
   it('should handle API errors gracefully', async () => {
     (db.getFromDB as any).mockResolvedValue(null);
     (global.fetch as any).mockResolvedValue({
@@ -150,3 +328,264 @@ describe('searchRepositories', () => {
     await expect(searchRepositories(mockFilters)).rejects.toThrow('GitHub API Error: Internal Server Error');
   });
 });
+
+describe('getStarHistory', () => {
+  const stargazers = (count: number, day = 1) =>
+    Array.from({ length: count }, (_, i) => ({ starred_at: new Date(Date.UTC(2024, 0, day + i)).toISOString() }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should resume a stored history on the page it ended on', async () => {
+    (db.getStarHistoryFromDB as any).mockResolvedValue({
+      repo: 'acme/lib',
+      points: [{ date: '2024-01-01T00:00:00.000Z', stars: 1 }, { date: '2024-01-02T00:00:00.000Z', stars: 2 }],
+      sampled: false,
+      lastPage: 1,
+      lastPageCount: 2,
+      updatedAt: 0,
+    });
+    (global.fetch as any).mockResolvedValue({ ok: true, headers: new Map(), json: async () => stargazers(3) });
+
+    const history = await getStarHistory('acme', 'lib');
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect((global.fetch as any).mock.calls[0][0]).toContain('/stargazers?per_page=100&page=1');
+    expect((global.fetch as any).mock.calls[0][1].headers['Accept']).toBe('application/vnd.github.star+json');
+    expect(history.points.map((point: any) => point.stars)).toEqual([1, 2, 3]);
+    expect(history.lastPageCount).toBe(3);
+    expect(db.saveStarHistoryToDB).toHaveBeenCalledWith(history);
+    // Read anonymously, so signing out keeps it
+    expect(history.authenticated).toBe(false);
+  });
+
+  it('should sample the pages of large repositories', async () => {
+    (db.getStarHistoryFromDB as any).mockResolvedValue(null);
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      headers: new Map([['link', '<https://api.github.com/repositories/1/stargazers?per_page=100&page=200>; rel="last"']]),
+      json: async () => stargazers(100),
+    });
+
+    const history = await getStarHistory('acme', 'big');
+
+    expect(global.fetch).toHaveBeenCalledTimes(10);
+    expect(history.sampled).toBe(true);
+    expect(history.lastPage).toBe(200);
+    expect(history.points[history.points.length - 1].stars).toBe(20000);
+  });
+});
+
+describe('getCommitActivity', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should retry while GitHub is still computing the statistics', async () => {
+    const weeks = [{ week: 1700000000, total: 3, days: [0, 1, 1, 1, 0, 0, 0] }];
+    (db.getFromDB as any).mockResolvedValue(null);
+    (global.fetch as any)
+      .mockResolvedValueOnce({ ok: true, status: 202, headers: new Map(), json: async () => ({}) })
+      .mockResolvedValueOnce({ ok: true, status: 200, headers: new Map(), json: async () => weeks });
+
+    const result = await getCommitActivity('acme', 'lib');
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(result).toEqual(weeks);
+    expect(db.saveToDB).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getRepoPulls', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should search merged and unmerged pull requests a page at a time', async () => {
+    const items = [{ id: 1, number: 1, pull_request: { merged_at: '2025-01-02T00:00:00Z' } }];
+    (db.getFromDB as any).mockResolvedValue(null);
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Map([['link', '<https://api.github.com/search/issues?q=repo%3Aacme%2Flib&page=3>; rel="next"']]),
+      json: async () => ({ items }),
+    });
+
+    const merged = await getRepoPulls('acme', 'lib', { state: 'merged', sort: 'popularity', direction: 'desc' }, 2);
+    await getRepoPulls('acme', 'lib', { state: 'closed', sort: 'created', direction: 'desc' });
+
+    const mergedUrl = new URL((global.fetch as any).mock.calls[0][0]);
+    expect(mergedUrl.pathname).toBe('/search/issues');
+    expect(mergedUrl.searchParams.get('q')).toBe('repo:acme/lib is:pr is:closed is:merged');
+    expect(mergedUrl.searchParams.get('sort')).toBe('comments');
+    expect(mergedUrl.searchParams.get('page')).toBe('2');
+    expect(new URL((global.fetch as any).mock.calls[1][0]).searchParams.get('q')).toContain('is:unmerged');
+    expect(merged.pulls[0].merged_at).toBe('2025-01-02T00:00:00Z');
+    expect(merged.nextPage).toBe(3);
+  });
+
+  it('should page open pull requests through the pulls endpoint', async () => {
+    (db.getFromDB as any).mockResolvedValue(null);
+    (global.fetch as any).mockResolvedValue({ ok: true, status: 200, headers: new Map(), json: async () => [{ id: 1, number: 1, merged_at: null }] });
+
+    const open = await getRepoPulls('acme', 'lib', { state: 'open', sort: 'created', direction: 'desc' });
+
+    expect((global.fetch as any).mock.calls[0][0]).toContain('/pulls?state=open');
+    expect(open.pulls.map(pull => pull.number)).toEqual([1]);
+    expect(open.nextPage).toBeNull();
+  });
+});
+
+describe('getRepoIssues', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should page through the Link header and drop pull requests', async () => {
+    (db.getFromDB as any).mockResolvedValue(null);
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Map([['link', '<https://api.github.com/repositories/1/issues?state=closed&page=3>; rel="next", <https://api.github.com/repositories/1/issues?state=closed&page=9>; rel="last"']]),
+      json: async () => [{ id: 1, number: 1 }, { id: 2, number: 2, pull_request: {} }],
+    });
+
+    const result = await getRepoIssues('acme', 'lib', { ...DEFAULT_ISSUE_FILTERS, state: 'closed', creator: 'octocat' }, 2);
+
+    const url = (global.fetch as any).mock.calls[0][0];
+    expect(url).toContain('state=closed');
+    expect(url).toContain('creator=octocat');
+    expect(url).toContain('page=2');
+    expect(result.issues.map(issue => issue.number)).toEqual([1]);
+    expect(result.nextPage).toBe(3);
+  });
+
+  it('should share a cache entry between equivalent filters', async () => {
+    (db.getFromDB as any).mockResolvedValue(null);
+    (global.fetch as any).mockResolvedValue({ ok: true, status: 200, headers: new Map(), json: async () => [] });
+
+    await getRepoIssues('acme', 'lib', { ...DEFAULT_ISSUE_FILTERS, labels: ['bug', 'ui'], creator: 'Octocat ' });
+    await getRepoIssues('acme', 'lib', { ...DEFAULT_ISSUE_FILTERS, creator: 'octocat', labels: ['ui', 'bug'] });
+
+    const keys = (db.getFromDB as any).mock.calls.map((call: any[]) => call[0]);
+    expect(keys[0]).toBe(keys[1]);
+  });
+});
+
+describe('searchStarterIssues', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should attach repositories and drop issues outside the star range', async () => {
+    const issues = [
+      { id: 1, number: 1, repository_url: 'https://api.github.com/repos/acme/small' },
+      { id: 2, number: 2, repository_url: 'https://api.github.com/repos/acme/huge' },
+    ];
+    (db.getFromDB as any).mockResolvedValue(null);
+    (global.fetch as any)
+      .mockResolvedValueOnce({ ok: true, status: 200, headers: new Map(), json: async () => ({ total_count: 2, items: issues }) })
+      .mockResolvedValueOnce({ ok: true, status: 200, headers: new Map(), json: async () => ({ items: [{ id: 10, full_name: 'acme/small' }] }) });
+
+    const result = await searchStarterIssues({ ...DEFAULT_FILTERS, language: ['Rust'], minStars: 100, maxStars: 5000 }, DEFAULT_ISSUE_FINDER);
+
+    const [issueUrl, repoUrl] = (global.fetch as any).mock.calls.map((call: any[]) => decodeURIComponent(call[0]).replace(/\+/g, ' '));
+    expect(issueUrl).toContain('label:"good first issue","help wanted"');
+    expect(issueUrl).toContain('language:"Rust"');
+    expect(issueUrl).toContain('no:assignee');
+    expect(repoUrl).toContain('repo:acme/small repo:acme/huge stars:100..5000');
+    expect(result.items.map(issue => issue.repository?.full_name)).toEqual(['acme/small']);
+    expect(result.hiddenByStars).toBe(1);
+  });
+});
+
+describe('getLinkedPullRequests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should keep cross-referencing pull requests and mark merged ones', async () => {
+    const timeline = [
+      { event: 'labeled' },
+      { event: 'cross-referenced', source: { issue: { number: 7, title: 'Mentions it', html_url: 'https://github.com/acme/lib/issues/7', state: 'open', repository: { full_name: 'acme/lib' } } } },
+      { event: 'cross-referenced', source: { issue: { number: 9, title: 'Fix it', html_url: 'https://github.com/acme/app/pull/9', state: 'closed', pull_request: { merged_at: '2025-01-01T00:00:00Z' }, repository: { full_name: 'acme/app' } } } },
+    ];
+    (db.getFromDB as any).mockResolvedValue(null);
+    (global.fetch as any).mockResolvedValue({ ok: true, status: 200, headers: new Map(), json: async () => timeline });
+
+    const pulls = await getLinkedPullRequests('acme', 'lib', 3);
+
+    expect(pulls).toEqual([{ number: 9, title: 'Fix it', html_url: 'https://github.com/acme/app/pull/9', state: 'merged', repository: 'acme/app' }]);
+  });
+});
+
+describe('getLatestRelease', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should cache repositories without releases as null', async () => {
+    (db.getFromDB as any).mockResolvedValue(null);
+    (global.fetch as any).mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found', headers: new Map(), json: async () => ({ message: 'Not Found' }) });
+
+    const release = await getLatestRelease('acme', 'lib');
+
+    expect(release).toBeNull();
+    expect(db.saveToDB).toHaveBeenCalledWith('latest_release_acme_lib', null, expect.objectContaining({ category: 'releases' }));
+  });
+});
+
+describe('getFileContent', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should decode text files and cache them by blob SHA', async () => {
+    const content = Buffer.from('const answer = 42;\n').toString('base64');
+    (db.getFromDB as any).mockResolvedValue(null);
+    (global.fetch as any).mockResolvedValue({ ok: true, status: 200, headers: new Map(), json: async () => ({ type: 'file', sha: 'abc123', size: 19, encoding: 'base64', content }) });
+
+    const file = await getFileContent('acme', 'lib', 'src/index.ts', 'main', 'abc123');
+
+    expect(file).toEqual({ sha: 'abc123', size: 19, text: 'const answer = 42;\n', binary: false });
+    expect(db.saveToDB).toHaveBeenCalledWith('blob_abc123', file, expect.objectContaining({ category: 'code' }));
+  });
+
+  it('should not decode binary files', async () => {
+    const content = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]).toString('base64');
+    (db.getFromDB as any).mockResolvedValue(null);
+    (global.fetch as any).mockResolvedValue({ ok: true, status: 200, headers: new Map(), json: async () => ({ type: 'file', sha: 'def456', size: 6, encoding: 'base64', content }) });
+
+    const file = await getFileContent('acme', 'lib', 'logo.png', 'main', 'def456');
+
+    expect(file).toEqual({ sha: 'def456', size: 6, text: null, binary: true });
+  });
+});
+
+describe('rate limits across token changes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not hold requests back on the previous token\'s used up quota', async () => {
+    const resetAt = Math.floor(Date.now() / 1000) + 3600;
+    const exhausted = new Map([['x-ratelimit-limit', '60'], ['x-ratelimit-remaining', '0'], ['x-ratelimit-reset', String(resetAt)], ['x-ratelimit-resource', 'core']]);
+    (db.getFromDB as any).mockResolvedValue(null);
+    (global.fetch as any).mockResolvedValue({ ok: true, status: 200, headers: exhausted, json: async () => [] });
+
+    await getRepoPulls('acme', 'lib', { state: 'open', sort: 'created', direction: 'desc' });
+    expect(getRateLimits().core.remaining).toBe(0);
+
+    (global.fetch as any).mockResolvedValue({ ok: true, status: 200, headers: new Map(), json: async () => [] });
+    setAuthToken('token');
+    try {
+      const timeout = new Promise(resolve => setTimeout(() => resolve('delayed'), 1000));
+      const request = getRepoPulls('acme', 'lib', { state: 'open', sort: 'updated', direction: 'desc' }).then(() => 'sent');
+      expect(await Promise.race([request, timeout])).toBe('sent');
+      expect((global.fetch as any).mock.calls.some(([url]: [string]) => url.endsWith('/rate_limit'))).toBe(true);
+    } finally {
+      setAuthToken('');
+    }
+  });
+});
@@ -1,17 +1,52 @@
 
-import { FilterState, SearchResponse, SortOption, GitHubUserProfile, GitHubRepo, GitHubIssue, GitHubLabel, IssueFilterState } from '../types';
+import { CodeFrequencyWeek, CommitActivityWeek, ContributorStats, FileContent, FilterState, GitHubBranch, OrderOption, SearchResponse, SortOption, GitHubUser, GitHubUserProfile, GitHubRepo, GitHubComment, GitHubIssue, GitHubLabel, CommentPage, LinkedPullRequest, GitHubMilestone, GitHubPullRequest, PullRequestPage, IssueFilterState, IssueFinderFilters, IssuePage, IssueSearchResponse, HealthSignals, MergeStats, PullRequestDetails, PullRequestFilterState, ReviewStatus, GitHubRelease, ReleaseCadence, ReleasePage, ReleaseTimeline, RepoComparisonStats, RepoTree, TagPage, StarHistory, StarHistoryPoint, TrendingSince } from '../types';
 import { MAX_STARS, ITEMS_PER_PAGE } from '../constants';
-import { getFromDB, saveToDB } from './db';
+import { CacheEntry, CacheMeta, getFromDB, getStarHistoryFromDB, purgeAuthenticatedEntries, saveStarHistoryToDB, saveToDB } from './db';
+import { buildRepositoryQuery, composeQuery, hasQualifiers, SearchShard } from './query';
+import { getTrendingSource } from './trending';
+import { acquireQuota, describeRateLimit, getResourceForUrl, getRetryDelay, isRateLimitResponse, recordRateLimit, recordRateLimitSnapshot, releaseQuota, resetRateLimits, waitFor } from './rateLimit';
 
 const BASE_URL = 'https://api.github.com/search/repositories';
+const ISSUE_SEARCH_URL = 'https://api.github.com/search/issues';
 const USER_URL = 'https://api.github.com/users';
 const REPO_URL = 'https://api.github.com/repos';
-const TRENDING_PROXY_URL = 'https://github-trending-api-seven.vercel.app/repositories'; // Open Source Proxy for GitHub Trending
+const STARRED_URL = 'https://api.github.com/user/starred';
 const CACHE_PREFIX = 'openlens_cache_v1_';
 const BROWSING_CACHE_TTL = 1000 * 60 * 15; // 15 Minutes for standard browsing
 const SEARCH_CACHE_TTL = 1000 * 60 * 2;    // 2 Minutes for active text searches
 const ISSUES_CACHE_TTL = 1000 * 60 * 5;    // 5 Minutes for issue lists
+const README_CACHE_TTL = 1000 * 60 * 60;   // 1 Hour for rendered READMEs
+const STATS_CACHE_TTL = 1000 * 60 * 60 * 6; // 6 Hours for contributor and release figures
+const RELEASE_SAMPLE_SIZE = 30;
+const HEALTH_CACHE_TTL = 1000 * 60 * 60 * 12; // 12 Hours for health signals
+const ACTIVITY_WINDOW_DAYS = 90;
+const CLOSED_ISSUE_SAMPLE_SIZE = 50;
+const STAR_HISTORY_TTL = 1000 * 60 * 60 * 6; // 6 Hours before a star history is extended again
+const STARGAZERS_PER_PAGE = 100;
+const MAX_STARGAZER_PAGES = 400; // GitHub lists no more than the first 40,000 stargazers
+const STAR_HISTORY_PAGE_BUDGET = 10; // Stargazer pages one build or extension may request
+const MAX_STAR_HISTORY_POINTS = 300;
+const ACTIVITY_CACHE_TTL = 1000 * 60 * 60; // 1 Hour for repository statistics
+const STATS_RETRY_DELAYS = [1000, 2000, 4000, 8000, 16000]; // Waits while GitHub computes statistics
+const PULLS_PER_PAGE = 30;
+const MERGE_SAMPLE_SIZE = 100;
+const COMMENTS_PER_PAGE = 30;
+const RELEASES_PER_PAGE = 10;
+const TAGS_PER_PAGE = 30;
+const RELEASES_CACHE_TTL = 1000 * 60 * 30; // 30 Minutes for release and tag lists
+const RELEASE_TIMELINE_SIZE = 100;
+const REF_CACHE_TTL = 1000 * 60 * 5; // 5 Minutes before a branch name is resolved again
+const BINARY_SNIFF_BYTES = 8000;
+const HTML_JSON = 'application/vnd.github.html+json'; // JSON with rendered `body_html` fields
+const STARTER_ISSUES_PER_PAGE = 30;
+const MAX_SEARCH_QUERY_LENGTH = 256; // GitHub rejects longer search queries
+const SEARCH_RESULT_CAP = 1000; // GitHub serves no further into a search's results
+const PAGES_PER_SHARD = SEARCH_RESULT_CAP / ITEMS_PER_PAGE;
+// Without a trending source, new repositories created within the window stand in, most starred first
+const TRENDING_WINDOW_DAYS: Record<TrendingSince, number> = { daily: 1, weekly: 7, monthly: 30 };
+const STALE_CACHE_MAX_AGE = 1000 * 60 * 60 * 24; // Oldest search result still shown while revalidating
 const REPOS_KEY = 'openlens_cached_repos';
+const MAX_RATE_LIMIT_RETRIES = 3;
 
 // --- STORAGE HELPERS ---
 
@@ -37,14 +72,36 @@ export const getSessionRepos = (): GitHubRepo[] => {
 // --- AUTH HELPERS ---
 
 let authToken = localStorage.getItem('openlens_auth_token') || '';
+const authExpiredListeners = new Set<() => void>();
 
 export const setAuthToken = (token: string) => {
+    const changed = token !== authToken;
     authToken = token;
     if (token) {
         localStorage.setItem('openlens_auth_token', token);
     } else {
         localStorage.removeItem('openlens_auth_token');
     }
+    // The quotas recorded so far belong to the previous token (or to anonymous access)
+    if (changed) {
+        resetRateLimits();
+        refreshRateLimits();
+    }
+};
+
+export const hasAuthToken = () => !!authToken;
+
+// Called when GitHub rejects the stored token (expired or revoked). Returns an unsubscribe function.
+export const onAuthExpired = (listener: () => void) => {
+    authExpiredListeners.add(listener);
+    return () => {
+        authExpiredListeners.delete(listener);
+    };
+};
+
+export const signOut = async () => {
+    setAuthToken('');
+    await purgeAuthenticatedEntries();
 };
 
 export const validateToken = async (token: string): Promise<GitHubUserProfile> => {
@@ -62,7 +119,7 @@ export const validateToken = async (token: string): Promise<GitHubUserProfile> =
     return await response.json();
 };
 
-const getHeaders = (accept = 'application/vnd.github.v3+json'): HeadersInit => {
+const getHeaders = (accept = 'application/vnd.github.v3+json'): Record<string, string> => {
     const headers: Record<string, string> = {
         'Accept': accept,
     };
@@ -72,16 +129,148 @@ const getHeaders = (accept = 'application/vnd.github.v3+json'): HeadersInit => {
     return headers;
 };
 
+interface GitHubFetchOptions {
+    accept?: string;
+    method?: 'GET' | 'PUT' | 'DELETE';
+    // Expired cache entry to revalidate. GitHub answers 304 for unchanged data and does not
+    // count that against the rate limit.
+    revalidate?: CacheEntry | null;
+    // False for calls GitHub does not meter, which go out even while the quota is used up
+    metered?: boolean;
+}
+
+// Every API call goes through here: it records the quota, holds requests back while the
+// quota is used up (retrying rate limited ones after the reset) and notices a rejected token.
+const githubFetch = async (url: string, { accept, method = 'GET', revalidate, metered = true }: GitHubFetchOptions = {}): Promise<Response> => {
+    const resource = getResourceForUrl(url);
+    const conditionalHeaders: Record<string, string> = {};
+    if (revalidate?.etag) conditionalHeaders['If-None-Match'] = revalidate.etag;
+    if (revalidate?.lastModified) conditionalHeaders['If-Modified-Since'] = revalidate.lastModified;
+
+    for (let attempt = 0; ; attempt++) {
+        const sentToken = authToken;
+        if (metered) await acquireQuota(resource);
+        let response: Response;
+        try {
+            response = await fetch(url, { method, headers: { ...getHeaders(accept), ...conditionalHeaders } });
+        } finally {
+            if (metered) releaseQuota(resource);
+        }
+        recordRateLimit(response.headers, resource);
+
+        if (response.status === 401 && sentToken && sentToken === authToken) {
+            // Drop the dead token so following requests fall back to anonymous access
+            setAuthToken('');
+            authExpiredListeners.forEach(listener => listener());
+        }
+
+        if (!isRateLimitResponse(response) || attempt >= MAX_RATE_LIMIT_RETRIES) {
+            return response;
+        }
+        await waitFor(resource, getRetryDelay(response, resource));
+    }
+};
+
+// Error for a failed response: rate limits get a consistent message, anything else GitHub's own
+const getResponseError = async (url: string, response: Response, fallback: string): Promise<Error> => {
+    if (isRateLimitResponse(response)) {
+        return new Error(describeRateLimit(getResourceForUrl(url)));
+    }
+    try {
+        const errorData = await response.json();
+        if (errorData.message) return new Error(errorData.message);
+    } catch (e) { /* ignore json parse error */ }
+    return new Error(fallback);
+};
+
+// Search sorts GitHub understands; health is applied locally on top of results fetched by stars
+const getApiSort = (sort: SortOption): string =>
+    sort === SortOption.TRENDING || sort === SortOption.HEALTH ? 'stars' : sort;
+
+// Responses fetched with a token are flagged so signing out can purge them
+const saveToCache = (key: string, data: any, meta: CacheMeta = {}) =>
+    saveToDB(key, data, { ...meta, authenticated: !!authToken });
+
+const getValidators = (response: Response): CacheMeta => ({
+    etag: response.headers?.get('etag') || undefined,
+    lastModified: response.headers?.get('last-modified') || undefined,
+});
+
+// A 304 confirms the cached data: keep it (and its validators) with a fresh timestamp
+const refreshCacheEntry = (entry: CacheEntry) =>
+    saveToCache(entry.key, entry.data, { category: entry.category, etag: entry.etag, lastModified: entry.lastModified });
+
+// Seeds the quota indicator; GitHub does not count calls to /rate_limit against the quota
+export const refreshRateLimits = async () => {
+    try {
+        const response = await githubFetch('https://api.github.com/rate_limit', { metered: false });
+        if (!response.ok) return;
+        const data = await response.json();
+        recordRateLimitSnapshot(data.resources || {});
+    } catch (error) {
+        console.warn("Error fetching rate limits:", error);
+    }
+};
+
+export const getAuthenticatedUser = async (): Promise<GitHubUserProfile | null> => {
+    if (!authToken) return null;
+    try {
+        const response = await githubFetch('https://api.github.com/user');
+        if (!response.ok) return null;
+        return await response.json();
+    } catch (error) {
+        console.warn("Error fetching authenticated user:", error);
+        return null;
+    }
+};
+
+// --- STARS ---
+
+/** One page of the signed-in user's starred repositories, most recently starred first. */
+export const getStarredPage = async (page: number, perPage: number): Promise<GitHubRepo[]> => {
+    if (!authToken) throw new Error("Sign in to see your starred repositories.");
+
+    const url = `${STARRED_URL}?per_page=${perPage}&page=${page}`;
+    const response = await githubFetch(url);
+    if (!response.ok) {
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+    return await response.json();
+};
+
+export const setRepoStarred = async (owner: string, repo: string, starred: boolean) => {
+    if (!authToken) throw new Error("Sign in to star repositories.");
+
+    const url = `${STARRED_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    const response = await githubFetch(url, { method: starred ? 'PUT' : 'DELETE' });
+    if (!response.ok) {
+        // Fine-grained tokens without the starring permission are refused with 403/404
+        throw await getResponseError(url, response, starred ? "Could not star this repository." : "Could not unstar this repository.");
+    }
+};
+
 // --- API FUNCTIONS ---
 
-// Helper to generate a unique key for the request
-const getCacheKey = (filters: FilterState, page: number, usernameContext?: string | null) => {
-  const keyData = {
-    ...filters,
-    page,
-    usernameContext: usernameContext || 'none'
-  };
-  return CACHE_PREFIX + JSON.stringify(keyData);
+// Only what changes GitHub's answer, as sorted params: searches that differ in the order their
+// languages or topics were picked share one short key. The health floor is applied locally.
+const getCacheKey = (filters: FilterState, page: number, usernameContext?: string | null, shard?: SearchShard | null) => {
+  const { qualifiers } = filters;
+  const languages = filters.language.filter(lang => lang !== 'All').sort();
+  const params = new URLSearchParams({
+    q: composeQuery({ ...filters, qualifiers: { ...qualifiers, topics: [...qualifiers.topics].sort(), searchIn: [...qualifiers.searchIn].sort() } }),
+    lang: languages.join(','),
+    langmode: languages.length > 1 ? filters.languageMode : '',
+    license: filters.license,
+    sort: filters.sort,
+    order: filters.order,
+    stars: `${filters.minStars}..${filters.maxStars}`,
+    since: filters.trendingSince,
+    page: String(page),
+    user: usernameContext || '',
+    shard: shard ? `${shard.field}:${shard.min ?? ''}..${shard.max ?? ''}` : '',
+  });
+  params.sort();
+  return CACHE_PREFIX + params.toString();
 };
 
 // Helper to get date string (YYYY-MM-DD) for N days ago
@@ -91,43 +280,40 @@ const getDateNDaysAgo = (n: number) => {
   return date.toISOString().split('T')[0];
 };
 
-// Fetch real trending data to match github.com/trending 1:1
-const fetchTrendingProxy = async (language?: string): Promise<SearchResponse> => {
-    // Trending Proxy does NOT use GitHub Auth headers as it's a scraper proxy
-    let url = `${TRENDING_PROXY_URL}?since=daily`;
-    if (language && language !== 'All') {
-        url += `&language=${encodeURIComponent(language)}`;
-    }
-
-    const res = await fetch(url);
-    if (!res.ok) throw new Error('Trending Proxy Error');
-    const data = await res.json();
-
-    // Map proxy structure to GitHubRepo structure
-    const items: any[] = data.map((repo: any, idx: number) => ({
-        id: idx + 9990000 + Math.floor(Math.random() * 100000), // Synthetic ID
-        name: repo.name,
-        full_name: `${repo.author}/${repo.name}`,
-        description: repo.description,
-        html_url: repo.url,
-        stargazers_count: repo.stars,
-        forks_count: repo.forks,
-        language: repo.language,
-        owner: {
-            login: repo.author,
-            avatar_url: repo.avatar,
-            html_url: `https://github.com/${repo.author}`
-        },
-        updated_at: new Date().toISOString(), // Not provided by trending API
-        pushed_at: new Date().toISOString(),
-        topics: [], // Not provided
-        license: null, // Not provided
-        size: 0, // Not provided
-        open_issues_count: 0, // Not provided
-        has_issues: true, // Assume true for trending
-        archived: false // Assume false for trending
+// Looks repositories up by full name. Repository search takes a list of `repo:` qualifiers, so a
+// few queries cover a page of names; `qualifiers` (e.g. a star range) narrow every batch.
+const getRepositoriesByName = async (fullNames: string[], qualifiers = ''): Promise<Map<string, GitHubRepo>> => {
+    const suffix = qualifiers ? ` ${qualifiers}` : '';
+    const batches: string[][] = [];
+    fullNames.forEach(fullName => {
+        const batch = batches[batches.length - 1];
+        const length = batch ? batch.map(name => `repo:${name} `).join('').length + suffix.length : Infinity;
+        if (length + `repo:${fullName}`.length > MAX_SEARCH_QUERY_LENGTH) batches.push([fullName]);
+        else batch.push(fullName);
+    });
+
+    const repos = new Map<string, GitHubRepo>();
+    await Promise.all(batches.map(async batch => {
+        const q = `${batch.map(name => `repo:${name}`).join(' ')}${suffix}`;
+        const url = `${BASE_URL}?${new URLSearchParams({ q, per_page: '100' }).toString()}`;
+        const response = await githubFetch(url);
+        if (!response.ok) {
+            throw await getResponseError(url, response, `GitHub API Error: ${response.status} ${response.statusText}`);
+        }
+        const data: SearchResponse = await response.json();
+        data.items.forEach(repo => repos.set(repo.full_name.toLowerCase(), repo));
     }));
+    return repos;
+};
 
+// github.com/trending as read by the configured source (see services/trending.ts). Sources only
+// name repositories, so each one is looked up on GitHub for its real id, topics, license and dates.
+const fetchTrending = async (since: TrendingSince, language?: string): Promise<SearchResponse> => {
+    const entries = await getTrendingSource().fetchTrending(since, language);
+    const repos = entries.length > 0 ? await getRepositoriesByName(entries.map(entry => entry.fullName)) : new Map<string, GitHubRepo>();
+
+    // Trending order; repositories GitHub no longer finds under that name (renamed, removed) drop out
+    const items = entries.flatMap(entry => repos.get(entry.fullName.toLowerCase()) || []);
     return {
         total_count: items.length,
         incomplete_results: false,
@@ -136,21 +322,28 @@ const fetchTrendingProxy = async (language?: string): Promise<SearchResponse> =>
 };
 
 export const getRepositoryReadme = async (owner: string, repo: string): Promise<string | null> => {
+  const cacheKey = `readme_${owner}_${repo}`;
   try {
+    const cached = await getFromDB(cacheKey);
+    // Missing READMEs are cached as null too, so they are not re-requested on every visit
+    if (cached && (Date.now() - cached.timestamp < README_CACHE_TTL)) {
+        return cached.data;
+    }
+
     const encodedOwner = encodeURIComponent(owner);
     const encodedRepo = encodeURIComponent(repo);
-    const response = await fetch(`${REPO_URL}/${encodedOwner}/${encodedRepo}/readme`, {
-      headers: getHeaders('application/vnd.github.html'),
-    });
+    const response = await githubFetch(`${REPO_URL}/${encodedOwner}/${encodedRepo}/readme`, { accept: 'application/vnd.github.html' });
 
     if (!response.ok) {
+        if (response.status === 404) await saveToCache(cacheKey, null, { category: 'readme' });
         return null;
     }
 
     const text = await response.text();
-    if (!text || text.trim().length === 0) return null;
+    const readme = text && text.trim().length > 0 ? text : null;
+    await saveToCache(cacheKey, readme, { category: 'readme' });
     
-    return text;
+    return readme;
   } catch (error) {
     console.warn("Error fetching readme:", error);
     return null;
@@ -168,12 +361,14 @@ export const getRepoLanguages = async (owner: string, repo: string): Promise<Rec
             return cached.data;
         }
 
-        const response = await fetch(`${REPO_URL}/${encodedOwner}/${encodedRepo}/languages`, {
-            headers: getHeaders()
-        });
+        const response = await githubFetch(`${REPO_URL}/${encodedOwner}/${encodedRepo}/languages`, { revalidate: cached });
+        if (response.status === 304 && cached) {
+            await refreshCacheEntry(cached);
+            return cached.data;
+        }
         if (!response.ok) return {};
         const data = await response.json();
-        await saveToDB(cacheKey, data);
+        await saveToCache(cacheKey, data, { category: 'languages', ...getValidators(response) });
         return data;
     } catch (error) {
         console.warn("Error fetching languages", error);
@@ -185,9 +380,7 @@ export const getRepoLabels = async (owner: string, repo: string): Promise<GitHub
     const encodedOwner = encodeURIComponent(owner);
     const encodedRepo = encodeURIComponent(repo);
     try {
-        const response = await fetch(`${REPO_URL}/${encodedOwner}/${encodedRepo}/labels?per_page=100`, {
-            headers: getHeaders()
-        });
+        const response = await githubFetch(`${REPO_URL}/${encodedOwner}/${encodedRepo}/labels?per_page=100`);
         if (!response.ok) return [];
         return await response.json();
     } catch (error) {
@@ -196,10 +389,42 @@ export const getRepoLabels = async (owner: string, repo: string): Promise<GitHub
     }
 }
 
-export const getRepoIssues = async (owner: string, repo: string, filters: IssueFilterState): Promise<GitHubIssue[]> => {
+export const getRepoMilestones = async (owner: string, repo: string): Promise<GitHubMilestone[]> => {
+    try {
+        const response = await githubFetch(`${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/milestones?state=all&sort=due_on&per_page=100`);
+        if (!response.ok) return [];
+        return await response.json();
+    } catch (error) {
+        console.warn("Error fetching milestones", error);
+        return [];
+    }
+};
+
+// Page number of the rel="next" link, or null on the last page
+const getNextPage = (link: string | null): number | null => {
+    const match = link?.match(/[?&]page=(\d+)[^>]*>;\s*rel="next"/);
+    return match ? parseInt(match[1], 10) : null;
+};
+
+// Every filter dimension in a fixed order, so equal filters always share one cache entry
+const getIssuesCacheKey = (owner: string, repo: string, filters: IssueFilterState, page: number) =>
+    `issues_${owner}_${repo}_${JSON.stringify([
+        filters.state,
+        filters.sort,
+        filters.direction,
+        [...filters.labels].sort(),
+        filters.assignee.trim().toLowerCase(),
+        filters.creator.trim().toLowerCase(),
+        filters.mentioned.trim().toLowerCase(),
+        filters.milestone,
+        filters.since,
+        page,
+    ])}`;
+
+export const getRepoIssues = async (owner: string, repo: string, filters: IssueFilterState, page: number = 1): Promise<IssuePage> => {
     const encodedOwner = encodeURIComponent(owner);
     const encodedRepo = encodeURIComponent(repo);
-    const cacheKey = `issues_${owner}_${repo}_${JSON.stringify(filters)}`;
+    const cacheKey = getIssuesCacheKey(owner, repo, filters, page);
 
     try {
         // Check cache
@@ -212,66 +437,156 @@ export const getRepoIssues = async (owner: string, repo: string, filters: IssueF
         const params = new URLSearchParams({
             sort: filters.sort === 'comments' ? 'comments' : filters.sort, 
             direction: filters.direction,
-            state: 'open', 
-            per_page: '30'
+            state: filters.state,
+            per_page: '30',
+            page: String(page),
         });
 
         if (filters.labels.length > 0) {
             params.append('labels', filters.labels.join(','));
         }
+        if (filters.assignee.trim()) params.append('assignee', filters.assignee.trim());
+        if (filters.creator.trim()) params.append('creator', filters.creator.trim());
+        if (filters.mentioned.trim()) params.append('mentioned', filters.mentioned.trim());
+        if (filters.milestone) params.append('milestone', filters.milestone);
+        if (filters.since) params.append('since', new Date(`${filters.since}T00:00:00Z`).toISOString());
 
         let url = `${REPO_URL}/${encodedOwner}/${encodedRepo}/issues?${params.toString()}`;
-        const response = await fetch(url, {
-             headers: getHeaders(),
-        });
+        const response = await githubFetch(url, { revalidate: cached });
+
+        if (response.status === 304 && cached) {
+            await refreshCacheEntry(cached);
+            return cached.data;
+        }
         
         if (!response.ok) {
-            let errorMessage = `Error ${response.status}: ${response.statusText}`;
-            try {
-                // Try to get detailed error message from GitHub
-                const errorData = await response.json();
-                if (errorData.message) {
-                    errorMessage = errorData.message;
-                }
-            } catch (e) { /* ignore json parse error */ }
-            
-            console.warn(`Issues API Error for ${owner}/${repo}:`, errorMessage);
-
             if (response.status === 404) {
                  throw new Error("Issues are disabled or not found.");
             }
-            if (response.status === 403 || response.status === 429) {
-                 // Distinguish between rate limit and other 403s
-                 if (response.status === 429 || errorMessage.toLowerCase().includes("rate limit")) {
-                     throw new Error("GitHub Rate Limit Exceeded. Try again later.");
-                 }
-                 throw new Error(errorMessage); // Pass through the actual GitHub error
+            // An unknown login or milestone is rejected as a validation error
+            if (response.status === 422) {
+                 throw new Error("No such user or milestone in this repository.");
             }
-            throw new Error(errorMessage);
+            // Rate limits and other refusals (e.g. a 403 for missing permissions) share one message format
+            const error = await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+            console.warn(`Issues API Error for ${owner}/${repo}:`, error.message);
+            throw error;
         }
         
-        let issues: GitHubIssue[] = await response.json();
-
-        if (!Array.isArray(issues)) return [];
+        const data = await response.json();
+        const issues: GitHubIssue[] = Array.isArray(data) ? data : [];
 
-        // Client side filtering: Remove PRs (GitHub API /issues endpoint returns both issues and PRs)
-        issues = issues.filter(i => !i.pull_request);
+        // Client side filtering: Remove PRs (GitHub API /issues endpoint returns both issues and PRs).
+        // Paging still follows the Link header, so a page of PRs only leaves a short page behind.
+        const result: IssuePage = {
+            issues: issues.filter(i => !i.pull_request),
+            nextPage: getNextPage(response.headers.get('link')),
+        };
 
         // Save to cache
-        await saveToDB(cacheKey, issues);
+        await saveToCache(cacheKey, result, { category: 'issues', ...getValidators(response) });
 
-        return issues;
+        return result;
     } catch (error) {
         console.error("Error fetching issues", error);
         throw error;
     }
 };
 
+// --- ISSUE THREADS ---
+
+/** One issue with its body rendered to HTML, for the issue drawer. */
+export const getIssueWithBody = async (owner: string, repo: string, number: number): Promise<GitHubIssue & { body_html?: string }> => {
+    const cacheKey = `issue_${owner}_${repo}_${number}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < ISSUES_CACHE_TTL)) {
+        return cached.data;
+    }
+
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${number}`;
+    const response = await githubFetch(url, { accept: HTML_JSON, revalidate: cached });
+    if (response.status === 304 && cached) {
+        await refreshCacheEntry(cached);
+        return cached.data;
+    }
+    if (!response.ok) {
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const issue = await response.json();
+    await saveToCache(cacheKey, issue, { category: 'issues', ...getValidators(response) });
+    return issue;
+};
+
+export const getIssueComments = async (owner: string, repo: string, number: number, page: number = 1): Promise<CommentPage> => {
+    const cacheKey = `issue_comments_${owner}_${repo}_${number}_${page}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < ISSUES_CACHE_TTL)) {
+        return cached.data;
+    }
+
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${number}/comments?per_page=${COMMENTS_PER_PAGE}&page=${page}`;
+    const response = await githubFetch(url, { accept: HTML_JSON, revalidate: cached });
+    if (response.status === 304 && cached) {
+        await refreshCacheEntry(cached);
+        return cached.data;
+    }
+    if (!response.ok) {
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const result: CommentPage = {
+        comments: Array.isArray(data) ? data : [],
+        nextPage: getNextPage(response.headers.get('link')),
+    };
+    await saveToCache(cacheKey, result, { category: 'issues', ...getValidators(response) });
+    return result;
+};
+
+/**
+ * Pull requests that reference the issue ("Fixes #12" or a plain mention), newest last.
+ * Read from cross-reference events on the issue timeline.
+ */
+export const getLinkedPullRequests = async (owner: string, repo: string, number: number): Promise<LinkedPullRequest[]> => {
+    const cacheKey = `issue_links_${owner}_${repo}_${number}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < ISSUES_CACHE_TTL)) {
+        return cached.data;
+    }
+
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${number}/timeline?per_page=100`;
+    const response = await githubFetch(url, { revalidate: cached });
+    if (response.status === 304 && cached) {
+        await refreshCacheEntry(cached);
+        return cached.data;
+    }
+    if (!response.ok) {
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const events = await response.json();
+    const linked = new Map<string, LinkedPullRequest>();
+    (Array.isArray(events) ? events : []).forEach((event: any) => {
+        const source = event.event === 'cross-referenced' ? event.source?.issue : null;
+        if (!source?.pull_request) return;
+        linked.set(source.html_url, {
+            number: source.number,
+            title: source.title,
+            html_url: source.html_url,
+            state: source.pull_request.merged_at ? 'merged' : source.state,
+            repository: source.repository?.full_name || source.repository_url?.split('/repos/')[1] || `${owner}/${repo}`,
+        });
+    });
+
+    const pulls = [...linked.values()];
+    await saveToCache(cacheKey, pulls, { category: 'issues', ...getValidators(response) });
+    return pulls;
+};
+
 export const getUserProfile = async (username: string): Promise<GitHubUserProfile | null> => {
   try {
-    const response = await fetch(`${USER_URL}/${encodeURIComponent(username)}`, {
-      headers: getHeaders(),
-    });
+    const response = await githubFetch(`${USER_URL}/${encodeURIComponent(username)}`);
     
     if (!response.ok) return null;
     return await response.json();
@@ -281,6 +596,18 @@ export const getUserProfile = async (username: string): Promise<GitHubUserProfil
   }
 };
 
+export const getRepository = async (owner: string, repo: string): Promise<GitHubRepo | null> => {
+  try {
+    const response = await githubFetch(`${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`);
+
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (error) {
+    console.warn("Error fetching repository:", error);
+    return null;
+  }
+};
+
 export const getUserTopRepos = async (username: string): Promise<GitHubRepo[]> => {
   try {
     const params = new URLSearchParams({
@@ -290,9 +617,7 @@ export const getUserTopRepos = async (username: string): Promise<GitHubRepo[]> =
       per_page: '3'
     });
     
-    const response = await fetch(`${BASE_URL}?${params.toString()}`, {
-      headers: getHeaders(),
-    });
+    const response = await githubFetch(`${BASE_URL}?${params.toString()}`);
 
     if (!response.ok) return [];
     
@@ -304,21 +629,782 @@ export const getUserTopRepos = async (username: string): Promise<GitHubRepo[]> =
   }
 };
 
-export const searchRepositories = async (filters: FilterState, page: number = 1, usernameContext?: string | null): Promise<SearchResponse> => {
+// --- COMPARISON ---
+
+// Page number of the rel="last" link, i.e. the item count when paging one item at a time
+const getLastPage = (link: string | null): number | null => {
+    const match = link?.match(/[?&]page=(\d+)[^>]*>;\s*rel="last"/);
+    return match ? parseInt(match[1], 10) : null;
+};
+
+const getContributorCount = async (owner: string, repo: string): Promise<number | null> => {
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/contributors?per_page=1&anon=true`;
+    const response = await githubFetch(url);
+    if (response.status === 204) return 0; // Empty repository
+    if (isRateLimitResponse(response)) throw await getResponseError(url, response, 'Rate limited');
+    // GitHub refuses to list contributors for very large histories
+    if (!response.ok) return null;
+    const lastPage = getLastPage(response.headers.get('link'));
+    if (lastPage !== null) return lastPage;
+    const contributors = await response.json();
+    return Array.isArray(contributors) ? contributors.length : null;
+};
+
+const getReleaseCadence = async (owner: string, repo: string): Promise<ReleaseCadence> => {
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/releases?per_page=${RELEASE_SAMPLE_SIZE}`;
+    const response = await githubFetch(url);
+    // Only a rate limit is worth retrying later; anything else means no readable releases
+    if (isRateLimitResponse(response)) throw await getResponseError(url, response, 'Rate limited');
+    if (!response.ok) return { count: 0, latest: null, averageDays: null };
+
+    const releases: { published_at: string | null; draft: boolean }[] = await response.json();
+    const dates = releases
+        .filter(release => !release.draft && release.published_at)
+        .map(release => new Date(release.published_at as string).getTime())
+        .sort((a, b) => b - a);
+
+    const span = dates.length > 1 ? dates[0] - dates[dates.length - 1] : null;
+    return {
+        count: dates.length,
+        latest: dates.length > 0 ? new Date(dates[0]).toISOString() : null,
+        averageDays: span !== null ? span / (dates.length - 1) / (1000 * 60 * 60 * 24) : null,
+    };
+};
+
+/** Contributor count and release cadence for the comparison view. Failures leave the figures empty and uncached. */
+export const getComparisonStats = async (owner: string, repo: string): Promise<RepoComparisonStats> => {
+    const cacheKey = `stats_${owner}_${repo}`;
+    try {
+        const cached = await getFromDB(cacheKey);
+        if (cached && (Date.now() - cached.timestamp < STATS_CACHE_TTL)) {
+            return cached.data;
+        }
+
+        const [contributors, releases] = await Promise.all([
+            getContributorCount(owner, repo),
+            getReleaseCadence(owner, repo),
+        ]);
+        const stats: RepoComparisonStats = { contributors, releases };
+        await saveToCache(cacheKey, stats, { category: 'stats' });
+        return stats;
+    } catch (error) {
+        console.warn("Error fetching comparison stats", error);
+        return { contributors: null, releases: { count: 0, latest: null, averageDays: null } };
+    }
+};
+
+// --- HEALTH ---
+
+const getRecentCommitCount = async (owner: string, repo: string): Promise<number | null> => {
+    const since = new Date(Date.now() - ACTIVITY_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/commits?since=${since}&per_page=1`;
+    const response = await githubFetch(url);
+    if (response.status === 409) return 0; // Empty repository
+    if (isRateLimitResponse(response)) throw await getResponseError(url, response, 'Rate limited');
+    if (!response.ok) return null;
+    const lastPage = getLastPage(response.headers.get('link'));
+    if (lastPage !== null) return lastPage;
+    const commits = await response.json();
+    return Array.isArray(commits) ? commits.length : null;
+};
+
+const getMedianIssueCloseDays = async (owner: string, repo: string): Promise<number | null> => {
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues?state=closed&sort=updated&direction=desc&per_page=${CLOSED_ISSUE_SAMPLE_SIZE}`;
+    const response = await githubFetch(url);
+    if (isRateLimitResponse(response)) throw await getResponseError(url, response, 'Rate limited');
+    if (!response.ok) return null;
+
+    const issues: (GitHubIssue & { closed_at: string | null })[] = await response.json();
+    const durations = issues
+        .filter(issue => !issue.pull_request && issue.closed_at)
+        .map(issue => (new Date(issue.closed_at as string).getTime() - new Date(issue.created_at).getTime()) / (1000 * 60 * 60 * 24))
+        .sort((a, b) => a - b);
+    if (durations.length === 0) return null;
+
+    const middle = Math.floor(durations.length / 2);
+    return durations.length % 2 ? durations[middle] : (durations[middle - 1] + durations[middle]) / 2;
+};
+
+const getBusFactor = async (owner: string, repo: string): Promise<number | null> => {
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/contributors?per_page=100`;
+    const response = await githubFetch(url);
+    if (isRateLimitResponse(response)) throw await getResponseError(url, response, 'Rate limited');
+    // 204 for empty repositories, 403 for histories too large to list
+    if (!response.ok || response.status === 204) return null;
+
+    const contributors: { contributions: number }[] = await response.json();
+    const counts = contributors.map(contributor => contributor.contributions).sort((a, b) => b - a);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    if (total === 0) return null;
+
+    let covered = 0;
+    for (let i = 0; i < counts.length; i++) {
+        covered += counts[i];
+        if (covered * 2 >= total) return i + 1;
+    }
+    return counts.length;
+};
+
+/**
+ * The activity signals behind a repository's health score, read with four requests and cached.
+ * A signal that cannot be read is null; a rate limit fails the whole call so nothing partial is cached.
+ */
+export const getHealthSignals = async (owner: string, repo: string): Promise<HealthSignals> => {
+    const cacheKey = `health_${owner}_${repo}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < HEALTH_CACHE_TTL)) {
+        return cached.data;
+    }
+
+    const [commitsLast90Days, medianIssueCloseDays, releases, busFactor] = await Promise.all([
+        getRecentCommitCount(owner, repo),
+        getMedianIssueCloseDays(owner, repo),
+        getReleaseCadence(owner, repo),
+        getBusFactor(owner, repo),
+    ]);
+    const signals: HealthSignals = { commitsLast90Days, medianIssueCloseDays, releases, busFactor };
+    await saveToCache(cacheKey, signals, { category: 'stats' });
+    return signals;
+};
+
+// --- STAR HISTORY ---
+
+const getStargazerPage = async (owner: string, repo: string, page: number): Promise<{ starredAt: string[]; lastPage: number }> => {
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/stargazers?per_page=${STARGAZERS_PER_PAGE}&page=${page}`;
+    const response = await githubFetch(url, { accept: 'application/vnd.github.star+json' });
+    if (!response.ok) {
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+    const stargazers: { starred_at: string }[] = await response.json();
+    // The last page itself carries no rel="last" link
+    return {
+        starredAt: stargazers.map(stargazer => stargazer.starred_at),
+        lastPage: getLastPage(response.headers.get('link')) ?? page,
+    };
+};
+
+// `count` pages spread evenly from `from` to `to`, both included
+const samplePages = (from: number, to: number, count: number): number[] => {
+    if (to - from + 1 <= count) return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+    return Array.from(new Set(Array.from({ length: count }, (_, i) => Math.round(from + (i * (to - from)) / (count - 1)))));
+};
+
+// Keeps the first and last point and an even spread in between
+const thinPoints = (points: StarHistoryPoint[]): StarHistoryPoint[] => {
+    if (points.length <= MAX_STAR_HISTORY_POINTS) return points;
+    const step = (points.length - 1) / (MAX_STAR_HISTORY_POINTS - 1);
+    return Array.from({ length: MAX_STAR_HISTORY_POINTS }, (_, i) => points[Math.round(i * step)]);
+};
+
+/**
+ * Star history from stargazer timestamps. Small repositories are read in full; larger ones from
+ * an even sample of pages, each contributing its first and last star. The result is kept in
+ * IndexedDB and later visits only read the pages added since, resuming on the page they ended on.
+ * A failed extension falls back to the stored history.
+ */
+export const getStarHistory = async (owner: string, repo: string): Promise<StarHistory> => {
+    const key = `${owner}/${repo}`.toLowerCase();
+    const cached = await getStarHistoryFromDB(key);
+    if (cached && Date.now() - cached.updatedAt < STAR_HISTORY_TTL) return cached;
+
+    try {
+        const startPage = cached ? cached.lastPage : 1;
+        const first = await getStargazerPage(owner, repo, startPage);
+        const lastPage = Math.min(first.lastPage, MAX_STARGAZER_PAGES);
+
+        // Once sampled, a history stays sampled: its earlier points are estimates too
+        const remaining = lastPage - startPage;
+        const sampled = !!cached?.sampled || remaining >= STAR_HISTORY_PAGE_BUDGET;
+        const pages = remaining > 0 ? samplePages(startPage + 1, lastPage, STAR_HISTORY_PAGE_BUDGET - 1) : [];
+        const results = await Promise.all(pages.map(page => getStargazerPage(owner, repo, page)));
+
+        const points = [...(cached?.points || [])];
+        const fetched: [number, string[]][] = [[startPage, first.starredAt], ...pages.map((page, i): [number, string[]] => [page, results[i].starredAt])];
+        fetched.forEach(([page, starredAt], index) => {
+            // Stars on the resumed page that the stored history already covers
+            const from = index === 0 && cached ? Math.min(cached.lastPageCount, starredAt.length) : 0;
+            const indices = sampled
+                ? Array.from(new Set([from, starredAt.length - 1])).filter(i => i >= from && i < starredAt.length)
+                : Array.from({ length: starredAt.length - from }, (_, i) => from + i);
+            indices.forEach(i => points.push({ date: starredAt[i], stars: (page - 1) * STARGAZERS_PER_PAGE + i + 1 }));
+        });
+
+        const [lastFetchedPage, lastStarredAt] = fetched[fetched.length - 1];
+        const history: StarHistory = {
+            repo: key,
+            points: thinPoints(points),
+            sampled,
+            lastPage: lastFetchedPage,
+            lastPageCount: lastStarredAt.length,
+            updatedAt: Date.now(),
+            authenticated: !!authToken || !!cached?.authenticated,
+        };
+        await saveStarHistoryToDB(history);
+        return history;
+    } catch (error) {
+        if (cached) return cached;
+        throw error;
+    }
+};
+
+// --- ACTIVITY ---
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Reads one of the /stats endpoints. GitHub answers 202 while it computes statistics that are
+ * not cached on its side yet, so those are retried with a growing delay before giving up.
+ */
+const getRepoStats = async <T>(owner: string, repo: string, endpoint: 'commit_activity' | 'contributors' | 'code_frequency'): Promise<T[]> => {
+    const cacheKey = `stats_${endpoint}_${owner}_${repo}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < ACTIVITY_CACHE_TTL)) {
+        return cached.data;
+    }
+
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/stats/${endpoint}`;
+    for (let attempt = 0; ; attempt++) {
+        const response = await githubFetch(url, { revalidate: cached });
+        if (response.status === 304 && cached) {
+            await refreshCacheEntry(cached);
+            return cached.data;
+        }
+
+        if (response.status === 202) {
+            if (attempt >= STATS_RETRY_DELAYS.length) {
+                throw new Error("GitHub is still computing these statistics. Try again in a minute.");
+            }
+            await sleep(STATS_RETRY_DELAYS[attempt]);
+            continue;
+        }
+
+        // 204: an empty repository has nothing to count
+        if (response.status === 204) return [];
+        if (!response.ok) {
+            throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        const stats: T[] = Array.isArray(data) ? data : [];
+        await saveToCache(cacheKey, stats, { category: 'stats', ...getValidators(response) });
+        return stats;
+    }
+};
+
+/** Commits per day over the last 52 weeks, oldest week first. */
+export const getCommitActivity = (owner: string, repo: string): Promise<CommitActivityWeek[]> =>
+    getRepoStats<CommitActivityWeek>(owner, repo, 'commit_activity');
+
+/** The top 100 contributors by commits, with their weekly breakdown. */
+export const getContributorStats = async (owner: string, repo: string): Promise<ContributorStats[]> => {
+    const stats = await getRepoStats<ContributorStats>(owner, repo, 'contributors');
+    return [...stats].sort((a, b) => b.total - a.total);
+};
+
+/** Weekly additions and deletions. GitHub stops computing these for repositories over 10,000 commits. */
+export const getCodeFrequency = async (owner: string, repo: string): Promise<CodeFrequencyWeek[]> => {
+    const weeks = await getRepoStats<[number, number, number]>(owner, repo, 'code_frequency');
+    return weeks.map(([week, additions, deletions]) => ({ week, additions, deletions: Math.abs(deletions) }));
+};
+
+// --- PULL REQUESTS ---
+
+// Search results are issues; the merge time sits on their `pull_request` link
+const toPullRequest = (item: any): GitHubPullRequest => ({
+    ...item,
+    merged_at: item.merged_at ?? item.pull_request?.merged_at ?? null,
+    requested_reviewers: item.requested_reviewers || [],
+});
+
+/**
+ * Lists pull requests a page at a time. The pulls endpoint only knows open and closed, so merged
+ * and unmerged ones come from the issue search (`is:merged` / `is:unmerged`), which pages the
+ * same way but counts against the search quota.
+ */
+export const getRepoPulls = async (owner: string, repo: string, filters: PullRequestFilterState, page: number = 1): Promise<PullRequestPage> => {
+    const cacheKey = `pulls_${owner}_${repo}_${filters.state}_${filters.sort}_${filters.direction}_${page}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < ISSUES_CACHE_TTL)) {
+        return cached.data;
+    }
+
+    let url: string;
+    if (filters.state === 'open') {
+        const params = new URLSearchParams({
+            state: 'open',
+            sort: filters.sort,
+            direction: filters.direction,
+            per_page: String(PULLS_PER_PAGE),
+            page: String(page),
+        });
+        url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pulls?${params.toString()}`;
+    } else {
+        const params = new URLSearchParams({
+            q: `repo:${owner}/${repo} is:pr is:closed ${filters.state === 'merged' ? 'is:merged' : 'is:unmerged'}`,
+            sort: filters.sort === 'popularity' ? 'comments' : filters.sort,
+            order: filters.direction,
+            per_page: String(PULLS_PER_PAGE),
+            page: String(page),
+        });
+        url = `${ISSUE_SEARCH_URL}?${params.toString()}`;
+    }
+    const response = await githubFetch(url, { revalidate: cached });
+
+    if (response.status === 304 && cached) {
+        await refreshCacheEntry(cached);
+        return cached.data;
+    }
+    if (!response.ok) {
+        if (response.status === 404) {
+            throw new Error("Pull requests could not be found.");
+        }
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const items = filters.state === 'open' ? data : data?.items;
+    const result: PullRequestPage = {
+        pulls: (Array.isArray(items) ? items : []).map(toPullRequest),
+        nextPage: getNextPage(response.headers.get('link')),
+    };
+
+    await saveToCache(cacheKey, result, { category: 'pulls', ...getValidators(response) });
+    return result;
+};
+
+// Each reviewer counts with their latest verdict; comments alone never override one
+const getReviewStatus = (reviews: { user: GitHubUser | null; state: string }[], pull: GitHubPullRequest): ReviewStatus => {
+    const verdicts = new Map<string, string>();
+    let commented = false;
+    reviews.forEach(review => {
+        if (review.state === 'COMMENTED') commented = true;
+        else if (review.user && review.state !== 'PENDING') verdicts.set(review.user.login, review.state);
+    });
+
+    const states = [...verdicts.values()];
+    if (states.includes('CHANGES_REQUESTED')) return 'changes_requested';
+    if (states.includes('APPROVED')) return 'approved';
+    if (pull.requested_reviewers?.length > 0) return 'review_requested';
+    return commented ? 'commented' : 'none';
+};
+
+/** Size and review state of one pull request, which the list endpoint leaves out. Costs two requests. */
+export const getPullRequestDetails = async (owner: string, repo: string, pull: GitHubPullRequest): Promise<PullRequestDetails> => {
+    const cacheKey = `pull_${owner}_${repo}_${pull.number}_${pull.updated_at}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached) return cached.data;
+
+    const base = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pulls/${pull.number}`;
+    const [detailResponse, reviewsResponse] = await Promise.all([
+        githubFetch(base),
+        githubFetch(`${base}/reviews?per_page=100`),
+    ]);
+    if (!detailResponse.ok) {
+        throw await getResponseError(base, detailResponse, `Error ${detailResponse.status}: ${detailResponse.statusText}`);
+    }
+
+    const detail = await detailResponse.json();
+    const reviews = reviewsResponse.ok ? await reviewsResponse.json() : [];
+    const details: PullRequestDetails = {
+        additions: detail.additions ?? 0,
+        deletions: detail.deletions ?? 0,
+        changed_files: detail.changed_files ?? 0,
+        commits: detail.commits ?? 0,
+        review: getReviewStatus(Array.isArray(reviews) ? reviews : [], pull),
+    };
+
+    // Keyed by updated_at, so a newer push or review simply misses the cache
+    await saveToCache(cacheKey, details, { category: 'pulls' });
+    return details;
+};
+
+/** How long recently closed pull requests took from opening to merge. */
+export const getMergeStats = async (owner: string, repo: string): Promise<MergeStats> => {
+    const cacheKey = `merge_stats_${owner}_${repo}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < STATS_CACHE_TTL)) {
+        return cached.data;
+    }
+
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pulls?state=closed&sort=updated&direction=desc&per_page=${MERGE_SAMPLE_SIZE}`;
+    const response = await githubFetch(url);
+    if (!response.ok) {
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const closed: GitHubPullRequest[] = Array.isArray(data) ? data : [];
+    const hours = closed
+        .filter(pull => pull.merged_at)
+        .map(pull => (new Date(pull.merged_at as string).getTime() - new Date(pull.created_at).getTime()) / (1000 * 60 * 60))
+        .sort((a, b) => a - b);
+
+    const middle = Math.floor(hours.length / 2);
+    const stats: MergeStats = {
+        sampled: closed.length,
+        merged: hours.length,
+        medianHours: hours.length === 0 ? null : hours.length % 2 ? hours[middle] : (hours[middle - 1] + hours[middle]) / 2,
+        averageHours: hours.length === 0 ? null : hours.reduce((sum, value) => sum + value, 0) / hours.length,
+    };
+
+    await saveToCache(cacheKey, stats, { category: 'stats' });
+    return stats;
+};
+
+// --- RELEASES ---
+
+/** A page of releases, newest first, with the notes rendered to HTML. */
+export const getRepoReleases = async (owner: string, repo: string, page: number = 1): Promise<ReleasePage> => {
+    const cacheKey = `releases_${owner}_${repo}_${page}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < RELEASES_CACHE_TTL)) {
+        return cached.data;
+    }
+
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/releases?per_page=${RELEASES_PER_PAGE}&page=${page}`;
+    const response = await githubFetch(url, { accept: HTML_JSON, revalidate: cached });
+    if (response.status === 304 && cached) {
+        await refreshCacheEntry(cached);
+        return cached.data;
+    }
+    if (!response.ok) {
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const result: ReleasePage = {
+        releases: Array.isArray(data) ? data : [],
+        nextPage: getNextPage(response.headers.get('link')),
+    };
+    await saveToCache(cacheKey, result, { category: 'releases', ...getValidators(response) });
+    return result;
+};
+
+/** A page of tags. GitHub lists them by name, newest versions first for most naming schemes. */
+export const getRepoTags = async (owner: string, repo: string, page: number = 1): Promise<TagPage> => {
+    const cacheKey = `tags_${owner}_${repo}_${page}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < RELEASES_CACHE_TTL)) {
+        return cached.data;
+    }
+
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/tags?per_page=${TAGS_PER_PAGE}&page=${page}`;
+    const response = await githubFetch(url, { revalidate: cached });
+    if (response.status === 304 && cached) {
+        await refreshCacheEntry(cached);
+        return cached.data;
+    }
+    if (!response.ok) {
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const result: TagPage = {
+        tags: Array.isArray(data) ? data : [],
+        nextPage: getNextPage(response.headers.get('link')),
+    };
+    await saveToCache(cacheKey, result, { category: 'releases', ...getValidators(response) });
+    return result;
+};
+
+/**
+ * The release GitHub marks as latest: the newest one that is neither a draft nor a prerelease.
+ * Null when the repository has none, which is cached like any other answer.
+ */
+export const getLatestRelease = async (owner: string, repo: string): Promise<GitHubRelease | null> => {
+    const cacheKey = `latest_release_${owner}_${repo}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < RELEASES_CACHE_TTL)) {
+        return cached.data;
+    }
+
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/releases/latest`;
+    const response = await githubFetch(url, { revalidate: cached });
+    if (response.status === 304 && cached) {
+        await refreshCacheEntry(cached);
+        return cached.data;
+    }
+    if (response.status === 404) {
+        await saveToCache(cacheKey, null, { category: 'releases' });
+        return null;
+    }
+    if (!response.ok) {
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+
+    // The notes are left out: a badge only needs the tag and date
+    const { body, ...release } = await response.json();
+    await saveToCache(cacheKey, release, { category: 'releases', ...getValidators(response) });
+    return release;
+};
+
+/** Publish dates of up to the last hundred releases, for the releases-per-month chart. */
+export const getReleaseTimeline = async (owner: string, repo: string): Promise<ReleaseTimeline> => {
+    const cacheKey = `release_timeline_${owner}_${repo}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < STATS_CACHE_TTL)) {
+        return cached.data;
+    }
+
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/releases?per_page=${RELEASE_TIMELINE_SIZE}`;
+    const response = await githubFetch(url);
+    if (!response.ok) {
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const releases: { published_at: string | null; draft: boolean }[] = Array.isArray(data) ? data : [];
+    const timeline: ReleaseTimeline = {
+        published: releases
+            .filter(release => !release.draft && release.published_at)
+            .map(release => release.published_at as string)
+            .sort((a, b) => b.localeCompare(a)),
+        complete: getNextPage(response.headers.get('link')) === null,
+    };
+    await saveToCache(cacheKey, timeline, { category: 'stats' });
+    return timeline;
+};
+
+// --- SOURCE CODE ---
+// Trees and blobs are addressed by SHA and never change, so once cached they are not requested
+// again. Only resolving a branch name to its current commit goes back to GitHub.
+
+export const getRepoBranches = async (owner: string, repo: string): Promise<GitHubBranch[]> => {
+    const cacheKey = `branches_${owner}_${repo}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < REF_CACHE_TTL)) {
+        return cached.data;
+    }
+
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/branches?per_page=100`;
+    const response = await githubFetch(url, { revalidate: cached });
+    if (response.status === 304 && cached) {
+        await refreshCacheEntry(cached);
+        return cached.data;
+    }
+    if (!response.ok) {
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const branches: GitHubBranch[] = (Array.isArray(data) ? data : []).map((branch: any) => ({ name: branch.name, commit: { sha: branch.commit.sha } }));
+    await saveToCache(cacheKey, branches, { category: 'code', ...getValidators(response) });
+    return branches;
+};
+
+/** The commit a branch, tag or SHA currently points at. */
+export const getRefSha = async (owner: string, repo: string, ref: string): Promise<string> => {
+    const cacheKey = `ref_${owner}_${repo}_${ref}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < REF_CACHE_TTL)) {
+        return cached.data;
+    }
+
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/commits/${encodeURIComponent(ref)}`;
+    const response = await githubFetch(url, { accept: 'application/vnd.github.sha', revalidate: cached });
+    if (response.status === 304 && cached) {
+        await refreshCacheEntry(cached);
+        return cached.data;
+    }
+    if (!response.ok) {
+        if (response.status === 404 || response.status === 422) {
+            throw new Error(`No branch or tag named "${ref}".`);
+        }
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const sha = (await response.text()).trim();
+    await saveToCache(cacheKey, sha, { category: 'code', ...getValidators(response) });
+    return sha;
+};
+
+/**
+ * Lists a tree by commit or tree SHA. Recursive listings may come back truncated for very large
+ * repositories, in which case callers fall back to reading directories one at a time.
+ */
+export const getRepoTree = async (owner: string, repo: string, sha: string, recursive: boolean): Promise<RepoTree> => {
+    const cacheKey = `tree_${sha}${recursive ? '_recursive' : ''}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached) return cached.data;
+
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/git/trees/${sha}${recursive ? '?recursive=1' : ''}`;
+    const response = await githubFetch(url);
+    if (!response.ok) {
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    // Only what the file browser needs, which keeps large trees small in the cache
+    const tree: RepoTree = {
+        sha: data.sha,
+        entries: (data.tree || []).map((entry: any) => ({ path: entry.path, type: entry.type, sha: entry.sha, size: entry.size })),
+        truncated: !!data.truncated,
+    };
+    await saveToCache(cacheKey, tree, { category: 'code' });
+    return tree;
+};
+
+const decodeBase64 = (content: string): Uint8Array =>
+    Uint8Array.from(atob(content.replace(/\s/g, '')), char => char.charCodeAt(0));
+
+/**
+ * Reads a file through the contents API. Keyed by the blob SHA from the tree listing, so a file
+ * that is the same on several branches is only downloaded once.
+ */
+export const getFileContent = async (owner: string, repo: string, path: string, ref: string, sha: string): Promise<FileContent> => {
+    const cacheKey = `blob_${sha}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached) return cached.data;
+
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    const url = `${REPO_URL}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`;
+    const response = await githubFetch(url);
+    if (!response.ok) {
+        throw await getResponseError(url, response, `Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (Array.isArray(data) || data.type !== 'file') {
+        throw new Error(`${path} is not a file.`);
+    }
+
+    // Files over 1 MB come back without content ("encoding": "none")
+    let file: FileContent = { sha: data.sha, size: data.size, text: null, binary: false };
+    if (data.encoding === 'base64' && typeof data.content === 'string') {
+        const bytes = decodeBase64(data.content);
+        const binary = bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+        file = { ...file, binary, text: binary ? null : new TextDecoder('utf-8').decode(bytes) };
+    }
+
+    await saveToCache(cacheKey, file, { category: 'code' });
+    return file;
+};
+
+// --- STARTER ISSUES ---
+
+const STARTER_LABELS: Record<IssueFinderFilters['labels'], string[]> = {
+    'good-first-issue': ['good first issue'],
+    'help-wanted': ['help wanted'],
+    both: ['good first issue', 'help wanted'],
+};
+
+// Looks up the repositories behind a page of issues, with the star range applied on GitHub's side
+const getIssueRepositories = (fullNames: string[], filters: FilterState): Promise<Map<string, GitHubRepo>> =>
+    getRepositoriesByName(fullNames, filters.maxStars < MAX_STARS ? `stars:${filters.minStars}..${filters.maxStars}`
+        : filters.minStars > 0 ? `stars:>=${filters.minStars}` : '');
+
+/**
+ * Finds open beginner-friendly issues across repositories. Languages and keywords go into the issue
+ * search itself; the star range needs the repositories, which are looked up for every page anyway
+ * so each issue can show where it lives.
+ */
+export const searchStarterIssues = async (filters: FilterState, finder: IssueFinderFilters, page: number = 1): Promise<IssueSearchResponse> => {
+    const queryParts = ['is:issue', 'is:open', 'archived:false'];
+    queryParts.push(`label:${STARTER_LABELS[finder.labels].map(label => `"${label}"`).join(',')}`);
+    if (filters.query) queryParts.push(filters.query);
+    filters.language.filter(lang => lang !== 'All').forEach(lang => queryParts.push(`language:"${lang}"`));
+    if (finder.unassigned) queryParts.push('no:assignee');
+    if (finder.updatedWithin > 0) queryParts.push(`updated:>=${getDateNDaysAgo(finder.updatedWithin)}`);
+    if (finder.maxComments !== null) queryParts.push(`comments:<=${finder.maxComments}`);
+    const q = queryParts.join(' ');
+
+    const cacheKey = `starter_issues_${JSON.stringify([q, filters.minStars, filters.maxStars, page])}`;
+    const cached = await getFromDB(cacheKey);
+    if (cached && (Date.now() - cached.timestamp < ISSUES_CACHE_TTL)) {
+        return cached.data;
+    }
+
+    const params = new URLSearchParams({ q, sort: 'updated', order: 'desc', per_page: String(STARTER_ISSUES_PER_PAGE), page: String(page) });
+    const url = `${ISSUE_SEARCH_URL}?${params.toString()}`;
+    const response = await githubFetch(url);
+    if (!response.ok) {
+        if (response.status === 422) {
+            throw new Error("GitHub could not run this issue search. Try fewer languages or a shorter query.");
+        }
+        throw await getResponseError(url, response, `GitHub API Error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const issues: (GitHubIssue & { repository_url: string })[] = Array.isArray(data.items) ? data.items : [];
+    const fullNameOf = (issue: { repository_url: string }) => issue.repository_url.split('/repos/')[1] || '';
+    const fullNames = [...new Set(issues.map(fullNameOf).filter(Boolean))];
+    const repos = fullNames.length > 0 ? await getIssueRepositories(fullNames, filters) : new Map<string, GitHubRepo>();
+
+    const items = issues
+        .map(issue => ({ ...issue, repository: repos.get(fullNameOf(issue).toLowerCase()) }))
+        .filter(issue => issue.repository);
+
+    const result: IssueSearchResponse = {
+        total_count: data.total_count || 0,
+        items,
+        nextPage: getNextPage(response.headers.get('link')),
+        hiddenByStars: issues.length - items.length,
+    };
+
+    await saveToCache(cacheKey, result, { category: 'issues' });
+    return result;
+};
+
+export interface SearchOptions {
+  // Serve an expired cache entry right away (marked `stale`) and refresh it in the background
+  staleWhileRevalidate?: boolean;
+  // Receives the refreshed response once a stale result has been revalidated
+  onRevalidate?: (response: SearchResponse) => void;
+  // Ask GitHub even when the cache is fresh; the cached entry still makes it a conditional request
+  bypassCache?: boolean;
+}
+
+// Background refreshes in flight, so repeated stale reads of one key share a single request
+const pendingRevalidations = new Map<string, Promise<SearchResponse>>();
+
+const withFreshness = (data: SearchResponse, fetchedAt: number, stale = false): SearchResponse =>
+  ({ ...data, stale, fetchedAt });
+
+const revalidateInBackground = (cacheKey: string, refresh: () => Promise<SearchResponse>, onRevalidate?: (response: SearchResponse) => void) => {
+  let pending = pendingRevalidations.get(cacheKey);
+  if (!pending) {
+    pending = refresh().finally(() => pendingRevalidations.delete(cacheKey));
+    pendingRevalidations.set(cacheKey, pending);
+  }
+  pending
+    .then(response => onRevalidate?.(response))
+    .catch(error => console.warn('Background revalidation failed for:', cacheKey, error));
+};
+
+export const searchRepositories = async (filters: FilterState, page: number = 1, usernameContext?: string | null, options: SearchOptions = {}): Promise<SearchResponse> => {
+  const languages = filters.language.filter(lang => lang !== 'All');
+  if (filters.languageMode === 'or' && languages.length > 1) {
+    return searchAnyLanguage(filters, languages, page, usernameContext, options);
+  }
+  if (page > PAGES_PER_SHARD) {
+    return searchPastCap(filters, page, usernameContext);
+  }
+  return searchPage(filters, page, usernameContext, null, options);
+};
+
+// One page of one search, through the cache
+const searchPage = async (filters: FilterState, page: number, usernameContext: string | null | undefined, shard: SearchShard | null, options: SearchOptions = {}): Promise<SearchResponse> => {
   // Check Cache First (IndexedDB)
-  const cacheKey = getCacheKey(filters, page, usernameContext);
+  const cacheKey = getCacheKey(filters, page, usernameContext, shard);
   
   // Use shorter TTL if there is a specific text query, ensuring freshness for "Global Search"
   const ttl = filters.query ? SEARCH_CACHE_TTL : BROWSING_CACHE_TTL;
+  let cachedEntry: CacheEntry | null = null;
 
   try {
-    const cachedEntry = await getFromDB(cacheKey);
-    if (cachedEntry) {
-      if (Date.now() - cachedEntry.timestamp < ttl) {
+    cachedEntry = await getFromDB(cacheKey);
+    if (cachedEntry && !options.bypassCache) {
+      const age = Date.now() - cachedEntry.timestamp;
+      if (age < ttl) {
         console.log('Serving from IndexedDB cache:', cacheKey);
-        return cachedEntry.data as SearchResponse;
+        return withFreshness(cachedEntry.data, cachedEntry.timestamp);
+      } else if (options.staleWhileRevalidate && age < STALE_CACHE_MAX_AGE) {
+        console.log('Serving stale cache while revalidating:', cacheKey);
+        const staleEntry = cachedEntry;
+        revalidateInBackground(cacheKey, () => fetchSearchResults(filters, page, usernameContext, shard, cacheKey, staleEntry), options.onRevalidate);
+        return withFreshness(cachedEntry.data, cachedEntry.timestamp, true);
       } else {
-        // Cache expired, normal fetch will proceed and overwrite it
+        // Cache expired, the fetch below revalidates it
         console.log('Cache expired for:', cacheKey);
       }
     }
@@ -326,69 +1412,155 @@ export const searchRepositories = async (filters: FilterState, page: number = 1,
     console.warn('Cache read failed', e);
   }
 
+  return fetchSearchResults(filters, page, usernameContext, shard, cacheKey, cachedEntry);
+};
+
+// What a sort orders results by, when a search can be narrowed on it. GitHub's `updated` order
+// has no matching qualifier, so those results end at the cap.
+const getShardField = (sort: SortOption): SearchShard['field'] | null =>
+  sort === SortOption.UPDATED ? null : sort === SortOption.FORKS ? 'forks' : 'stars';
+
+const getShardValue = (repo: GitHubRepo, field: SearchShard['field']) =>
+  field === 'forks' ? repo.forks_count : repo.stargazers_count;
+
+/**
+ * Pages past GitHub's 1,000 result cap. Results ordered by stars (or forks) carry on in the same
+ * search limited to values up to the last one listed (from it, in ascending order), so every
+ * block of 1,000 is a shard of one ordered list. Repositories on the boundary value show up in
+ * both shards and are skipped in the later one. The pages before the requested one are read to
+ * find the boundaries; they are mostly in the cache by the time someone pages this far.
+ */
+const searchPastCap = async (filters: FilterState, page: number, usernameContext?: string | null): Promise<SearchResponse> => {
+  const end = (warning?: string): SearchResponse => ({
+    total_count: (page - 1) * ITEMS_PER_PAGE,
+    incomplete_results: false,
+    items: [],
+    ...(warning && { warning }),
+    fetchedAt: Date.now(),
+  });
+
+  const field = getShardField(filters.sort);
+  if (!field) {
+    return end(`GitHub lists only the first ${SEARCH_RESULT_CAP.toLocaleString()} results of a search. Sort by stars or forks, or narrow the search, to see more.`);
+  }
+
+  const descending = filters.order !== OrderOption.ASC;
+  const targetShard = Math.floor((page - 1) / PAGES_PER_SHARD);
+  let shard: SearchShard | null = null;
+  let listed = new Set<number>(); // Ids the previous shard ended on
+
+  for (let index = 0; index < targetShard; index++) {
+    const lastPage = await searchPage(filters, PAGES_PER_SHARD, usernameContext, shard);
+    // The results ran out before the cap: there is nothing further
+    if (lastPage.items.length < ITEMS_PER_PAGE) return end();
+
+    const boundary = getShardValue(lastPage.items[lastPage.items.length - 1], field);
+    const atBoundary = new Set<number>();
+    for (let current = PAGES_PER_SHARD; current >= 1; current--) {
+      const response = current === PAGES_PER_SHARD ? lastPage : await searchPage(filters, current, usernameContext, shard);
+      const matching = response.items.filter(repo => getShardValue(repo, field) === boundary);
+      matching.forEach(repo => atBoundary.add(repo.id));
+      if (matching.length < response.items.length) break;
+      // A whole shard on one value: narrowing on it cannot get any further
+      if (current === 1) {
+        return end(`More than ${SEARCH_RESULT_CAP.toLocaleString()} of these repositories have ${boundary.toLocaleString()} ${field}, which is as far as GitHub can list them. Narrow the search to see more.`);
+      }
+    }
+
+    shard = descending
+      ? { field, min: shard?.min ?? null, max: boundary }
+      : { field, min: boundary, max: shard?.max ?? null };
+    listed = atBoundary;
+  }
+
+  const [first, response] = await Promise.all([
+    searchPage(filters, 1, usernameContext, null),
+    searchPage(filters, (page - 1) % PAGES_PER_SHARD + 1, usernameContext, shard),
+  ]);
+  const items = response.items.filter(repo => !listed.has(repo.id));
+  return {
+    ...response,
+    // The full search's total keeps "load more" going; a short page means the end was reached
+    total_count: response.items.length < ITEMS_PER_PAGE ? (page - 1) * ITEMS_PER_PAGE + items.length : first.total_count,
+    items,
+  };
+};
+
+// The order GitHub gives each search, so merged results read like a single one; ties fall back
+// to the id to keep pages stable
+const compareSearchResults = (sort: SortOption, order: OrderOption) => {
+  const value = (repo: GitHubRepo) =>
+    sort === SortOption.FORKS ? repo.forks_count
+      : sort === SortOption.UPDATED ? Date.parse(repo.updated_at)
+      : repo.stargazers_count;
+  const direction = order === OrderOption.ASC ? 1 : -1;
+  return (a: GitHubRepo, b: GitHubRepo) => (value(a) - value(b)) * direction || a.id - b.id;
+};
+
+/**
+ * Repositories in any of several languages: one `language:` search per language, merged. The
+ * first N merged pages can only hold results from the first N pages of each language, so page N
+ * reads those (earlier ones come from the cache) and cuts its slice out of the merge. That keeps
+ * every page consistent with the ones before it, whatever the languages' sizes.
+ */
+const searchAnyLanguage = async (filters: FilterState, languages: string[], page: number, usernameContext?: string | null, options: SearchOptions = {}): Promise<SearchResponse> => {
+  const streams = await Promise.all(languages.map(async language => {
+    const responses: SearchResponse[] = [];
+    for (let current = 1; current <= page; current++) {
+      const response = await searchRepositories({ ...filters, language: [language] }, current, usernameContext, { bypassCache: options.bypassCache });
+      responses.push(response);
+      if (response.items.length < ITEMS_PER_PAGE) break;
+    }
+    return responses;
+  }));
+
+  const merged = new Map<number, GitHubRepo>();
+  streams.flat().forEach(response => response.items.forEach(repo => merged.set(repo.id, repo)));
+  const items = [...merged.values()].sort(compareSearchResults(filters.sort, filters.order));
+
+  return {
+    total_count: streams.reduce((sum, responses) => sum + responses[0].total_count, 0),
+    incomplete_results: streams.flat().some(response => response.incomplete_results),
+    items: items.slice((page - 1) * ITEMS_PER_PAGE, page * ITEMS_PER_PAGE),
+    fetchedAt: Math.min(...streams.flat().map(response => response.fetchedAt ?? Date.now())),
+  };
+};
+
+// Network half of `searchRepositories`: queries GitHub (or the trending source) and updates the cache
+const fetchSearchResults = async (filters: FilterState, page: number, usernameContext: string | null | undefined, shard: SearchShard | null, cacheKey: string, cachedEntry: CacheEntry | null): Promise<SearchResponse> => {
   const isTrending = filters.sort === SortOption.TRENDING;
   const hasStarFilter = filters.minStars > 0 || filters.maxStars < MAX_STARS;
   const hasQuery = !!filters.query;
   const hasUser = !!usernameContext;
   const hasLicense = filters.license && filters.license !== 'All';
+  const hasQualifierFilter = hasQualifiers(filters.qualifiers);
 
   let searchData: SearchResponse = { total_count: 0, incomplete_results: false, items: [] };
+  let validators: CacheMeta = {};
 
-  // --- TRENDING PROXY LOGIC ---
-  if (isTrending && !hasQuery && !hasUser && !hasStarFilter && !hasLicense) {
+  // --- TRENDING SOURCE LOGIC ---
+  if (isTrending && !hasQuery && !hasUser && !hasStarFilter && !hasLicense && !hasQualifierFilter && !shard) {
       try {
           const lang = (filters.language.length > 0 && filters.language[0] !== 'All') 
             ? filters.language[0] 
             : undefined;
           
           if (!lang || filters.language.length === 1) {
-              searchData = await fetchTrendingProxy(lang);
+              searchData = await fetchTrending(filters.trendingSince, lang);
           }
       } catch (err) {
-          console.warn("Trending proxy failed, falling back to Search API heuristic", err);
+          console.warn("Trending source failed, falling back to Search API heuristic", err);
       }
   }
 
   // --- STANDARD SEARCH API LOGIC ---
-  // Only execute if trending proxy wasn't used
+  // Only execute if the trending source wasn't used
   if (searchData.items.length === 0) {
-      const queryParts = [];
-
-      if (usernameContext) {
-        queryParts.push(`user:${usernameContext}`);
-      }
-
-      if (isTrending && !hasQuery && !usernameContext) {
-        const date = getDateNDaysAgo(7);
-        queryParts.push(`created:>${date}`);
-      }
-
-      if (filters.query) {
-        queryParts.push(filters.query);
-      } else if (!usernameContext && !hasStarFilter && filters.language.length === 0 && !isTrending) {
-        queryParts.push("stars:>1000");
-      }
-
-      // Handle Multi-Select Language (AND Logic & Inclusive)
-      if (filters.language.length > 0 && !filters.language.includes('All')) {
-        const langs = filters.language;
-        const joined = langs.map(l => `"${l}"`).join(' ');
-        queryParts.push(joined);
-      }
-
-      if (filters.license && filters.license !== 'All') {
-        queryParts.push(`license:${filters.license}`);
-      }
-
-      if (filters.maxStars < MAX_STARS) {
-        queryParts.push(`stars:${filters.minStars}..${filters.maxStars}`);
-      } else {
-        if (filters.minStars > 0) {
-          queryParts.push(`stars:>=${filters.minStars}`);
-        }
-      }
-
-      const q = queryParts.join(' ');
+      const q = buildRepositoryQuery(filters, {
+        user: usernameContext,
+        createdAfter: isTrending && !hasQuery && !usernameContext ? getDateNDaysAgo(TRENDING_WINDOW_DAYS[filters.trendingSince]) : null,
+        shard,
+      });
       const params = new URLSearchParams({
         q: q,
         order: filters.order,
@@ -396,34 +1568,39 @@ export const searchRepositories = async (filters: FilterState, page: number = 1,
         page: page.toString(),
       });
 
-      if (isTrending) {
-          params.append('sort', 'stars');
-      } else {
-          params.append('sort', filters.sort);
-      }
+      params.append('sort', getApiSort(filters.sort));
 
       try {
-        const response = await fetch(`${BASE_URL}?${params.toString()}`, {
-          headers: getHeaders(),
-        });
+        const url = `${BASE_URL}?${params.toString()}`;
+        const response = await githubFetch(url, { revalidate: cachedEntry });
+
+        if (response.status === 304 && cachedEntry) {
+          await refreshCacheEntry(cachedEntry);
+          return withFreshness(cachedEntry.data, Date.now());
+        }
 
         if (!response.ok) {
-          if (response.status === 403 || response.status === 429) {
-            throw new Error("API Rate limit exceeded. Please try again in a moment.");
+          // Only reached once the request stayed rate limited after waiting for the reset
+          if (isRateLimitResponse(response)) {
+            throw await getResponseError(url, response, "API Rate limit exceeded. Please try again in a moment.");
           }
           
           if (response.status === 422) {
-              console.warn("GitHub API 422 (Likely pagination limit reached):", response.statusText);
+              // Pages past the result cap are sharded (see searchPastCap), so this is a query GitHub refused
+              const error = await getResponseError(url, response, `${response.status} ${response.statusText}`);
+              console.warn("GitHub API 422:", error.message);
               searchData = {
                   total_count: 0,
                   incomplete_results: false,
-                  items: []
+                  items: [],
+                  warning: `GitHub could not run this search: ${error.message}`
               };
           } else {
               throw new Error(`GitHub API Error: ${response.status} ${response.statusText}`);
           }
         } else {
             searchData = await response.json();
+            validators = getValidators(response);
         }
 
       } catch (error) {
@@ -432,6 +1609,6 @@ export const searchRepositories = async (filters: FilterState, page: number = 1,
       }
   }
 
-  await saveToDB(cacheKey, searchData);
-  return searchData;
+  await saveToCache(cacheKey, searchData, { category: 'search', ...validators });
+  return withFreshness(searchData, Date.now());
 };
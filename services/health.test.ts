@@ -0,0 +1,89 @@
+import { applyHealthFilters, computeHealth, getBulkHealthBlock, getHealthState, HealthEntry, requestHealth } from './health';
+import { GitHubRepo, HealthSignals, OrderOption, SortOption } from '../types';
+import { DEFAULT_FILTERS } from '../constants';
+
+// Fix for missing type definitions for Jest globals
+declare const describe: any;
+declare const it: any;
+declare const expect: any;
+
+const NOW = new Date('2025-06-01T00:00:00Z').getTime();
+const daysAgo = (days: number) => new Date(NOW - days * 24 * 60 * 60 * 1000).toISOString();
+
+const makeRepo = (overrides: Partial<GitHubRepo> = {}): GitHubRepo => ({
+  id: 1,
+  name: 'lib',
+  full_name: 'acme/lib',
+  description: null,
+  html_url: 'https://github.com/acme/lib',
+  stargazers_count: 2000,
+  forks_count: 500,
+  language: 'TypeScript',
+  owner: { login: 'acme', avatar_url: '', html_url: '' },
+  updated_at: daysAgo(1),
+  pushed_at: daysAgo(1),
+  topics: [],
+  license: { key: 'mit', name: 'MIT License' },
+  size: 100,
+  open_issues_count: 4,
+  has_issues: true,
+  archived: false,
+  ...overrides,
+});
+
+const healthySignals: HealthSignals = {
+  commitsLast90Days: 120,
+  medianIssueCloseDays: 2,
+  releases: { count: 30, latest: daysAgo(5), averageDays: 14 },
+  busFactor: 6,
+};
+
+describe('computeHealth', () => {
+  it('should give full marks when every signal is strong', () => {
+    expect(computeHealth(makeRepo(), healthySignals, NOW).score).toBe(100);
+  });
+
+  it('should leave unreadable signals out instead of counting them as zero', () => {
+    const health = computeHealth(makeRepo(), { ...healthySignals, commitsLast90Days: null, busFactor: null }, NOW);
+    expect(health.score).toBe(100);
+    expect(health.factors.find(factor => factor.id === 'activity')?.score).toBeNull();
+  });
+
+  it('should penalise single-maintainer, unlicensed and archived repositories', () => {
+    const base = computeHealth(makeRepo(), healthySignals, NOW).score;
+    const soloUnlicensed = computeHealth(makeRepo({ license: null }), { ...healthySignals, busFactor: 1 }, NOW).score;
+    const archived = computeHealth(makeRepo({ archived: true }), healthySignals, NOW).score;
+
+    expect(soloUnlicensed).toBeLessThan(base - 20);
+    expect(archived).toBe(25);
+  });
+
+  it('should use weights that add up to the whole score', () => {
+    const total = computeHealth(makeRepo(), healthySignals, NOW).factors.reduce((sum, factor) => sum + factor.weight, 0);
+    expect(total).toBeCloseTo(1);
+  });
+});
+
+describe('applyHealthFilters', () => {
+  const repos = ['a', 'b', 'c'].map((name, index) => makeRepo({ id: index, name, full_name: `acme/${name}` }));
+  const entry = (score: number): HealthEntry => ({ status: 'ready', health: { score, factors: [], archived: false }, error: null });
+  const health = { 'acme/a': entry(40), 'acme/c': entry(90) };
+
+  it('should sort scored repositories and keep pending ones last', () => {
+    const sorted = applyHealthFilters(repos, health, { ...DEFAULT_FILTERS, sort: SortOption.HEALTH, order: OrderOption.DESC });
+    expect(sorted.map(repo => repo.name)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should hide repositories scored below the floor', () => {
+    const filtered = applyHealthFilters(repos, health, { ...DEFAULT_FILTERS, minHealth: 50 });
+    expect(filtered.map(repo => repo.name)).toEqual(['b', 'c']);
+  });
+});
+
+describe('requestHealth', () => {
+  it('should not score in bulk while signed out', () => {
+    expect(getBulkHealthBlock()).toBe('signed-out');
+    requestHealth([makeRepo({ full_name: 'acme/bulk' })], true);
+    expect(getHealthState()['acme/bulk']).toBeUndefined();
+  });
+});
@@ -0,0 +1,245 @@
+import { FilterState, GitHubRepo, HealthFactor, HealthSignals, OrderOption, RepoHealth, SortOption } from '../types';
+import { getHealthSignals, hasAuthToken } from './githubService';
+import { getRateLimits } from './rateLimit';
+
+// Repository health: a 0-100 score from activity signals, with an explanation per factor.
+//
+//   Factor        Weight  Full marks             No marks
+//   activity       25%    60+ commits / 90 days  none
+//   issues         15%    closed within 3 days   closed after 180 days
+//   releases       15%    a release every month  nothing in a year
+//   bus-factor     15%    5+ people make half    one person makes half
+//                         of the commits         of the commits
+//   recency        10%    pushed within 14 days  pushed over a year ago
+//   license        10%    any license            no license
+//   backlog         5%    <= 5 open issues and   >= 100 per 1k stars
+//                         PRs per 1k stars
+//   community       5%    500+ forks             no forks
+//
+// Between the ends scores follow a log scale, so the first few commits or forks count most.
+// Signals that cannot be read drop out and the remaining weights are scaled back up to 100%.
+// Archived repositories keep a quarter of their score.
+
+const ARCHIVED_FACTOR = 0.25;
+const SCORE_CONCURRENCY = 2; // Each repository costs four requests, so keep the queue narrow
+const BULK_QUOTA_RESERVE = 200; // Core requests bulk scoring leaves for browsing itself
+const DAY = 1000 * 60 * 60 * 24;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// 1 at or above `good`, 0 at or below `bad`, log scale in between
+const scaleUp = (value: number, bad: number, good: number) =>
+  value <= bad ? 0 : clamp(Math.log1p(value - bad) / Math.log1p(good - bad));
+
+// 1 at or below `good`, 0 at or above `bad`, log scale in between
+const scaleDown = (value: number, good: number, bad: number) =>
+  value <= good ? 1 : clamp(1 - Math.log(value / good) / Math.log(bad / good));
+
+const plural = (count: number, noun: string) => `${count.toLocaleString()} ${noun}${count === 1 ? '' : 's'}`;
+
+const formatDays = (days: number) =>
+  days < 1 ? 'under a day' : days < 60 ? plural(Math.round(days), 'day') : plural(Math.round(days / 30), 'month');
+
+const BUS_FACTOR_SCORES = [0, 0.15, 0.5, 0.7, 0.85, 1];
+
+/** Combines the signals with what the repository payload already carries into a scored breakdown. */
+export const computeHealth = (repo: GitHubRepo, signals: HealthSignals, now = Date.now()): RepoHealth => {
+  const { commitsLast90Days: commits, medianIssueCloseDays: closeDays, releases, busFactor } = signals;
+  const pushedDays = (now - new Date(repo.pushed_at).getTime()) / DAY;
+  const openPerThousandStars = repo.open_issues_count / Math.max(repo.stargazers_count, 1) * 1000;
+
+  let releaseScore: number | null = null;
+  let releaseDetail = 'Releases could not be read.';
+  if (releases && releases.count === 0) {
+    releaseScore = 0;
+    releaseDetail = 'No GitHub releases published.';
+  } else if (releases?.latest) {
+    // A steady cadence only counts while it is still going
+    const sinceLatest = (now - new Date(releases.latest).getTime()) / DAY;
+    const gap = Math.max(releases.averageDays ?? sinceLatest, sinceLatest);
+    releaseScore = scaleDown(gap, 30, 365);
+    releaseDetail = releases.averageDays !== null
+      ? `A release every ${formatDays(releases.averageDays)} on average, the latest ${formatDays(sinceLatest)} ago.`
+      : `A single release, ${formatDays(sinceLatest)} ago.`;
+  }
+
+  const factors: HealthFactor[] = [
+    {
+      id: 'activity',
+      label: 'Commit Activity',
+      weight: 0.25,
+      score: commits === null ? null : scaleUp(commits, 0, 60),
+      detail: commits === null ? 'Commits could not be read.' : `${plural(commits, 'commit')} in the last 90 days.`,
+    },
+    {
+      id: 'issues',
+      label: 'Issue Response',
+      weight: 0.15,
+      score: closeDays === null ? null : scaleDown(closeDays, 3, 180),
+      detail: closeDays === null ? 'No recently closed issues to measure.' : `Recent issues were closed after ${formatDays(closeDays)} (median).`,
+    },
+    {
+      id: 'releases',
+      label: 'Release Frequency',
+      weight: 0.15,
+      score: releaseScore,
+      detail: releaseDetail,
+    },
+    {
+      id: 'bus-factor',
+      label: 'Bus Factor',
+      weight: 0.15,
+      score: busFactor === null ? null : BUS_FACTOR_SCORES[Math.min(busFactor, BUS_FACTOR_SCORES.length - 1)],
+      detail: busFactor === null ? 'Contributors could not be read.' : `${plural(busFactor, 'contributor')} made half of all commits.`,
+    },
+    {
+      id: 'recency',
+      label: 'Last Push',
+      weight: 0.1,
+      score: repo.pushed_at ? scaleDown(Math.max(pushedDays, 0), 14, 365) : null,
+      detail: repo.pushed_at ? `Last pushed ${formatDays(Math.max(pushedDays, 0))} ago.` : 'No pushes recorded.',
+    },
+    {
+      id: 'license',
+      label: 'License',
+      weight: 0.1,
+      score: repo.license ? 1 : 0,
+      detail: repo.license ? `Licensed under ${repo.license.name}.` : 'No license, so reuse is not permitted by default.',
+    },
+    {
+      id: 'backlog',
+      label: 'Open Backlog',
+      weight: 0.05,
+      score: scaleDown(Math.max(openPerThousandStars, 1), 5, 100),
+      detail: `${plural(repo.open_issues_count, 'open issue')} and pull requests for ${plural(repo.stargazers_count, 'star')}.`,
+    },
+    {
+      id: 'community',
+      label: 'Community',
+      weight: 0.05,
+      score: scaleUp(repo.forks_count, 0, 500),
+      detail: `${plural(repo.forks_count, 'fork')}.`,
+    },
+  ];
+
+  const known = factors.filter(factor => factor.score !== null);
+  const knownWeight = known.reduce((sum, factor) => sum + factor.weight, 0);
+  const weighted = known.reduce((sum, factor) => sum + factor.weight * (factor.score as number), 0);
+  const score = knownWeight > 0 ? (weighted / knownWeight) * (repo.archived ? ARCHIVED_FACTOR : 1) : 0;
+
+  return { score: Math.round(score * 100), factors, archived: repo.archived };
+};
+
+// --- SCORE STORE ---
+// Scores are requested on demand and shared through one observable map keyed by full_name.
+// A click on a card's badge always scores it. Sorting or filtering by health scores cards in
+// bulk as they scroll into view, but only when signed in and while the core quota lasts.
+
+export interface HealthEntry {
+  status: 'loading' | 'ready' | 'error';
+  health: RepoHealth | null;
+  error: string | null;
+}
+
+export type BulkHealthBlock = 'signed-out' | 'quota' | null;
+
+interface ScoreJob {
+  repo: GitHubRepo;
+  bulk: boolean;
+}
+
+let entries: Record<string, HealthEntry> = {};
+const listeners = new Set<() => void>();
+const queue: ScoreJob[] = [];
+let running = 0;
+
+const setEntry = (fullName: string, entry: HealthEntry) => {
+  entries = { ...entries, [fullName]: entry };
+  listeners.forEach(listener => listener());
+};
+
+const clearEntry = (fullName: string) => {
+  const { [fullName]: _dropped, ...rest } = entries;
+  entries = rest;
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeHealth = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getHealthState = (): Record<string, HealthEntry> => entries;
+
+/** Why bulk scoring is held back, if it is: anonymous quotas are too small, and the reserve is kept. */
+export const getBulkHealthBlock = (): BulkHealthBlock => {
+  if (!hasAuthToken()) return 'signed-out';
+  const core = getRateLimits().core;
+  if (core && core.reset > Date.now() && core.remaining < BULK_QUOTA_RESERVE) return 'quota';
+  return null;
+};
+
+const drainQueue = () => {
+  while (running < SCORE_CONCURRENCY && queue.length > 0) {
+    const { repo, bulk } = queue.shift() as ScoreJob;
+    if (bulk && getBulkHealthBlock()) {
+      // Left unscored, so scrolling back to the card asks again once the quota is back
+      clearEntry(repo.full_name);
+      continue;
+    }
+    running++;
+    getHealthSignals(repo.owner.login, repo.name)
+      .then(signals => setEntry(repo.full_name, { status: 'ready', health: computeHealth(repo, signals), error: null }))
+      .catch((error: any) => setEntry(repo.full_name, { status: 'error', health: null, error: error?.message || 'Could not score this repository.' }))
+      .finally(() => {
+        running--;
+        drainQueue();
+      });
+  }
+};
+
+/**
+ * Queues scoring for repositories that have no score yet. Failed ones are retried. Bulk requests
+ * are skipped while `getBulkHealthBlock` holds them back; explicit ones go ahead of them.
+ */
+export const requestHealth = (repos: GitHubRepo[], bulk = false) => {
+  if (bulk && getBulkHealthBlock()) return;
+  repos.forEach(repo => {
+    const entry = entries[repo.full_name];
+    if (entry && entry.status !== 'error') return;
+    setEntry(repo.full_name, { status: 'loading', health: null, error: null });
+    if (bulk) {
+      queue.push({ repo, bulk });
+    } else {
+      const firstBulk = queue.findIndex(job => job.bulk);
+      queue.splice(firstBulk === -1 ? queue.length : firstBulk, 0, { repo, bulk });
+    }
+  });
+  drainQueue();
+};
+
+/**
+ * Applies the health floor and, when sorting by health, the health order. Repositories that
+ * are still being scored pass the floor and sort last until their score arrives.
+ */
+export const applyHealthFilters = (repos: GitHubRepo[], health: Record<string, HealthEntry>, filters: FilterState): GitHubRepo[] => {
+  const scoreOf = (repo: GitHubRepo) => health[repo.full_name]?.health?.score ?? null;
+
+  const matches = filters.minHealth > 0
+    ? repos.filter(repo => {
+        const score = scoreOf(repo);
+        return score === null || score >= filters.minHealth;
+      })
+    : repos;
+  if (filters.sort !== SortOption.HEALTH) return matches;
+
+  const direction = filters.order === OrderOption.ASC ? 1 : -1;
+  return [...matches].sort((a, b) => {
+    const scoreA = scoreOf(a);
+    const scoreB = scoreOf(b);
+    if (scoreA === null || scoreB === null) return (scoreA === null ? 1 : 0) - (scoreB === null ? 1 : 0);
+    return (scoreA - scoreB) * direction;
+  });
+};
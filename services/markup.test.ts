@@ -0,0 +1,20 @@
+import { sanitizeHtml } from './markup';
+
+// Fix for missing type definitions for Jest globals
+declare const describe: any;
+declare const it: any;
+declare const expect: any;
+
+describe('sanitizeHtml', () => {
+  it('should drop script URLs hidden with control characters', () => {
+    const html = sanitizeHtml('<a href="jav&#x09;ascript:alert(1)">a</a><img src=" java&#x0A;script:alert(1)"><a href="data:text/html,x">b</a>');
+
+    expect(html).toBe('<a>a</a><img><a>b</a>');
+  });
+
+  it('should keep web, mail, anchor and relative URLs', () => {
+    const html = sanitizeHtml('<a href="https://x.dev">a</a><a href="mailto:a@x.dev">b</a><a href="#usage">c</a><img src="docs/logo.png">');
+
+    expect(html).toBe('<a href="https://x.dev">a</a><a href="mailto:a@x.dev">b</a><a href="#usage">c</a><img src="docs/logo.png">');
+  });
+});
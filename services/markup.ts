@@ -0,0 +1,157 @@
+import hljs from 'highlight.js/lib/common';
+import type React from 'react';
+
+// Helpers for showing HTML rendered by the GitHub API (READMEs, issue bodies, release notes)
+// inside the app. GitHub already sanitizes its output, but the markup is injected into our
+// own origin, so it is cleaned again before use.
+
+export interface MarkupContext {
+  owner: string;
+  repo: string;
+  branch?: string;
+}
+
+const BLOCKED_TAGS = ['script', 'style', 'iframe', 'frame', 'object', 'embed', 'form', 'link', 'meta', 'base', 'noscript'];
+const URL_ATTRIBUTES = ['href', 'src', 'xlink:href', 'action', 'formaction', 'poster'];
+
+const SAFE_SCHEMES = ['http', 'https', 'mailto'];
+
+// Browsers ignore control characters and whitespace inside a scheme (`jav&#x09;ascript:`), so
+// they are dropped before looking at it. Only known schemes, anchors and relative URLs pass.
+const isUnsafeUrl = (value: string) => {
+  const scheme = value.replace(/[\u0000-\u0020\u007f-\u009f]/g, '').match(/^([^/?#]*?):/);
+  return !!scheme && !SAFE_SCHEMES.includes(scheme[1].toLowerCase());
+};
+
+const isRelativeUrl = (value: string) =>
+  !!value && !value.startsWith('#') && !/^[a-z][a-z0-9+.-]*:/i.test(value) && !value.startsWith('//');
+
+const sanitizeTree = (root: ParentNode) => {
+  root.querySelectorAll(BLOCKED_TAGS.join(',')).forEach(el => el.remove());
+
+  root.querySelectorAll('*').forEach(el => {
+    Array.from(el.attributes).forEach(attr => {
+      const name = attr.name.toLowerCase();
+      if (name.startsWith('on') || name === 'srcdoc' || name === 'style') {
+        el.removeAttribute(attr.name);
+      } else if (URL_ATTRIBUTES.includes(name) && isUnsafeUrl(attr.value)) {
+        el.removeAttribute(attr.name);
+      }
+    });
+  });
+};
+
+const rewriteUrls = (root: ParentNode, context: MarkupContext) => {
+  const branch = encodeURIComponent(context.branch || 'HEAD');
+  const repoPath = `${encodeURIComponent(context.owner)}/${encodeURIComponent(context.repo)}`;
+  const rawBase = `https://raw.githubusercontent.com/${repoPath}/${branch}/`;
+  const blobBase = `https://github.com/${repoPath}/blob/${branch}/`;
+
+  // Leading slashes are relative to the repository root, not to the host
+  const resolve = (value: string, base: string) => new URL(value.replace(/^\/+/, ''), base).toString();
+
+  root.querySelectorAll('img[src], video[src]').forEach(el => {
+    const src = el.getAttribute('src');
+    if (src && isRelativeUrl(src)) el.setAttribute('src', resolve(src, rawBase));
+  });
+
+  root.querySelectorAll('a[href]').forEach(el => {
+    const href = el.getAttribute('href') || '';
+    if (href.startsWith('#')) {
+      // In-page anchors would clash with the hash router; the view scrolls to them instead
+      el.setAttribute('data-anchor', href.slice(1));
+      return;
+    }
+    if (isRelativeUrl(href)) el.setAttribute('href', resolve(href, blobBase));
+    el.setAttribute('target', '_blank');
+    el.setAttribute('rel', 'noopener noreferrer');
+  });
+};
+
+const getCodeLanguage = (pre: Element): string | null => {
+  const candidates = [
+    pre.getAttribute('lang'),
+    pre.parentElement?.className.match(/highlight-source-([\w-]+)/)?.[1],
+    pre.querySelector('code')?.className.match(/language-([\w-]+)/)?.[1],
+  ];
+  const lang = candidates.find(Boolean);
+  return lang && hljs.getLanguage(lang) ? lang : null;
+};
+
+/**
+ * Highlights a piece of source code. Unknown languages fall back to auto-detection.
+ * Returns HTML safe to inject (highlight.js escapes the input).
+ */
+export const highlightCode = (code: string, language?: string | null): string => {
+  if (language && hljs.getLanguage(language)) {
+    return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+  }
+  return hljs.highlightAuto(code).value;
+};
+
+// File names highlight.js cannot tell from their extension
+const FILE_NAME_LANGUAGES: Record<string, string> = {
+  makefile: 'makefile',
+  gnumakefile: 'makefile',
+  gemfile: 'ruby',
+  rakefile: 'ruby',
+  podfile: 'ruby',
+};
+
+/** The highlight.js language for a file path, by name or extension. Null when none is known. */
+export const getLanguageForPath = (path: string): string | null => {
+  const name = path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+  if (FILE_NAME_LANGUAGES[name]) return FILE_NAME_LANGUAGES[name];
+  const extension = name.includes('.') ? name.slice(name.lastIndexOf('.') + 1) : null;
+  return extension && hljs.getLanguage(extension) ? extension : null;
+};
+
+const highlightBlocks = (root: ParentNode) => {
+  root.querySelectorAll('pre').forEach(pre => {
+    const source = pre.textContent || '';
+    const language = getCodeLanguage(pre);
+    const code = pre.ownerDocument.createElement('code');
+    code.className = `hljs${language ? ` language-${language}` : ''}`;
+    code.innerHTML = highlightCode(source, language);
+    pre.replaceChildren(code);
+  });
+};
+
+/** Strips scripts, event handlers, inline styles and unsafe URLs from an HTML fragment. */
+export const sanitizeHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  sanitizeTree(doc.body);
+  return doc.body.innerHTML;
+};
+
+/**
+ * Prepares repository markup for display: sanitizes it, resolves relative links and images
+ * against the repository branch and highlights code blocks.
+ */
+export const renderRepoMarkup = (html: string, context: MarkupContext): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  sanitizeTree(doc.body);
+  rewriteUrls(doc.body, context);
+  highlightBlocks(doc.body);
+  return doc.body.innerHTML;
+};
+
+/**
+ * Click handler for containers showing rendered markup: scrolls to in-page anchors
+ * (GitHub prefixes heading ids with `user-content-`) without touching the location hash.
+ */
+export const handleAnchorClick = (e: React.MouseEvent<HTMLElement>) => {
+  const link = (e.target as HTMLElement).closest('a[data-anchor]');
+  if (!link) return;
+  e.preventDefault();
+
+  const raw = link.getAttribute('data-anchor') || '';
+  let anchor = raw;
+  try {
+    anchor = decodeURIComponent(raw);
+  } catch {
+    // A stray `%` in the document: look the anchor up as written
+  }
+  const target = e.currentTarget.querySelector(`[id="user-content-${CSS.escape(anchor)}"], [id="${CSS.escape(anchor)}"]`);
+  target?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+};
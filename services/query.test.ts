@@ -0,0 +1,64 @@
+import { applySearchText, buildQualifiers, buildRepositoryQuery, matchesQualifiers } from './query';
+import { GitHubRepo } from '../types';
+import { DEFAULT_FILTERS, DEFAULT_QUALIFIERS } from '../constants';
+
+// Fix for missing type definitions for Jest globals
+declare const describe: any;
+declare const it: any;
+declare const expect: any;
+
+describe('buildQualifiers', () => {
+  it('should write open-ended ranges with comparison operators', () => {
+    const parts = buildQualifiers({
+      ...DEFAULT_QUALIFIERS,
+      created: { from: '2024-01-01', to: null },
+      forks: { min: null, max: 50 },
+      size: { min: 10, max: 10 },
+    });
+
+    expect(parts).toEqual(['created:>=2024-01-01', 'forks:<=50', 'size:10']);
+  });
+});
+
+describe('buildRepositoryQuery', () => {
+  it('should fall back to popular repositories only when nothing else narrows the search', () => {
+    expect(buildRepositoryQuery(DEFAULT_FILTERS)).toBe('stars:>1000');
+    expect(buildRepositoryQuery({ ...DEFAULT_FILTERS, qualifiers: { ...DEFAULT_QUALIFIERS, topics: ['cli'] } })).toBe('topic:cli');
+  });
+});
+
+describe('applySearchText', () => {
+  it('should turn strict bounds into inclusive ones', () => {
+    const filters = applySearchText(DEFAULT_FILTERS, 'pushed:>2024-02-28 forks:<10 good-first-issues:>=3');
+
+    expect(filters.query).toBe('');
+    expect(filters.qualifiers.pushed).toEqual({ from: '2024-02-29', to: null });
+    expect(filters.qualifiers.forks).toEqual({ min: null, max: 9 });
+    expect(filters.qualifiers.goodFirstIssues).toBe(2);
+  });
+
+  it('should leave qualifiers it cannot represent in the text', () => {
+    const filters = applySearchText(DEFAULT_FILTERS, 'in:topics is:public created:yesterday stars:>=1000000 "exact phrase"');
+
+    expect(filters.query).toBe('in:topics is:public created:yesterday stars:>=1000000 "exact phrase"');
+    expect(filters.qualifiers).toEqual(DEFAULT_QUALIFIERS);
+  });
+});
+
+describe('matchesQualifiers', () => {
+  const repo = {
+    owner: { login: 'Acme' },
+    topics: ['cli', 'rust'],
+    created_at: '2023-05-01T00:00:00Z',
+    pushed_at: '2024-03-01T00:00:00Z',
+    forks_count: 20,
+    size: 900,
+    archived: false,
+  } as GitHubRepo;
+
+  it('should check what the repository payload carries', () => {
+    expect(matchesQualifiers(repo, { ...DEFAULT_QUALIFIERS, topics: ['rust'], org: 'acme', pushed: { from: '2024-01-01', to: null } })).toBe(true);
+    expect(matchesQualifiers(repo, { ...DEFAULT_QUALIFIERS, created: { from: '2024-01-01', to: null } })).toBe(false);
+    expect(matchesQualifiers(repo, { ...DEFAULT_QUALIFIERS, template: true })).toBe(false);
+  });
+});
@@ -0,0 +1,295 @@
+import { DateRange, FilterState, GitHubRepo, NumberRange, SearchInField, SearchQualifiers } from '../types';
+import { ALL_LANGUAGES, DEFAULT_QUALIFIERS, MAX_STARS } from '../constants';
+
+// Typed building and parsing of GitHub repository search queries.
+//
+//   Field            Qualifier                  Example
+//   topics           topic:NAME, one each       topic:cli topic:rust
+//   org              org:LOGIN                  org:vercel
+//   searchIn         in:FIELD[,FIELD]           in:name,description
+//   created, pushed  DATE..DATE, >=DATE, ...    pushed:>=2024-01-01
+//   forks, size      N..M, >=N, <=M             size:<=1000 (kilobytes)
+//   goodFirstIssues  good-first-issues:>N       good-first-issues:>3
+//   archived         archived:true|false
+//   template         is:template
+//   fork             fork:true|only             forks are left out unless asked for
+//
+// Parsing goes the other way so a hand-typed query fills in the controls. Anything it does not
+// understand, negated qualifiers included, stays in the free text as typed.
+
+const SEARCH_IN_FIELDS: SearchInField[] = ['name', 'description', 'readme'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TOKEN_PATTERN = /(-?)([a-z][\w-]*):("[^"]*"|\S+)|"[^"]*"|\S+/gi;
+
+// `low..high`, or an open end written as `>=low` / `<=high`
+const formatRange = (low: string | null, high: string | null): string | null =>
+  low !== null && high !== null ? (low === high ? low : `${low}..${high}`)
+    : low !== null ? `>=${low}`
+    : high !== null ? `<=${high}`
+    : null;
+
+const formatNumberRange = (range: NumberRange) =>
+  formatRange(range.min === null ? null : String(range.min), range.max === null ? null : String(range.max));
+
+const quote = (value: string) => /\s/.test(value) ? `"${value}"` : value;
+
+/** The qualifiers for everything set in `qualifiers`, in a stable order. */
+export const buildQualifiers = (qualifiers: SearchQualifiers): string[] => {
+  const parts: string[] = [];
+  const add = (key: string, value: string | null) => {
+    if (value !== null && value !== '') parts.push(`${key}:${value}`);
+  };
+
+  qualifiers.topics.forEach(topic => add('topic', quote(topic)));
+  add('org', qualifiers.org.trim());
+  if (qualifiers.searchIn.length > 0) add('in', qualifiers.searchIn.join(','));
+  add('created', formatRange(qualifiers.created.from, qualifiers.created.to));
+  add('pushed', formatRange(qualifiers.pushed.from, qualifiers.pushed.to));
+  add('forks', formatNumberRange(qualifiers.forks));
+  add('size', formatNumberRange(qualifiers.size));
+  if (qualifiers.goodFirstIssues !== null) add('good-first-issues', `>${qualifiers.goodFirstIssues}`);
+  if (qualifiers.archived !== null) add('archived', String(qualifiers.archived));
+  if (qualifiers.template) add('is', 'template');
+  if (qualifiers.fork !== 'exclude') add('fork', qualifiers.fork === 'only' ? 'only' : 'true');
+  return parts;
+};
+
+export const hasQualifiers = (qualifiers: SearchQualifiers): boolean => buildQualifiers(qualifiers).length > 0;
+
+/** The free text with the structured qualifiers appended: what the search box stands for. */
+export const composeQuery = (filters: FilterState): string =>
+  [filters.query.trim(), ...buildQualifiers(filters.qualifiers)].filter(Boolean).join(' ');
+
+// One slice of a result set too large for GitHub to list in full (see searchRepositories)
+export interface SearchShard {
+  field: 'stars' | 'forks'; // What the results are ordered by
+  min: number | null;
+  max: number | null;
+}
+
+export interface RepositoryQueryContext {
+  user?: string | null; // Limits the search to one account's repositories
+  createdAfter?: string | null; // YYYY-MM-DD, the trending heuristic
+  shard?: SearchShard | null;
+}
+
+// The part of `range` inside the shard, when the shard slices that field
+const narrowRange = (range: NumberRange, field: SearchShard['field'], shard?: SearchShard | null): NumberRange =>
+  !shard || shard.field !== field ? range : {
+    min: shard.min === null ? range.min : Math.max(range.min ?? 0, shard.min),
+    max: shard.max === null ? range.max : Math.min(range.max ?? Infinity, shard.max),
+  };
+
+/** The `q` parameter for a repository search. */
+export const buildRepositoryQuery = (filters: FilterState, context: RepositoryQueryContext = {}): string => {
+  const parts: string[] = [];
+  const languages = filters.language.filter(lang => lang !== 'All');
+  const hasStarFilter = filters.minStars > 0 || filters.maxStars < MAX_STARS;
+  let stars: NumberRange = { min: filters.minStars > 0 ? filters.minStars : null, max: filters.maxStars < MAX_STARS ? filters.maxStars : null };
+
+  if (context.user) parts.push(`user:${context.user}`);
+  if (context.createdAfter) parts.push(`created:>${context.createdAfter}`);
+
+  if (filters.query) {
+    parts.push(filters.query);
+  } else if (!context.user && !context.createdAfter && !hasStarFilter && languages.length === 0 && !hasQualifiers(filters.qualifiers)) {
+    // GitHub needs something to search for; popular repositories make a sensible default
+    if (context.shard?.field === 'stars') stars = { ...stars, min: 1001 };
+    else parts.push('stars:>1000');
+  }
+
+  if (languages.length > 0) {
+    // A repository has a single primary language, so requiring several of them can only be done
+    // with keywords; one language, or any of several (see searchRepositories), filters on it
+    parts.push(filters.languageMode === 'and' && languages.length > 1
+      ? languages.map(lang => `"${lang}"`).join(' ')
+      : languages.map(lang => `language:${quote(lang)}`).join(' '));
+  }
+
+  if (filters.license && filters.license !== 'All') parts.push(`license:${filters.license}`);
+
+  stars = narrowRange(stars, 'stars', context.shard);
+  if (stars.max !== null) {
+    parts.push(`stars:${stars.min ?? 0}..${stars.max}`);
+  } else if (stars.min !== null) {
+    parts.push(`stars:>=${stars.min}`);
+  }
+
+  parts.push(...buildQualifiers({ ...filters.qualifiers, forks: narrowRange(filters.qualifiers.forks, 'forks', context.shard) }));
+  return parts.join(' ');
+};
+
+// --- PARSING ---
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1');
+
+const shiftDate = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+// Reads `a..b`, `a..*`, `*..b`, `>=a`, `>a`, `<=b`, `<b` and a bare `a`. Strict bounds are
+// turned inclusive with `step`. Returns null for anything else.
+const parseRange = <T,>(value: string, parse: (raw: string) => T | null, step: (bound: T, by: number) => T): [T | null, T | null] | null => {
+  const bound = (raw: string) => raw === '*' ? undefined : parse(raw);
+
+  if (value.includes('..')) {
+    const [rawLow, rawHigh] = value.split('..');
+    const low = bound(rawLow);
+    const high = bound(rawHigh);
+    if (low === null || high === null || (low === undefined && high === undefined)) return null;
+    return [low ?? null, high ?? null];
+  }
+
+  const match = value.match(/^(>=|<=|>|<)?(.+)$/);
+  const parsed = match ? parse(match[2]) : null;
+  if (!match || parsed === null) return null;
+  switch (match[1]) {
+    case '>=': return [parsed, null];
+    case '>': return [step(parsed, 1), null];
+    case '<=': return [null, parsed];
+    case '<': return [null, step(parsed, -1)];
+    default: return [parsed, parsed];
+  }
+};
+
+const parseCount = (raw: string) => /^\d+$/.test(raw) ? parseInt(raw, 10) : null;
+const parseDate = (raw: string) => DATE_PATTERN.test(raw) && !isNaN(Date.parse(raw)) ? raw : null;
+
+const parseNumberRange = (value: string): NumberRange | null => {
+  const range = parseRange(value, parseCount, (bound, by) => Math.max(0, bound + by));
+  return range && { min: range[0], max: range[1] };
+};
+
+const parseDateRange = (value: string): DateRange | null => {
+  const range = parseRange(value, parseDate, shiftDate);
+  return range && { from: range[0], to: range[1] };
+};
+
+const canonicalLanguage = (name: string) =>
+  ALL_LANGUAGES.find(lang => lang.toLowerCase() === name.toLowerCase()) || name;
+
+/**
+ * Reads qualifiers out of a typed query into the structured filters. Values found in the text
+ * win over the current ones (topics and languages are added); the rest of the text becomes
+ * the free-text query.
+ */
+export const applySearchText = (filters: FilterState, text: string): FilterState => {
+  const next: FilterState = { ...filters, qualifiers: { ...DEFAULT_QUALIFIERS, ...filters.qualifiers } };
+  const q = next.qualifiers;
+  const rest: string[] = [];
+
+  // Each handler returns false when the value is not one it understands
+  const handlers: Record<string, (value: string) => boolean> = {
+    topic: value => {
+      const topic = value.toLowerCase();
+      if (!q.topics.includes(topic)) q.topics = [...q.topics, topic];
+      return true;
+    },
+    org: value => {
+      q.org = value;
+      return true;
+    },
+    in: value => {
+      const fields = value.toLowerCase().split(',') as SearchInField[];
+      if (!fields.every(field => SEARCH_IN_FIELDS.includes(field))) return false;
+      q.searchIn = SEARCH_IN_FIELDS.filter(field => fields.includes(field) || q.searchIn.includes(field));
+      return true;
+    },
+    created: value => {
+      const range = parseDateRange(value);
+      if (range) q.created = range;
+      return !!range;
+    },
+    pushed: value => {
+      const range = parseDateRange(value);
+      if (range) q.pushed = range;
+      return !!range;
+    },
+    forks: value => {
+      const range = parseNumberRange(value);
+      if (range) q.forks = range;
+      return !!range;
+    },
+    size: value => {
+      const range = parseNumberRange(value);
+      if (range) q.size = range;
+      return !!range;
+    },
+    'good-first-issues': value => {
+      const match = value.match(/^(>=?)(\d+)$/);
+      if (!match) return false;
+      const count = parseInt(match[2], 10);
+      q.goodFirstIssues = match[1] === '>=' ? Math.max(count - 1, 0) : count;
+      return true;
+    },
+    archived: value => {
+      if (value !== 'true' && value !== 'false') return false;
+      q.archived = value === 'true';
+      return true;
+    },
+    is: value => {
+      if (value.toLowerCase() !== 'template') return false;
+      q.template = true;
+      return true;
+    },
+    fork: value => {
+      const modes: Record<string, SearchQualifiers['fork']> = { true: 'include', only: 'only', false: 'exclude' };
+      const mode = modes[value.toLowerCase()];
+      if (mode) q.fork = mode;
+      return !!mode;
+    },
+    language: value => {
+      const language = canonicalLanguage(value);
+      if (!next.language.includes(language)) next.language = [...next.language, language];
+      return true;
+    },
+    license: value => {
+      next.license = value.toLowerCase();
+      return true;
+    },
+    stars: value => {
+      const range = parseNumberRange(value);
+      // Bounds past the slider's end stay in the text, where GitHub still applies them
+      if (!range || (range.min ?? 0) > MAX_STARS || (range.max ?? 0) > MAX_STARS) return false;
+      next.minStars = range.min ?? 0;
+      next.maxStars = range.max ?? MAX_STARS;
+      return true;
+    },
+  };
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const [token, negated, key, value] = match;
+    const handler = key ? handlers[key.toLowerCase()] : undefined;
+    if (!handler || negated || !handler(unquote(value))) rest.push(token);
+  }
+
+  next.query = rest.join(' ');
+  return next;
+};
+
+// --- LOCAL MATCHING ---
+
+const inRange = (value: number, range: NumberRange) =>
+  (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+
+const inDateRange = (date: string | undefined, range: DateRange) => {
+  if (!date) return true;
+  const day = date.slice(0, 10);
+  return (range.from === null || day >= range.from) && (range.to === null || day <= range.to);
+};
+
+/**
+ * Applies the qualifiers to repositories already on hand (the starred list). Good first issue
+ * counts are not part of a repository payload and are not checked. Starred forks were picked
+ * deliberately, so they are only narrowed down by `fork:only`.
+ */
+export const matchesQualifiers = (repo: GitHubRepo, qualifiers: SearchQualifiers): boolean => {
+  const topics = repo.topics || [];
+  if (!qualifiers.topics.every(topic => topics.includes(topic))) return false;
+  if (qualifiers.org && repo.owner.login.toLowerCase() !== qualifiers.org.toLowerCase()) return false;
+  if (!inDateRange(repo.created_at, qualifiers.created) || !inDateRange(repo.pushed_at, qualifiers.pushed)) return false;
+  if (!inRange(repo.forks_count, qualifiers.forks) || !inRange(repo.size, qualifiers.size)) return false;
+  if (qualifiers.archived !== null && repo.archived !== qualifiers.archived) return false;
+  if (qualifiers.template && !repo.is_template) return false;
+  if (qualifiers.fork === 'only' && !repo.fork) return false;
+  return true;
+};
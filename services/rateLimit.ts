@@ -0,0 +1,149 @@
+// Tracks the GitHub API quota from response headers. GitHub meters the search endpoints
+// separately from everything else ("core"), so each resource has its own window.
+// The state is an observable store (see `subscribeRateLimits`) for the header indicator.
+
+export type RateLimitResource = 'core' | 'search';
+
+export interface RateLimitQuota {
+  limit: number;
+  remaining: number;
+  reset: number; // Epoch milliseconds at which `remaining` goes back to `limit`
+  queued: number; // Requests currently held back until `reset`
+}
+
+export type RateLimitState = Record<RateLimitResource, RateLimitQuota | null>;
+
+let state: RateLimitState = { core: null, search: null };
+const listeners = new Set<() => void>();
+// Requests sent but not answered yet, so a burst cannot overdraw the remaining quota
+const inFlight: Record<RateLimitResource, number> = { core: 0, search: 0 };
+// Requests held back in `waitFor`, woken early when the quotas are reset
+const sleepers = new Set<() => void>();
+
+// Grace period after the announced reset, GitHub's clock and ours rarely agree to the second
+const RESET_GRACE_MS = 1000;
+
+const emit = () => listeners.forEach(listener => listener());
+
+const updateQuota = (resource: RateLimitResource, update: Partial<RateLimitQuota>) => {
+  const current = state[resource] || { limit: 0, remaining: 0, reset: 0, queued: 0 };
+  state = { ...state, [resource]: { ...current, ...update } };
+  emit();
+};
+
+export const subscribeRateLimits = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getRateLimits = (): RateLimitState => state;
+
+/**
+ * Forgets the recorded quotas, for when the token changes: anonymous and authenticated access
+ * are metered separately, so the old figures say nothing about the new ones. Requests held back
+ * by the old quota are let go to find out.
+ */
+export const resetRateLimits = () => {
+  state = { core: null, search: null };
+  sleepers.forEach(wake => wake());
+  emit();
+};
+
+export const getResourceForUrl = (url: string): RateLimitResource =>
+  url.includes('api.github.com/search/') ? 'search' : 'core';
+
+/** Records the quota announced in a response's `X-RateLimit-*` headers. */
+export const recordRateLimit = (headers: Headers | undefined, fallback: RateLimitResource) => {
+  const limit = headers?.get('x-ratelimit-limit');
+  const remaining = headers?.get('x-ratelimit-remaining');
+  const reset = headers?.get('x-ratelimit-reset');
+  if (limit === null || limit === undefined || remaining === null || remaining === undefined || !reset) return;
+
+  const resource = (headers?.get('x-ratelimit-resource') as RateLimitResource) || fallback;
+  if (resource !== 'core' && resource !== 'search') return;
+
+  updateQuota(resource, {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    reset: Number(reset) * 1000,
+  });
+};
+
+/** Records quotas from the `/rate_limit` endpoint body, which does not count against them. */
+export const recordRateLimitSnapshot = (resources: Record<string, { limit: number; remaining: number; reset: number }>) => {
+  (['core', 'search'] as RateLimitResource[]).forEach(resource => {
+    const quota = resources[resource];
+    if (quota) updateQuota(resource, { limit: quota.limit, remaining: quota.remaining, reset: quota.reset * 1000 });
+  });
+};
+
+/**
+ * Whether a response was refused because of the primary or a secondary rate limit
+ * (plain 403s, e.g. for missing permissions, are not).
+ */
+export const isRateLimitResponse = (response: Response): boolean => {
+  if (response.status === 429) return true;
+  if (response.status !== 403) return false;
+  return response.headers?.get('x-ratelimit-remaining') === '0' || !!response.headers?.get('retry-after');
+};
+
+/** Milliseconds to wait before retrying a rate limited response. */
+export const getRetryDelay = (response: Response, resource: RateLimitResource): number => {
+  const retryAfter = Number(response.headers?.get('retry-after'));
+  if (retryAfter > 0) return retryAfter * 1000;
+
+  const reset = state[resource]?.reset || 0;
+  if (reset > Date.now()) return reset - Date.now() + RESET_GRACE_MS;
+  // Secondary limits come without a hint: back off for a minute
+  return 60 * 1000;
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => {
+  const wake = () => {
+    clearTimeout(timer);
+    sleepers.delete(wake);
+    resolve();
+  };
+  const timer = setTimeout(wake, ms);
+  sleepers.add(wake);
+});
+
+/** Holds a request back for `ms` (or until `resetRateLimits`) while showing it as queued on the resource. */
+export const waitFor = async (resource: RateLimitResource, ms: number) => {
+  updateQuota(resource, { queued: (state[resource]?.queued || 0) + 1 });
+  try {
+    await sleep(ms);
+  } finally {
+    updateQuota(resource, { queued: Math.max((state[resource]?.queued || 1) - 1, 0) });
+  }
+};
+
+/**
+ * Resolves once a request on `resource` may be sent, waiting for the window to reset
+ * when the quota is used up. Pair every call with `releaseQuota`.
+ */
+export const acquireQuota = async (resource: RateLimitResource) => {
+  for (;;) {
+    const quota = state[resource];
+    const windowOpen = !quota || quota.reset <= Date.now();
+    if (windowOpen || quota.remaining - inFlight[resource] > 0) break;
+    await waitFor(resource, quota.reset - Date.now() + RESET_GRACE_MS);
+  }
+  inFlight[resource]++;
+};
+
+export const releaseQuota = (resource: RateLimitResource) => {
+  inFlight[resource] = Math.max(inFlight[resource] - 1, 0);
+};
+
+/** Human readable explanation for a request that stayed rate limited after retrying. */
+export const describeRateLimit = (resource: RateLimitResource): string => {
+  const label = resource === 'search' ? 'search' : 'API';
+  const reset = state[resource]?.reset;
+  if (!reset || reset <= Date.now()) return `GitHub ${label} rate limit exceeded. Try again in a moment.`;
+
+  const minutes = Math.ceil((reset - Date.now()) / 60000);
+  return `GitHub ${label} rate limit exceeded. Resets in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+};
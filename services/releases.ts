@@ -0,0 +1,57 @@
+import { GitHubRelease, GitHubRepo } from '../types';
+import { getLatestRelease } from './githubService';
+
+// Latest releases for repository cards, shared through one observable map keyed by full_name
+// so a card that scrolls out and back, or the detail view, reuses the answer.
+
+const RELEASE_CONCURRENCY = 3; // One request per repository
+
+export interface ReleaseEntry {
+  status: 'loading' | 'ready' | 'error';
+  release: GitHubRelease | null; // Null when ready means the repository has no release
+  error: string | null;
+}
+
+let entries: Record<string, ReleaseEntry> = {};
+const listeners = new Set<() => void>();
+const queue: GitHubRepo[] = [];
+let running = 0;
+
+const setEntry = (fullName: string, entry: ReleaseEntry) => {
+  entries = { ...entries, [fullName]: entry };
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeReleases = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getReleaseState = (): Record<string, ReleaseEntry> => entries;
+
+const drainQueue = () => {
+  while (running < RELEASE_CONCURRENCY && queue.length > 0) {
+    const repo = queue.shift() as GitHubRepo;
+    running++;
+    getLatestRelease(repo.owner.login, repo.name)
+      .then(release => setEntry(repo.full_name, { status: 'ready', release, error: null }))
+      .catch((error: any) => setEntry(repo.full_name, { status: 'error', release: null, error: error?.message || 'Could not read releases.' }))
+      .finally(() => {
+        running--;
+        drainQueue();
+      });
+  }
+};
+
+/** Queues a latest-release lookup for repositories not looked up yet. Failed ones are retried. */
+export const requestLatestRelease = (repos: GitHubRepo[]) => {
+  repos.forEach(repo => {
+    const entry = entries[repo.full_name];
+    if (entry && entry.status !== 'error') return;
+    setEntry(repo.full_name, { status: 'loading', release: null, error: null });
+    queue.push(repo);
+  });
+  drainQueue();
+};
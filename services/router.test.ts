@@ -0,0 +1,141 @@
+import { buildRoute, parseRoute, RouteState } from './router';
+import { SortOption, OrderOption } from '../types';
+import { DEFAULT_FILTERS, DEFAULT_ISSUE_FINDER, DEFAULT_QUALIFIERS } from '../constants';
+
+// Fix for missing type definitions for Jest globals
+declare const describe: any;
+declare const it: any;
+declare const expect: any;
+
+describe('router', () => {
+  const baseRoute: RouteState = {
+    view: 'search',
+    filters: DEFAULT_FILTERS,
+    page: 1,
+    user: null,
+    repo: null,
+    collection: null,
+    compare: [],
+    issueFinder: DEFAULT_ISSUE_FINDER,
+  };
+
+  it('should return null for a hash with a malformed escape', () => {
+    expect(parseRoute('#/user/%E0')).toBeNull();
+    expect(parseRoute('#/repo/acme/%')).toBeNull();
+  });
+
+  it('should return null for an empty hash', () => {
+    expect(parseRoute('')).toBeNull();
+    expect(parseRoute('#/')).toBeNull();
+  });
+
+  it('should omit default filters from the hash', () => {
+    expect(buildRoute(baseRoute)).toBe('#/search');
+  });
+
+  it('should round-trip the full filter state and page', () => {
+    const route: RouteState = {
+      ...baseRoute,
+      filters: {
+        query: 'state management',
+        language: ['Rust', 'C++'],
+        languageMode: 'or',
+        license: 'mit',
+        sort: SortOption.FORKS,
+        order: OrderOption.ASC,
+        minStars: 100,
+        maxStars: 5000,
+        minHealth: 60,
+        trendingSince: 'monthly',
+        qualifiers: {
+          topics: ['cli', 'terminal ui'],
+          org: 'acme',
+          searchIn: ['name', 'readme'],
+          created: { from: '2020-01-01', to: null },
+          pushed: { from: '2024-01-01', to: '2024-06-30' },
+          forks: { min: 10, max: 500 },
+          size: { min: null, max: 1000 },
+          goodFirstIssues: 3,
+          archived: false,
+          template: true,
+          fork: 'only',
+        },
+      },
+      page: 3,
+    };
+
+    expect(parseRoute(buildRoute(route))).toEqual(route);
+  });
+
+  it('should read qualifiers typed into the query into the filters', () => {
+    const route = parseRoute('#/search?q=' + encodeURIComponent('parser topic:rust language:go stars:>=100 -topic:wasm'));
+
+    expect(route?.filters).toEqual({
+      ...DEFAULT_FILTERS,
+      query: 'parser -topic:wasm',
+      language: ['Go'],
+      minStars: 100,
+      qualifiers: { ...DEFAULT_QUALIFIERS, topics: ['rust'] },
+    });
+  });
+
+  it('should round-trip user views', () => {
+    const route: RouteState = { ...baseRoute, view: 'user', user: 'octocat' };
+    expect(buildRoute(route)).toBe('#/user/octocat');
+    expect(parseRoute('#/user/octocat')).toEqual(route);
+  });
+
+  it('should round-trip the starred view with its filters', () => {
+    const route: RouteState = { ...baseRoute, view: 'stars', filters: { ...DEFAULT_FILTERS, language: ['Go'] } };
+    expect(buildRoute(route)).toBe('#/stars?lang=Go');
+    expect(parseRoute('#/stars?lang=Go')).toEqual(route);
+  });
+
+  it('should round-trip collection views', () => {
+    const route: RouteState = { ...baseRoute, view: 'collections', collection: 'lw2x1k-8f3a9c' };
+    expect(buildRoute(route)).toBe('#/collections/lw2x1k-8f3a9c');
+    expect(parseRoute('#/collections/lw2x1k-8f3a9c')).toEqual(route);
+    expect(parseRoute('#/collections')?.collection).toBeNull();
+  });
+
+  it('should round-trip comparisons and cap them at four repositories', () => {
+    const route: RouteState = {
+      ...baseRoute,
+      view: 'compare',
+      compare: [{ owner: 'facebook', name: 'react' }, { owner: 'vuejs', name: 'core' }],
+    };
+    expect(parseRoute(buildRoute(route))).toEqual(route);
+    expect(parseRoute('#/compare?repos=a/1,b/2,c/3,d/4,e/5,broken')?.compare).toHaveLength(4);
+  });
+
+  it('should round-trip the issue finder with its filters', () => {
+    const route: RouteState = {
+      ...baseRoute,
+      view: 'issues',
+      filters: { ...DEFAULT_FILTERS, language: ['Rust'], minStars: 100, maxStars: 5000 },
+      issueFinder: { labels: 'help-wanted', unassigned: false, updatedWithin: 30, maxComments: 0 },
+    };
+    const hash = buildRoute(route);
+    expect(hash).toBe('#/issues?lang=Rust&stars=100..5000&label=help-wanted&assigned=any&updated=30&comments=0');
+    expect(parseRoute(hash)).toEqual(route);
+  });
+
+  it('should round-trip repository views', () => {
+    const route = parseRoute('#/repo/facebook/react');
+    expect(route?.view).toBe('repo');
+    expect(route?.repo).toEqual({ owner: 'facebook', name: 'react' });
+    expect(buildRoute(route!)).toBe('#/repo/facebook/react');
+  });
+
+  it('should ignore invalid values', () => {
+    const route = parseRoute('#/search?sort=bogus&page=-4&stars=abc');
+    expect(route?.filters.sort).toBe(DEFAULT_FILTERS.sort);
+    expect(route?.page).toBe(1);
+    expect(route?.filters.minStars).toBe(0);
+  });
+
+  it('should reject unknown sections', () => {
+    expect(parseRoute('#/nowhere')).toBeNull();
+    expect(parseRoute('#/user')).toBeNull();
+  });
+});
@@ -0,0 +1,245 @@
+import { FilterState, IssueFinderFilters, OrderOption, SortOption, TrendingSince, ViewMode } from '../types';
+import { DEFAULT_FILTERS, DEFAULT_ISSUE_FINDER, MAX_STARS } from '../constants';
+import { applySearchText, composeQuery } from './query';
+
+// Hash based routing so deep links keep working under the static `/open-lens/` base,
+// where the server cannot rewrite unknown paths back to index.html.
+//
+//   #/search?q=react&lang=Rust,Go&langmode=or&license=mit&sort=forks&order=asc&stars=100..5000&health=60&page=2
+//   #/search?sort=trending&since=weekly&lang=Rust
+//   #/search?q=cli+topic:rust+pushed:>=2024-01-01   (structured qualifiers travel inside q)
+//   #/user/torvalds?sort=updated
+//   #/stars?lang=Go
+//   #/issues?lang=Rust&stars=100..5000&label=help-wanted&assigned=any&updated=30&comments=3
+//   #/collections/lw2x1k-8f3a9c
+//   #/compare?repos=facebook/react,vuejs/core
+//   #/repo/facebook/react
+//   #/about
+
+export interface RepoRef {
+  owner: string;
+  name: string;
+}
+
+export interface RouteState {
+  view: ViewMode;
+  filters: FilterState;
+  page: number;
+  user: string | null;
+  repo: RepoRef | null;
+  collection: string | null;
+  compare: RepoRef[];
+  issueFinder: IssueFinderFilters;
+}
+
+const MAX_COMPARED_REPOS = 4;
+
+const isSortOption = (value: string): value is SortOption =>
+  (Object.values(SortOption) as string[]).includes(value);
+
+const parseStarRange = (value: string | null): { minStars: number; maxStars: number } => {
+  const range = { minStars: DEFAULT_FILTERS.minStars, maxStars: DEFAULT_FILTERS.maxStars };
+  if (!value) return range;
+
+  const [min, max] = value.split('..');
+  const parsedMin = parseInt(min, 10);
+  const parsedMax = parseInt(max, 10);
+  if (!isNaN(parsedMin) && parsedMin >= 0) range.minStars = parsedMin;
+  if (!isNaN(parsedMax) && parsedMax > range.minStars) range.maxStars = Math.min(parsedMax, MAX_STARS);
+  return range;
+};
+
+const parseHealthFloor = (value: string | null): number => {
+  const parsed = parseInt(value || '', 10);
+  return isNaN(parsed) ? DEFAULT_FILTERS.minHealth : Math.min(Math.max(parsed, 0), 100);
+};
+
+const TRENDING_WINDOWS: TrendingSince[] = ['daily', 'weekly', 'monthly'];
+
+const parseTrendingSince = (value: string | null): TrendingSince =>
+  TRENDING_WINDOWS.includes(value as TrendingSince) ? value as TrendingSince : DEFAULT_FILTERS.trendingSince;
+
+const parseFilters = (params: URLSearchParams): FilterState => {
+  const sort = params.get('sort') || '';
+  const order = params.get('order');
+  const languages = params.get('lang');
+
+  const filters: FilterState = {
+    ...DEFAULT_FILTERS,
+    language: languages ? languages.split(',').filter(Boolean) : [],
+    languageMode: params.get('langmode') === 'or' ? 'or' : DEFAULT_FILTERS.languageMode,
+    license: params.get('license') || DEFAULT_FILTERS.license,
+    sort: isSortOption(sort) ? sort : DEFAULT_FILTERS.sort,
+    order: order === OrderOption.ASC ? OrderOption.ASC : OrderOption.DESC,
+    ...parseStarRange(params.get('stars')),
+    minHealth: parseHealthFloor(params.get('health')),
+    trendingSince: parseTrendingSince(params.get('since')),
+  };
+  return applySearchText(filters, params.get('q') || '');
+};
+
+const serializeFilters = (filters: FilterState, params: URLSearchParams) => {
+  const query = composeQuery(filters);
+  if (query) params.set('q', query);
+  if (filters.language.length > 0) params.set('lang', filters.language.join(','));
+  if (filters.languageMode !== DEFAULT_FILTERS.languageMode) params.set('langmode', filters.languageMode);
+  if (filters.license && filters.license !== DEFAULT_FILTERS.license) params.set('license', filters.license);
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set('sort', filters.sort);
+  if (filters.order !== DEFAULT_FILTERS.order) params.set('order', filters.order);
+  if (filters.minStars > 0 || filters.maxStars < MAX_STARS) {
+    params.set('stars', `${filters.minStars}..${filters.maxStars}`);
+  }
+  if (filters.minHealth > 0) params.set('health', filters.minHealth.toString());
+  if (filters.trendingSince !== DEFAULT_FILTERS.trendingSince) params.set('since', filters.trendingSince);
+};
+
+const ISSUE_LABEL_MODES: IssueFinderFilters['labels'][] = ['good-first-issue', 'help-wanted', 'both'];
+
+const parseIssueFinder = (params: URLSearchParams): IssueFinderFilters => {
+  const label = params.get('label') as IssueFinderFilters['labels'];
+  const updated = parseInt(params.get('updated') || '', 10);
+  const comments = parseInt(params.get('comments') || '', 10);
+
+  return {
+    labels: ISSUE_LABEL_MODES.includes(label) ? label : DEFAULT_ISSUE_FINDER.labels,
+    unassigned: params.get('assigned') !== 'any',
+    updatedWithin: updated > 0 ? updated : DEFAULT_ISSUE_FINDER.updatedWithin,
+    maxComments: comments >= 0 ? comments : DEFAULT_ISSUE_FINDER.maxComments,
+  };
+};
+
+const serializeIssueFinder = (finder: IssueFinderFilters, params: URLSearchParams) => {
+  if (finder.labels !== DEFAULT_ISSUE_FINDER.labels) params.set('label', finder.labels);
+  if (!finder.unassigned) params.set('assigned', 'any');
+  if (finder.updatedWithin > 0) params.set('updated', finder.updatedWithin.toString());
+  if (finder.maxComments !== null) params.set('comments', finder.maxComments.toString());
+};
+
+const parseRepoList = (value: string | null): RepoRef[] =>
+  (value || '').split(',')
+    .map(entry => entry.split('/'))
+    .filter(parts => parts.length === 2 && parts[0] && parts[1])
+    .map(([owner, name]) => ({ owner, name }))
+    .slice(0, MAX_COMPARED_REPOS);
+
+/**
+ * Parses a location hash into a route. Returns null when the hash is empty or unknown,
+ * so callers can fall back to their persisted state.
+ */
+export const parseRoute = (hash: string): RouteState | null => {
+  const raw = hash.replace(/^#\/?/, '');
+  if (!raw) return null;
+
+  const [path, search = ''] = raw.split('?');
+  let parts: string[];
+  try {
+    parts = path.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // A malformed escape such as `%E0` is as unknown as any other bad link
+    return null;
+  }
+  const [section, ...segments] = parts;
+  const params = new URLSearchParams(search);
+
+  const route: RouteState = {
+    view: 'search',
+    filters: parseFilters(params),
+    page: Math.max(1, parseInt(params.get('page') || '1', 10) || 1),
+    user: null,
+    repo: null,
+    collection: null,
+    compare: [],
+    issueFinder: parseIssueFinder(params),
+  };
+
+  switch (section) {
+    case 'search':
+      return route;
+    case 'stars':
+      return { ...route, view: 'stars' };
+    case 'issues':
+      return { ...route, view: 'issues', page: 1 };
+    case 'about':
+      return { ...route, view: 'about' };
+    case 'collections':
+      return { ...route, view: 'collections', collection: segments[0] || null };
+    case 'compare':
+      return { ...route, view: 'compare', compare: parseRepoList(params.get('repos')) };
+    case 'user':
+      if (!segments[0]) return null;
+      return { ...route, view: 'user', user: segments[0] };
+    case 'repo':
+      if (!segments[0] || !segments[1]) return null;
+      return { ...route, view: 'repo', repo: { owner: segments[0], name: segments[1] } };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Builds the hash for a route. Filters and page are only written for views that list repositories.
+ */
+export const buildRoute = (route: RouteState): string => {
+  switch (route.view) {
+    case 'landing':
+      return '';
+    case 'about':
+      return '#/about';
+    case 'collections':
+      return route.collection ? `#/collections/${encodeURIComponent(route.collection)}` : '#/collections';
+    case 'compare': {
+      const repos = route.compare.map(repo => `${repo.owner}/${repo.name}`).join(',');
+      return repos ? `#/compare?${new URLSearchParams({ repos }).toString()}` : '#/compare';
+    }
+    case 'repo':
+      return route.repo ? buildRepoHash(route.repo) : '#/search';
+    case 'issues': {
+      const params = new URLSearchParams();
+      serializeFilters(route.filters, params);
+      serializeIssueFinder(route.issueFinder, params);
+      const query = params.toString();
+      return query ? `#/issues?${query}` : '#/issues';
+    }
+    default: {
+      const params = new URLSearchParams();
+      serializeFilters(route.filters, params);
+      if (route.page > 1) params.set('page', route.page.toString());
+
+      const path = route.view === 'user' && route.user
+        ? `#/user/${encodeURIComponent(route.user)}`
+        : route.view === 'stars' ? '#/stars' : '#/search';
+      const query = params.toString();
+      return query ? `${path}?${query}` : path;
+    }
+  }
+};
+
+/** Whether the route describes a repository grid (and therefore carries filters and page). */
+export const isListRoute = (route: RouteState): boolean =>
+  route.view === 'search' || route.view === 'user' || route.view === 'stars';
+
+/** Whether the route carries search filters: the repository grids, plus the issue finder that reuses them. */
+export const carriesFilters = (route: RouteState): boolean =>
+  isListRoute(route) || route.view === 'issues';
+
+export const buildRepoHash = (repo: RepoRef): string =>
+  `#/repo/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}`;
+
+export const getCurrentRoute = (): RouteState | null => parseRoute(window.location.hash);
+
+/**
+ * Writes the route to the address bar. `replace` is used for changes that should not
+ * create their own back-button step (e.g. loading more pages).
+ */
+export const navigate = (route: RouteState, replace = false) => {
+  const hash = buildRoute(route);
+  if (hash === window.location.hash) return;
+
+  // An empty hash would leave a dangling '#', so drop it from the URL entirely
+  const url = hash || window.location.pathname + window.location.search;
+  if (replace) {
+    window.history.replaceState(null, '', url);
+  } else {
+    window.history.pushState(null, '', url);
+  }
+};
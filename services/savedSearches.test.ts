@@ -0,0 +1,47 @@
+import { checkSavedSearches, countUnseen, getSavedSearchesState, markSavedSearchSeen, saveSearch } from './savedSearches';
+import { searchRepositories } from './githubService';
+import { DEFAULT_FILTERS } from '../constants';
+
+// Fix for missing type definitions for Jest globals
+declare const jest: any;
+declare const describe: any;
+declare const it: any;
+declare const expect: any;
+
+jest.mock('./githubService', () => ({
+  searchRepositories: jest.fn(),
+}));
+
+const page = (...ids: number[]) => ({ total_count: ids.length, incomplete_results: false, items: ids.map(id => ({ id })) });
+
+describe('saved searches', () => {
+  it('should flag repositories the previous run had not seen', async () => {
+    (searchRepositories as any).mockResolvedValueOnce(page(1, 2)).mockResolvedValueOnce(page(2, 3, 4));
+
+    const saved = await saveSearch(' Rust CLIs ', { ...DEFAULT_FILTERS, query: 'cli', language: ['Rust'] });
+    // The first run only records what is there
+    expect(getSavedSearchesState().searches[0].newIds).toEqual([]);
+
+    await checkSavedSearches();
+
+    const [search] = getSavedSearchesState().searches;
+    expect(search.name).toBe('Rust CLIs');
+    expect(search.id).toBe(saved.id);
+    // Checking does not count as seeing them, and asks GitHub rather than the cache
+    expect(search.seenIds).toEqual([1, 2]);
+    expect(search.newIds).toEqual([3, 4]);
+    expect((searchRepositories as any).mock.calls[1][3]).toEqual({ bypassCache: true });
+    expect(JSON.parse(localStorage.getItem('openlens_saved_searches') || '[]')[0].newIds).toEqual([3, 4]);
+  });
+
+  it('should count new repositories as seen once the search is opened', () => {
+    const [search] = getSavedSearchesState().searches;
+    markSavedSearchSeen(search.id);
+
+    const [opened] = getSavedSearchesState().searches;
+    expect(opened.seenIds).toEqual([1, 2, 3, 4]);
+    // Cards stay flagged for this visit, the counter clears
+    expect(opened.newIds).toEqual([3, 4]);
+    expect(countUnseen(opened)).toBe(0);
+  });
+});
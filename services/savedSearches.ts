@@ -0,0 +1,144 @@
+import { FilterState, SavedSearch } from '../types';
+import { DEFAULT_FILTERS, DEFAULT_QUALIFIERS } from '../constants';
+import { searchRepositories } from './githubService';
+
+// Named searches that keep the whole filter state. Each one remembers the repositories the user
+// has seen on its first page. Opening the app asks GitHub again, past the cache, and flags the
+// ones not seen yet, which cards show as new since the last visit. Opening the search marks them
+// seen: its counter clears, while the cards keep their flag until the next visit's check. Kept
+// in localStorage like the filters themselves, and observable like the collections store.
+
+const STORAGE_KEY = 'openlens_saved_searches';
+const MAX_SEEN_IDS = 300; // Most recent first-page results remembered per search
+
+export interface SavedSearchesState {
+  searches: SavedSearch[]; // Oldest first, the order they were saved in
+  checking: boolean;
+}
+
+// Filters saved by older versions lack the fields added since
+const withDefaults = (filters: Partial<FilterState>): FilterState => ({
+  ...DEFAULT_FILTERS,
+  ...filters,
+  qualifiers: { ...DEFAULT_QUALIFIERS, ...filters.qualifiers },
+});
+
+const loadSearches = (): SavedSearch[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.map((search: SavedSearch) => ({ ...search, filters: withDefaults(search.filters) })) : [];
+  } catch (e) {
+    console.warn('Failed to parse saved searches', e);
+    return [];
+  }
+};
+
+let state: SavedSearchesState = { searches: loadSearches(), checking: false };
+let checked = false;
+const listeners = new Set<() => void>();
+
+const setState = (update: Partial<SavedSearchesState>) => {
+  state = { ...state, ...update };
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeSavedSearches = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getSavedSearchesState = (): SavedSearchesState => state;
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const updateSearches = (searches: SavedSearch[]) => {
+  setState({ searches });
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(searches));
+};
+
+const updateSearch = (id: string, update: (search: SavedSearch) => Partial<SavedSearch>) =>
+  updateSearches(state.searches.map(search => search.id === id ? { ...search, ...update(search) } : search));
+
+/**
+ * Runs a saved search and flags first-page repositories the user has not seen, keeping earlier
+ * flags until they are seen. The first run only sets the baseline.
+ */
+const runSearch = async (id: string) => {
+  const search = state.searches.find(entry => entry.id === id);
+  if (!search) return;
+
+  const response = await searchRepositories(search.filters, 1, undefined, { bypassCache: true });
+  const ids = response.items.map(repo => repo.id);
+  if (!search.lastRunAt) {
+    updateSearch(id, () => ({ lastRunAt: new Date().toISOString(), seenIds: ids, newIds: [] }));
+    return;
+  }
+
+  updateSearch(id, current => {
+    const seen = new Set(current.seenIds);
+    return {
+      lastRunAt: new Date().toISOString(),
+      newIds: [...new Set([...current.newIds, ...ids])].filter(repoId => !seen.has(repoId)),
+    };
+  });
+};
+
+export const saveSearch = async (name: string, filters: FilterState): Promise<SavedSearch> => {
+  const search: SavedSearch = {
+    id: createId(),
+    name: name.trim(),
+    filters,
+    pinned: false,
+    createdAt: new Date().toISOString(),
+    lastRunAt: null,
+    seenIds: [],
+    newIds: [],
+  };
+  updateSearches([...state.searches, search]);
+
+  try {
+    await runSearch(search.id);
+  } catch (error) {
+    // Without a baseline the next check does it instead
+    console.warn('Could not run the saved search', error);
+  }
+  return search;
+};
+
+export const deleteSavedSearch = (id: string) =>
+  updateSearches(state.searches.filter(search => search.id !== id));
+
+export const togglePinned = (id: string) =>
+  updateSearch(id, search => ({ pinned: !search.pinned }));
+
+/** Called when the user opens a saved search: what was flagged as new now counts as seen. */
+export const markSavedSearchSeen = (id: string) =>
+  updateSearch(id, search => ({
+    seenIds: [...search.seenIds.filter(repoId => !search.newIds.includes(repoId)), ...search.newIds].slice(-MAX_SEEN_IDS),
+  }));
+
+/** How many flagged repositories the user has not opened the search to see yet. */
+export const countUnseen = (search: SavedSearch): number =>
+  search.newIds.filter(repoId => !search.seenIds.includes(repoId)).length;
+
+/** Looks for new results of every saved search, once per visit. Searches run one at a time. */
+export const checkSavedSearches = async () => {
+  if (checked || state.searches.length === 0) return;
+  checked = true;
+  setState({ checking: true });
+
+  for (const search of state.searches) {
+    try {
+      await runSearch(search.id);
+    } catch (error) {
+      console.warn(`Could not check saved search "${search.name}"`, error);
+    }
+  }
+  setState({ checking: false });
+};
+
+/** The saved search a repository turned up in since the last visit, if any. */
+export const findNewIn = (searches: SavedSearch[], repoId: number): SavedSearch | null =>
+  searches.find(search => search.newIds.includes(repoId)) || null;
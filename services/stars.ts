@@ -0,0 +1,130 @@
+import { FilterState, GitHubRepo, OrderOption, SortOption } from '../types';
+import { MAX_STARS } from '../constants';
+import { getStarredPage, setRepoStarred } from './githubService';
+import { matchesQualifiers } from './query';
+
+// The signed-in user's starred repositories. Star buttons and the "My Stars" view all read
+// this one store, so a toggle shows up everywhere at once, before GitHub has confirmed it.
+
+const STARRED_PAGE_SIZE = 100;
+const MAX_STARRED_PAGES = 30; // 3000 stars is plenty for a personal collection
+
+export interface StarsState {
+  status: 'signed-out' | 'loading' | 'ready' | 'error';
+  repos: GitHubRepo[]; // Most recently starred first
+  names: Set<string>; // full_name of every entry in `repos`, for quick lookups
+  error: string | null;
+}
+
+let state: StarsState = { status: 'signed-out', repos: [], names: new Set(), error: null };
+const listeners = new Set<() => void>();
+// Bumped on every (re)load and sign-out, so a superseded load stops publishing pages
+let loadGeneration = 0;
+// Toggles made while a load is running win over the pages it fetches afterwards
+const pendingToggles = new Map<string, boolean>();
+
+const setState = (update: Partial<StarsState>) => {
+  const repos = update.repos || state.repos;
+  state = { ...state, ...update, names: new Set(repos.map(repo => repo.full_name)) };
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeStars = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getStarsState = (): StarsState => state;
+
+/** Pages through everything the signed-in user has starred, publishing each page as it arrives. */
+export const loadStarredRepos = async () => {
+  const generation = ++loadGeneration;
+  pendingToggles.clear();
+  setState({ status: 'loading', repos: [], error: null });
+
+  try {
+    for (let page = 1; page <= MAX_STARRED_PAGES; page++) {
+      const items = await getStarredPage(page, STARRED_PAGE_SIZE);
+      if (generation !== loadGeneration) return;
+
+      const fresh = items.filter(repo => !state.names.has(repo.full_name) && pendingToggles.get(repo.full_name) !== false);
+      setState({ repos: [...state.repos, ...fresh] });
+      if (items.length < STARRED_PAGE_SIZE) break;
+    }
+    setState({ status: 'ready' });
+  } catch (error: any) {
+    if (generation !== loadGeneration) return;
+    setState({ status: 'error', error: error.message || 'Failed to load starred repositories.' });
+  }
+};
+
+export const resetStars = () => {
+  loadGeneration++;
+  pendingToggles.clear();
+  setState({ status: 'signed-out', repos: [], error: null });
+};
+
+const applyStar = (repo: GitHubRepo, starred: boolean) => {
+  const others = state.repos.filter(entry => entry.full_name !== repo.full_name);
+  setState({ repos: starred ? [repo, ...others] : others });
+};
+
+/** Stars or unstars `repo` right away and rolls the change back if GitHub refuses it. */
+export const toggleStar = async (repo: GitHubRepo) => {
+  const starred = !state.names.has(repo.full_name);
+  applyStar(repo, starred);
+  if (state.status === 'loading') pendingToggles.set(repo.full_name, starred);
+
+  try {
+    await setRepoStarred(repo.owner.login, repo.name, starred);
+  } catch (error) {
+    applyStar(repo, !starred);
+    pendingToggles.delete(repo.full_name);
+    throw error;
+  }
+};
+
+const getSortValue = (repo: GitHubRepo, sort: SortOption): number => {
+  switch (sort) {
+    case SortOption.FORKS:
+      return repo.forks_count;
+    case SortOption.UPDATED:
+      return new Date(repo.pushed_at || repo.updated_at).getTime();
+    default:
+      return repo.stargazers_count;
+  }
+};
+
+/**
+ * Applies the FilterPanel filters to starred repositories locally. Trending keeps the
+ * order in which they were starred; selected languages match a repo's primary language.
+ */
+export const filterStarredRepos = (repos: GitHubRepo[], filters: FilterState): GitHubRepo[] => {
+  const query = filters.query.trim().toLowerCase();
+  const languages = filters.language.filter(lang => lang !== 'All');
+
+  const matches = repos.filter(repo => {
+    if (query) {
+      // `in:` narrows the fields searched; a README is not on hand, so it matches nothing here
+      const fields = filters.qualifiers.searchIn;
+      const haystack = fields.length === 0
+        ? [repo.full_name, repo.description || '', ...(repo.topics || [])]
+        : [fields.includes('name') ? repo.full_name : '', fields.includes('description') ? repo.description || '' : ''];
+      if (!haystack.join(' ').toLowerCase().includes(query)) return false;
+    }
+    if (languages.length > 0 && (!repo.language || !languages.includes(repo.language))) return false;
+    if (filters.license && filters.license !== 'All' && repo.license?.key !== filters.license) return false;
+    if (repo.stargazers_count < filters.minStars) return false;
+    if (filters.maxStars < MAX_STARS && repo.stargazers_count > filters.maxStars) return false;
+    return matchesQualifiers(repo, filters.qualifiers);
+  });
+
+  if (filters.sort === SortOption.TRENDING) {
+    return filters.order === OrderOption.ASC ? matches.reverse() : matches;
+  }
+
+  const direction = filters.order === OrderOption.ASC ? 1 : -1;
+  return matches.sort((a, b) => (getSortValue(a, filters.sort) - getSortValue(b, filters.sort)) * direction);
+};
@@ -0,0 +1,38 @@
+import { TrendingSource } from './trending';
+
+// Fix for missing type definitions for Jest globals
+declare const jest: any;
+declare const describe: any;
+declare const it: any;
+declare const expect: any;
+declare const global: any;
+
+global.fetch = jest.fn();
+
+describe('trending source', () => {
+  it('should read from TRENDING_URL when it is set and skip items it cannot name', async () => {
+    process.env.TRENDING_URL = 'http://localhost:4000/trending';
+    let source: TrendingSource | null = null;
+    jest.isolateModules(() => {
+      source = require('./trending').getTrendingSource();
+    });
+    delete process.env.TRENDING_URL;
+
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => [
+        { author: 'acme', name: 'lib', currentPeriodStars: 40 },
+        null,
+        { url: 'https://github.com/octo/cli' },
+        { name: 5 },
+      ],
+    });
+    const entries = await source!.fetchTrending('weekly', 'Rust');
+
+    expect((global.fetch as any).mock.calls[0][0]).toBe('http://localhost:4000/trending?since=weekly&language=Rust');
+    expect(entries).toEqual([
+      { fullName: 'acme/lib', periodStars: 40 },
+      { fullName: 'octo/cli', periodStars: null },
+    ]);
+  });
+});
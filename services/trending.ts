@@ -0,0 +1,71 @@
+import { TrendingSince } from '../types';
+
+// Where trending repositories come from. github.com/trending has no API, so the default source is
+// an open scraper proxy. Setting TRENDING_URL when building (see vite.config.ts) points the app
+// at another instance, a local stand-in included: anything that answers
+// `GET <url>?since=daily|weekly|monthly[&language=NAME]` with the proxy's JSON will do.
+//
+// A source only has to name the repositories, in trending order. Everything else about them is
+// looked up on GitHub (see fetchTrending in githubService.ts).
+
+const DEFAULT_TRENDING_URL = 'https://github-trending-api-seven.vercel.app/repositories';
+
+export interface TrendingEntry {
+  fullName: string; // owner/name
+  periodStars: number | null; // Stars gained within the window, when the source reports them
+}
+
+export interface TrendingSource {
+  id: string;
+  fetchTrending: (since: TrendingSince, language?: string) => Promise<TrendingEntry[]>;
+}
+
+// One repository as the proxy lists it. Stand-ins may leave out any of it.
+interface TrendingProxyItem {
+  author?: unknown;
+  name?: unknown;
+  url?: unknown;
+  currentPeriodStars?: unknown;
+}
+
+// The proxy's items carry `author` and `name`; `url` is a fallback for stand-ins that only link
+const getFullName = (item: TrendingProxyItem): string | null => {
+  if (typeof item.author === 'string' && typeof item.name === 'string' && item.author && item.name) {
+    return `${item.author}/${item.name}`;
+  }
+  const match = typeof item.url === 'string' ? item.url.match(/github\.com\/([^/]+\/[^/?#]+)/) : null;
+  return match ? match[1] : null;
+};
+
+const toTrendingEntry = (item: unknown): TrendingEntry[] => {
+  if (!item || typeof item !== 'object') return [];
+  const proxyItem = item as TrendingProxyItem;
+  const fullName = getFullName(proxyItem);
+  if (!fullName) return [];
+  return [{ fullName, periodStars: typeof proxyItem.currentPeriodStars === 'number' ? proxyItem.currentPeriodStars : null }];
+};
+
+export const createProxyTrendingSource = (baseUrl: string): TrendingSource => ({
+  id: baseUrl,
+  fetchTrending: async (since, language) => {
+    const params = new URLSearchParams({ since });
+    if (language && language !== 'All') params.set('language', language);
+
+    // A scraper outside GitHub: no auth headers and no share of the API quota
+    const response = await fetch(`${baseUrl}?${params.toString()}`);
+    if (!response.ok) throw new Error(`Trending source error: ${response.status}`);
+    const data: unknown = await response.json();
+    if (!Array.isArray(data)) throw new Error('Trending source returned an unexpected payload');
+
+    return data.flatMap(toTrendingEntry);
+  },
+});
+
+let trendingSource: TrendingSource = createProxyTrendingSource(process.env.TRENDING_URL || DEFAULT_TRENDING_URL);
+
+export const getTrendingSource = () => trendingSource;
+
+/** Swaps where trending lists are read from, e.g. for a source that is not proxy shaped. */
+export const setTrendingSource = (source: TrendingSource) => {
+  trendingSource = source;
+};
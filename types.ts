@@ -43,6 +43,10 @@ export interface GitHubRepo {
   open_issues_count: number;
   has_issues: boolean;
   archived: boolean;
+  default_branch?: string;
+  created_at?: string;
+  fork?: boolean;
+  is_template?: boolean;
 }
 
 export interface GitHubLabel {
@@ -69,17 +73,43 @@ export interface GitHubIssue {
   assignees: GitHubUser[];
   // Augmented field for UI context when aggregated
   repository?: GitHubRepo; 
-  reactions?: {
-    total_count: number;
-    '+1': number;
-    '-1': number;
-    'laugh': number;
-    'hooray': number;
-    'confused': number;
-    'heart': number;
-    'rocket': number;
-    'eyes': number;
-  };
+  reactions?: GitHubReactions;
+}
+
+export interface GitHubReactions {
+  total_count: number;
+  '+1': number;
+  '-1': number;
+  'laugh': number;
+  'hooray': number;
+  'confused': number;
+  'heart': number;
+  'rocket': number;
+  'eyes': number;
+}
+
+export interface GitHubComment {
+  id: number;
+  user: GitHubUser | null; // null for deleted accounts
+  created_at: string;
+  html_url: string;
+  body_html?: string; // Rendered by GitHub when requested with the HTML media type
+  author_association: string;
+  reactions?: GitHubReactions;
+}
+
+export interface CommentPage {
+  comments: GitHubComment[];
+  nextPage: number | null;
+}
+
+// A pull request that mentions an issue, read from the issue timeline
+export interface LinkedPullRequest {
+  number: number;
+  title: string;
+  html_url: string;
+  state: 'open' | 'closed' | 'merged';
+  repository: string; // full_name, which may differ from the issue's own repository
 }
 
 export interface SearchResponse {
@@ -87,6 +117,8 @@ export interface SearchResponse {
   incomplete_results: boolean;
   items: GitHubRepo[];
   warning?: string;
+  stale?: boolean; // Served from an expired cache entry while a background refresh runs
+  fetchedAt?: number; // Epoch milliseconds at which GitHub produced this data
 }
 
 export enum SortOption {
@@ -94,8 +126,11 @@ export enum SortOption {
   STARS = 'stars',
   FORKS = 'forks',
   UPDATED = 'updated',
+  HEALTH = 'health', // Sorted locally by health score, fetched by stars
 }
 
+export type TrendingSince = 'daily' | 'weekly' | 'monthly';
+
 export enum OrderOption {
   DESC = 'desc',
   ASC = 'asc',
@@ -104,15 +139,300 @@ export enum OrderOption {
 export interface FilterState {
   query: string;
   language: string[];
+  languageMode: LanguageMode;
   license: string;
   sort: SortOption;
   order: OrderOption;
   minStars: number;
   maxStars: number;
+  minHealth: number; // Health score floor (0-100), applied locally; 0 disables it
+  trendingSince: TrendingSince; // Window of the trending sort
+  qualifiers: SearchQualifiers;
+}
+
+// How several selected languages combine: 'and' is a keyword match on repositories mentioning
+// every one of them, 'or' matches repositories whose primary language is any of them. A single
+// language always filters on the primary language.
+export type LanguageMode = 'and' | 'or';
+
+export interface NumberRange {
+  min: number | null;
+  max: number | null;
+}
+
+export interface DateRange {
+  from: string | null; // YYYY-MM-DD, inclusive
+  to: string | null;
+}
+
+export type SearchInField = 'name' | 'description' | 'readme';
+
+export type ForkMode = 'exclude' | 'include' | 'only'; // GitHub leaves forks out unless asked
+
+// Repository search qualifiers beyond language, license and stars (see services/query.ts)
+export interface SearchQualifiers {
+  topics: string[];
+  org: string;
+  searchIn: SearchInField[]; // Empty searches GitHub's default fields
+  created: DateRange;
+  pushed: DateRange;
+  forks: NumberRange;
+  size: NumberRange; // Kilobytes
+  goodFirstIssues: number | null; // More than this many open "good first issue" issues
+  archived: boolean | null; // Null includes both
+  template: boolean;
+  fork: ForkMode;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: FilterState;
+  pinned: boolean; // Shown as a preset at the top of the filter panel
+  createdAt: string;
+  lastRunAt: string | null; // When it last looked for new results
+  seenIds: number[]; // First-page repositories the user has seen, as of the last time they opened it
+  newIds: number[]; // First-page repositories found since the last visit; flagged on cards until the next check
+}
+
+export type ViewMode = 'landing' | 'search' | 'user' | 'stars' | 'issues' | 'collections' | 'compare' | 'about' | 'repo';
+
+export interface CollectionItem {
+  repo: GitHubRepo; // Snapshot taken when the repository was added
+  note: string;
+  tags: string[];
+  addedAt: string;
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  items: CollectionItem[]; // Most recently added first
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReleaseCadence {
+  count: number; // Releases sampled, at most one page
+  latest: string | null; // published_at of the newest release
+  averageDays: number | null; // Mean gap between the sampled releases, null below two releases
+}
+
+export interface RepoComparisonStats {
+  contributors: number | null; // null when GitHub refuses to count (e.g. very large histories)
+  releases: ReleaseCadence;
+}
+
+export interface HealthSignals {
+  commitsLast90Days: number | null;
+  medianIssueCloseDays: number | null; // Over recently closed issues, pull requests excluded
+  releases: ReleaseCadence | null;
+  busFactor: number | null; // Fewest contributors who made half of all commits
+}
+
+export type HealthFactorId = 'activity' | 'issues' | 'releases' | 'bus-factor' | 'recency' | 'license' | 'backlog' | 'community';
+
+export interface HealthFactor {
+  id: HealthFactorId;
+  label: string;
+  weight: number; // Share of the total score, all weights add up to 1
+  score: number | null; // 0..1, null when the signal could not be read
+  detail: string; // Why the factor scored the way it did
+}
+
+export interface RepoHealth {
+  score: number; // 0..100
+  factors: HealthFactor[];
+  archived: boolean;
+}
+
+export interface StarHistoryPoint {
+  date: string; // When the star was given
+  stars: number; // Stars the repository had counted at that moment
+}
+
+export interface StarHistory {
+  repo: string; // full_name, lower case
+  points: StarHistoryPoint[]; // Oldest first, without the current total
+  sampled: boolean; // Built from a sample of stargazer pages rather than every star
+  lastPage: number; // Last stargazer page read
+  lastPageCount: number; // Stars read from that page, where the next extension resumes
+  updatedAt: number;
+  // Read with a user token at some point, so possibly a private repository: dropped on sign-out
+  authenticated?: boolean;
+}
+
+export interface CommitActivityWeek {
+  week: number; // Unix seconds, start of the week (Sunday)
+  total: number;
+  days: number[]; // Commits per day, Sunday first
+}
+
+export interface ContributorStats {
+  author: GitHubUser | null; // null for commits without a linked account
+  total: number;
+  weeks: { w: number; a: number; d: number; c: number }[]; // Week start, additions, deletions, commits
+}
+
+export interface CodeFrequencyWeek {
+  week: number; // Unix seconds
+  additions: number;
+  deletions: number; // Positive count
 }
 
 export interface IssueFilterState {
   sort: 'created' | 'updated' | 'comments';
   direction: 'asc' | 'desc';
   labels: string[];
+  state: 'open' | 'closed' | 'all';
+  // People filters take a login; assignee also accepts '*' (anyone) and 'none'. Empty means any.
+  assignee: string;
+  creator: string;
+  mentioned: string;
+  milestone: string; // A milestone number, '*' or 'none'; empty means any
+  since: string; // YYYY-MM-DD: only issues updated on or after this day; empty means any time
+}
+
+export interface IssuePage {
+  issues: GitHubIssue[];
+  nextPage: number | null; // From the Link header; null on the last page
+}
+
+// Starter issue finder: which beginner-friendly issues to look for across repositories
+export interface IssueFinderFilters {
+  labels: 'good-first-issue' | 'help-wanted' | 'both';
+  unassigned: boolean;
+  updatedWithin: number; // Days; 0 means any time
+  maxComments: number | null; // null means any number of comments
+}
+
+export interface IssueSearchResponse {
+  total_count: number;
+  items: GitHubIssue[]; // Each with its `repository` attached
+  nextPage: number | null;
+  hiddenByStars: number; // Issues on this page whose repository falls outside the star range
+}
+
+export interface GitHubMilestone {
+  id: number;
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  open_issues: number;
+}
+
+export type PullRequestState = 'open' | 'merged' | 'closed'; // 'closed' means closed without merging
+
+export interface PullRequestFilterState {
+  state: PullRequestState;
+  sort: 'created' | 'updated' | 'popularity';
+  direction: 'asc' | 'desc';
+}
+
+export interface GitHubPullRequest {
+  id: number;
+  number: number;
+  title: string;
+  user: GitHubUser;
+  state: 'open' | 'closed';
+  draft: boolean;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+  html_url: string;
+  labels: GitHubLabel[];
+  requested_reviewers: GitHubUser[];
+}
+
+export interface PullRequestPage {
+  pulls: GitHubPullRequest[];
+  nextPage: number | null; // From the Link header; null on the last page
+}
+
+export type ReviewStatus = 'approved' | 'changes_requested' | 'commented' | 'review_requested' | 'none';
+
+// Figures only the single pull request endpoint and its reviews carry
+export interface PullRequestDetails {
+  additions: number;
+  deletions: number;
+  changed_files: number;
+  commits: number;
+  review: ReviewStatus;
+}
+
+export interface MergeStats {
+  sampled: number; // Recently closed pull requests looked at
+  merged: number;
+  medianHours: number | null;
+  averageHours: number | null;
+}
+
+export interface GitHubReleaseAsset {
+  id: number;
+  name: string;
+  size: number; // Bytes
+  download_count: number;
+  browser_download_url: string;
+}
+
+export interface GitHubRelease {
+  id: number;
+  tag_name: string;
+  name: string | null;
+  html_url: string;
+  body_html?: string; // Present when requested with the html media type
+  draft: boolean; // Only listed for people with push access
+  prerelease: boolean;
+  created_at: string;
+  published_at: string | null;
+  author: GitHubUser | null;
+  assets: GitHubReleaseAsset[];
+}
+
+export interface ReleasePage {
+  releases: GitHubRelease[];
+  nextPage: number | null;
+}
+
+export interface GitHubTag {
+  name: string;
+  commit: { sha: string };
+  zipball_url: string;
+  tarball_url: string;
+}
+
+export interface TagPage {
+  tags: GitHubTag[];
+  nextPage: number | null;
+}
+
+export interface ReleaseTimeline {
+  published: string[]; // published_at of non-draft releases, newest first
+  complete: boolean; // False when older releases did not fit in the sample
+}
+
+export interface GitHubBranch {
+  name: string;
+  commit: { sha: string };
+}
+
+export interface GitHubTreeEntry {
+  path: string; // Full path from the root for recursive listings, the name otherwise
+  type: 'blob' | 'tree' | 'commit'; // 'commit' is a submodule
+  sha: string;
+  size?: number; // Blobs only
+}
+
+export interface RepoTree {
+  sha: string;
+  entries: GitHubTreeEntry[];
+  truncated: boolean; // GitHub cut a recursive listing short; directories must be read one by one
+}
+
+export interface FileContent {
+  sha: string;
+  size: number;
+  text: string | null; // Null for binary files and files beyond the contents API's 1 MB limit
+  binary: boolean;
 }
@@ -13,7 +13,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY || ''),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || '')
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || ''),
+        // Base URL of the trending source, see services/trending.ts
+        'process.env.TRENDING_URL': JSON.stringify(env.TRENDING_URL || '')
       },
       resolve: {
         alias: {